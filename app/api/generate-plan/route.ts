@@ -1,5 +1,22 @@
 import { NextResponse } from "next/server";
-import { generatePlan, savePlanToDB, type PlanResult } from "@/lib/planningEngine";
+import {
+  DependencyCycleError,
+  generatePlan,
+  savePlanToDB,
+  type PlanResult,
+  type UnscheduledTask,
+} from "@/lib/planningEngine";
+import {
+  DEFAULT_OPTIMIZE_BUDGET_MS,
+  type OptimizationReport,
+} from "@/lib/planner/optimizer";
+import {
+  DEFAULT_ASSIGNMENT_MODE,
+  DEFAULT_ORDERING_STRATEGY,
+  isAssignmentMode,
+  isOrderingStrategy,
+  validatePlanWindow,
+} from "@/lib/planner/scheduler";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 
 export async function POST(request: Request) {
@@ -7,19 +24,71 @@ export async function POST(request: Request) {
   try {
     const supabase = createServerSupabaseClient();
     const body = await request.json().catch(() => ({}));
-    const { simulatedPlans, excludeCompleted } = body;
+    const {
+      simulatedPlans,
+      excludeCompleted,
+      strategy,
+      assignment,
+      optimize,
+      startDate,
+      horizonEnd,
+    } = body;
 
     let plans: PlanResult[];
+    let optimization: OptimizationReport | null = null;
+    let unscheduled: UnscheduledTask[] = [];
     const excludeCompletedFlag = excludeCompleted === true;
 
+    if (strategy !== undefined && !isOrderingStrategy(strategy)) {
+      console.log("[PLANNER:BE] POST /api/generate-plan - Invalid strategy", {
+        strategy,
+      });
+      return NextResponse.json(
+        { success: false, error: `Unknown ordering strategy: ${strategy}` },
+        { status: 400 }
+      );
+    }
+    const orderingStrategy = strategy ?? DEFAULT_ORDERING_STRATEGY;
+
+    if (assignment !== undefined && !isAssignmentMode(assignment)) {
+      console.log("[PLANNER:BE] POST /api/generate-plan - Invalid assignment mode", {
+        assignment,
+      });
+      return NextResponse.json(
+        { success: false, error: `Unknown assignment mode: ${assignment}` },
+        { status: 400 }
+      );
+    }
+    const assignmentMode = assignment ?? DEFAULT_ASSIGNMENT_MODE;
+
+    // Plan from a given day (default today), optionally up to a horizon
+    const windowError = validatePlanWindow(startDate, horizonEnd);
+    if (windowError) {
+      console.log("[PLANNER:BE] POST /api/generate-plan - Invalid plan window", {
+        startDate,
+        horizonEnd,
+      });
+      return NextResponse.json(
+        { success: false, error: windowError },
+        { status: 400 }
+      );
+    }
+    const isSimulated =
+      simulatedPlans && Array.isArray(simulatedPlans) && simulatedPlans.length > 0;
+
     console.log("[PLANNER:BE] POST /api/generate-plan - Request parameters", {
       hasSimulatedPlans: !!(simulatedPlans && Array.isArray(simulatedPlans) && simulatedPlans.length > 0),
       simulatedPlansCount: simulatedPlans?.length || 0,
       excludeCompleted: excludeCompletedFlag,
+      orderingStrategy,
+      assignmentMode,
+      optimize: optimize === true,
+      startDate,
+      horizonEnd,
     });
 
     // If simulated plans are provided, use them directly (from simulator)
-    if (simulatedPlans && Array.isArray(simulatedPlans) && simulatedPlans.length > 0) {
+    if (isSimulated) {
       console.log("[PLANNER:BE] POST /api/generate-plan - Using simulated plans", {
         count: simulatedPlans.length,
       });
@@ -30,17 +99,36 @@ export async function POST(request: Request) {
         start_date: sp.start_date,
         end_date: sp.end_date,
         total_hours: sp.total_hours,
+        hours_spent: sp.hours_spent || 0,
         is_overdue: sp.is_overdue || false,
         days_overdue: sp.days_overdue || 0,
+        daily_allocations: Array.isArray(sp.daily_allocations)
+          ? sp.daily_allocations
+          : [],
+        role: sp.role ?? null,
+        lock_type: sp.lock_type ?? null,
+        explanation: sp.explanation ?? null,
       }));
     } else {
       // Otherwise, generate a new plan
       console.log("[PLANNER:BE] POST /api/generate-plan - Generating new plan", {
         excludeCompleted: excludeCompletedFlag,
       });
-      plans = await generatePlan(supabase, excludeCompletedFlag);
+      ({ plans, optimization, unscheduled } = await generatePlan(
+        supabase,
+        excludeCompletedFlag,
+        {
+          strategy: orderingStrategy,
+          assignment: assignmentMode,
+          startDate: startDate ?? undefined,
+          horizonEnd: horizonEnd ?? undefined,
+        },
+        optimize === true ? { timeBudgetMs: DEFAULT_OPTIMIZE_BUDGET_MS } : null
+      ));
       console.log("[PLANNER:BE] POST /api/generate-plan - Plan generated", {
         planCount: plans.length,
+        optimization,
+        unscheduledCount: unscheduled.length,
       });
     }
 
@@ -49,7 +137,14 @@ export async function POST(request: Request) {
       planCount: plans.length,
       excludeCompleted: excludeCompletedFlag,
     });
-    const success = await savePlanToDB(supabase, plans, excludeCompletedFlag);
+    const success = await savePlanToDB(supabase, plans, excludeCompletedFlag, {
+      source: isSimulated ? "simulation" : "generate",
+      ordering_strategy: orderingStrategy,
+      assignment_mode: assignmentMode,
+      plan_start_date: startDate ?? undefined,
+      horizon_end: horizonEnd ?? null,
+      unscheduled_tasks: unscheduled,
+    });
 
     if (!success) {
       console.error("[PLANNER:BE] POST /api/generate-plan - Failed to save plan to database");
@@ -65,8 +160,20 @@ export async function POST(request: Request) {
     return NextResponse.json({
       success: true,
       plan: plans,
+      optimization,
+      unscheduled,
     });
   } catch (error) {
+    if (error instanceof DependencyCycleError) {
+      console.error("[PLANNER:BE] POST /api/generate-plan - Dependency cycle", {
+        cycle: error.cycle,
+      });
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
     console.error("[PLANNER:BE] POST /api/generate-plan - Error generating plan", {
       error,
     });
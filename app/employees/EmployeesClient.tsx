@@ -15,7 +15,23 @@
 
 import { useState, useTransition, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { Employee, EmployeeInsert } from "@/types/database";
+import {
+  Employee,
+  EmployeeInsert,
+  HolidayCalendar,
+  Weekday,
+} from "@/types/database";
+import {
+  DEFAULT_DAILY_HOURS,
+  DEFAULT_WORK_DAYS,
+  WEEKDAYS,
+} from "@/lib/planner/scheduler";
+import {
+  DEFAULT_SKILL_LEVEL,
+  collectSkillNames,
+  getSkillLevelLabel,
+  parseSkillList,
+} from "@/lib/skills/matching";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -66,6 +82,8 @@ import {
   Upload,
 } from "lucide-react";
 import { CSVUploadDialog } from "@/components/CSVUploadDialog";
+import { SkillsEditor } from "@/components/SkillsEditor";
+import { Badge } from "@/components/ui/badge";
 import { TableSkeleton } from "@/components/skeletons/TableSkeleton";
 import {
   addEmployee,
@@ -76,10 +94,29 @@ import {
 
 type EmployeesClientProps = {
   initialEmployees: Employee[];
+  holidayCalendars: HolidayCalendar[];
 };
 
+// Work week: the employee's own, else their calendar's, else Mon–Fri
+const getEffectiveWorkDays = (
+  employee: Pick<Employee, "work_days" | "holiday_calendar_id">,
+  calendars: HolidayCalendar[]
+): readonly string[] =>
+  employee.work_days ??
+  calendars.find((c) => c.id === employee.holiday_calendar_id)?.work_days ??
+  DEFAULT_WORK_DAYS;
+
+// Weekly hours over the work days, with unset days counted at the default
+const getWeeklyHours = (employee: Employee, workDays: readonly string[]) =>
+  WEEKDAYS.filter((day) => workDays.includes(day.key)).reduce(
+    (sum, day) =>
+      sum + (employee.working_hours?.[day.key] ?? DEFAULT_DAILY_HOURS),
+    0
+  );
+
 export default function EmployeesClient({
   initialEmployees,
+  holidayCalendars,
 }: EmployeesClientProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
@@ -107,8 +144,43 @@ export default function EmployeesClient({
     name: "",
     designation: "Developer",
     active: true,
+    working_hours: null,
+    work_days: null,
+    holiday_calendar_id: null,
+    start_date: null,
+    end_date: null,
+    skills: [],
   });
 
+  // Update hours for one weekday; an empty input falls back to the default
+  const setWorkingHours = (day: Weekday, value: string) => {
+    const workingHours = { ...formData.working_hours };
+    if (value === "") {
+      delete workingHours[day];
+    } else {
+      workingHours[day] = parseFloat(value);
+    }
+    setFormData({ ...formData, working_hours: workingHours });
+  };
+
+  const formWorkDays = getEffectiveWorkDays(formData, holidayCalendars);
+
+  const skillSuggestions = collectSkillNames(employees.map((e) => e.skills));
+
+  // Form data as sent to the server, without skill rows left blank
+  const getSubmitData = (): EmployeeInsert => ({
+    ...formData,
+    skills: (formData.skills || []).filter((skill) => skill.name.trim()),
+  });
+
+  // Turn one weekday on or off, starting from the inherited work week
+  const toggleWorkDay = (day: Weekday) => {
+    const workDays = WEEKDAYS.map((d) => d.key).filter((key) =>
+      key === day ? !formWorkDays.includes(key) : formWorkDays.includes(key)
+    );
+    setFormData({ ...formData, work_days: workDays });
+  };
+
   // Refresh employees data after mutations
   const refreshEmployees = () => {
     console.log("[EMPLOYEES:FE] Refreshing employees data");
@@ -128,7 +200,7 @@ export default function EmployeesClient({
     console.log("[EMPLOYEES:FE] handleAddEmployee - Calling server action", { name: formData.name, designation: formData.designation, active: formData.active });
     try {
       setSubmitting(true);
-      const result = await addEmployee(formData);
+      const result = await addEmployee(getSubmitData());
 
       if (!result.success) {
         console.error("[EMPLOYEES:FE] handleAddEmployee - Server action failed", { error: result.error });
@@ -159,7 +231,7 @@ export default function EmployeesClient({
     console.log("[EMPLOYEES:FE] handleUpdateEmployee - Calling server action", { id: selectedEmployee.id, name: formData.name, designation: formData.designation, active: formData.active });
     try {
       setSubmitting(true);
-      const result = await updateEmployee(selectedEmployee.id, formData);
+      const result = await updateEmployee(selectedEmployee.id, getSubmitData());
 
       if (!result.success) {
         console.error("[EMPLOYEES:FE] handleUpdateEmployee - Server action failed", { error: result.error });
@@ -222,6 +294,12 @@ export default function EmployeesClient({
       name: employee.name,
       designation: employee.designation,
       active: employee.active,
+      working_hours: employee.working_hours ?? null,
+      work_days: employee.work_days ?? null,
+      holiday_calendar_id: employee.holiday_calendar_id ?? null,
+      start_date: employee.start_date ?? null,
+      end_date: employee.end_date ?? null,
+      skills: employee.skills ?? [],
     });
     setIsDialogOpen(true);
   };
@@ -239,6 +317,12 @@ export default function EmployeesClient({
       name: "",
       designation: "Developer",
       active: true,
+      working_hours: null,
+      work_days: null,
+      holiday_calendar_id: null,
+      start_date: null,
+      end_date: null,
+      skills: [],
     });
     setSelectedEmployee(null);
   };
@@ -259,11 +343,15 @@ export default function EmployeesClient({
 
     for (const row of rows) {
       try {
+        const parsedSkills = parseSkillList(row.skills);
         const employee: EmployeeInsert = {
           name: row.name?.trim() || "",
           designation:
             (row.designation?.trim() as "Developer" | "QA") || "Developer",
           active: true,
+          skills: "skills" in parsedSkills ? parsedSkills.skills : [],
+          start_date: row.start_date?.trim() || null,
+          end_date: row.end_date?.trim() || null,
         };
 
         // Validate
@@ -282,6 +370,11 @@ export default function EmployeesClient({
           continue;
         }
 
+        if ("error" in parsedSkills) {
+          errors.push(`Row "${employee.name}": ${parsedSkills.error}`);
+          continue;
+        }
+
         validRows.push(employee);
       } catch (error: any) {
         errors.push(`Row parsing error: ${error.message}`);
@@ -469,7 +562,7 @@ export default function EmployeesClient({
                     Add Employee
                   </Button>
                 </DialogTrigger>
-                <DialogContent className="sm:max-w-[500px]">
+                <DialogContent className="sm:max-w-[600px]">
                   <DialogHeader>
                     <DialogTitle>
                       {selectedEmployee ? "Edit Employee" : "Add New Employee"}
@@ -511,6 +604,159 @@ export default function EmployeesClient({
                         </SelectContent>
                       </Select>
                     </div>
+                    <div className="grid gap-2">
+                      <Label>Skills</Label>
+                      <SkillsEditor
+                        id="employee-skills"
+                        value={formData.skills || []}
+                        onChange={(skills) =>
+                          setFormData({ ...formData, skills })
+                        }
+                        suggestions={skillSuggestions}
+                        defaultLevel={DEFAULT_SKILL_LEVEL}
+                        addLabel="Add skill"
+                        disabled={submitting}
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="holidayCalendar">Holiday Calendar</Label>
+                      <Select
+                        value={
+                          formData.holiday_calendar_id
+                            ? String(formData.holiday_calendar_id)
+                            : "none"
+                        }
+                        onValueChange={(value) =>
+                          setFormData({
+                            ...formData,
+                            holiday_calendar_id:
+                              value === "none" ? null : Number(value),
+                          })
+                        }
+                        disabled={submitting}
+                      >
+                        <SelectTrigger id="holidayCalendar">
+                          <SelectValue placeholder="Select calendar" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No calendar</SelectItem>
+                          {holidayCalendars.map((calendar) => (
+                            <SelectItem
+                              key={calendar.id}
+                              value={String(calendar.id)}
+                            >
+                              {calendar.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid gap-2">
+                      <div className="flex items-center justify-between">
+                        <Label>Work Week &amp; Hours per Day</Label>
+                        {formData.work_days && (
+                          <Button
+                            type="button"
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0 text-xs"
+                            onClick={() =>
+                              setFormData({ ...formData, work_days: null })
+                            }
+                            disabled={submitting}
+                          >
+                            Use {formData.holiday_calendar_id ? "calendar" : "default"} work week
+                          </Button>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-7 gap-2">
+                        {WEEKDAYS.map((day) => {
+                          const works = formWorkDays.includes(day.key);
+                          return (
+                            <div key={day.key} className="grid gap-1">
+                              <div className="flex items-center gap-1">
+                                <Checkbox
+                                  id={`works-${day.key}`}
+                                  checked={works}
+                                  onCheckedChange={() => toggleWorkDay(day.key)}
+                                  disabled={submitting}
+                                />
+                                <Label
+                                  htmlFor={`works-${day.key}`}
+                                  className="text-xs text-muted-foreground"
+                                >
+                                  {day.label}
+                                </Label>
+                              </div>
+                              <Input
+                                id={`hours-${day.key}`}
+                                type="number"
+                                min="0"
+                                max="24"
+                                step="0.5"
+                                placeholder={
+                                  works ? String(DEFAULT_DAILY_HOURS) : "–"
+                                }
+                                value={
+                                  works
+                                    ? formData.working_hours?.[day.key] ?? ""
+                                    : ""
+                                }
+                                onChange={(e) =>
+                                  setWorkingHours(day.key, e.target.value)
+                                }
+                                disabled={submitting || !works}
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {formData.work_days
+                          ? "Custom work week. "
+                          : formData.holiday_calendar_id
+                            ? "Follows the holiday calendar work week. "
+                            : "Default Mon–Fri work week. "}
+                        Leave hours blank for {DEFAULT_DAILY_HOURS} hours.
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="grid gap-2">
+                        <Label htmlFor="start_date">Start Date (Optional)</Label>
+                        <Input
+                          id="start_date"
+                          type="date"
+                          value={formData.start_date || ""}
+                          onChange={(e) =>
+                            setFormData({
+                              ...formData,
+                              start_date: e.target.value || null,
+                            })
+                          }
+                          disabled={submitting}
+                        />
+                      </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="end_date">End Date (Optional)</Label>
+                        <Input
+                          id="end_date"
+                          type="date"
+                          value={formData.end_date || ""}
+                          min={formData.start_date || undefined}
+                          onChange={(e) =>
+                            setFormData({
+                              ...formData,
+                              end_date: e.target.value || null,
+                            })
+                          }
+                          disabled={submitting}
+                        />
+                      </div>
+                      <p className="col-span-2 text-xs text-muted-foreground">
+                        No work is planned before the start date or after the
+                        end date.
+                      </p>
+                    </div>
                     <div className="flex items-center space-x-2">
                       <Checkbox
                         id="active"
@@ -639,7 +885,7 @@ export default function EmployeesClient({
 
           {isPending ? (
             <div className="rounded-lg border overflow-hidden">
-              <TableSkeleton rows={6} columns={4} />
+              <TableSkeleton rows={6} columns={7} />
             </div>
           ) : employees.length === 0 ? (
             <div className="text-center py-12">
@@ -674,6 +920,9 @@ export default function EmployeesClient({
                     <TableHead className="w-[80px] font-semibold">ID</TableHead>
                     <TableHead className="font-semibold">Name</TableHead>
                     <TableHead className="font-semibold">Designation</TableHead>
+                    <TableHead className="font-semibold">Skills</TableHead>
+                    <TableHead className="font-semibold">Hours / Week</TableHead>
+                    <TableHead className="font-semibold">Holidays</TableHead>
                     <TableHead className="w-[120px] font-semibold">Status</TableHead>
                     <TableHead className="w-[150px] text-right font-semibold">
                       Actions
@@ -707,6 +956,45 @@ export default function EmployeesClient({
                           </span>
                         </div>
                       </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {(employee.skills || []).length === 0 ? (
+                            <span className="text-sm text-muted-foreground">–</span>
+                          ) : (
+                            employee.skills!.map((skill) => (
+                              <Badge
+                                key={skill.name}
+                                variant="secondary"
+                                title={getSkillLevelLabel(skill.level)}
+                              >
+                                {skill.name} · {skill.level}
+                              </Badge>
+                            ))
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell
+                        className="text-sm"
+                        title={WEEKDAYS.filter((day) =>
+                          getEffectiveWorkDays(employee, holidayCalendars).includes(day.key)
+                        )
+                          .map(
+                            (day) =>
+                              `${day.label}: ${employee.working_hours?.[day.key] ?? DEFAULT_DAILY_HOURS}h`
+                          )
+                          .join(", ")}
+                      >
+                        {getWeeklyHours(
+                          employee,
+                          getEffectiveWorkDays(employee, holidayCalendars)
+                        )}
+                        h
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {holidayCalendars.find(
+                          (c) => c.id === employee.holiday_calendar_id
+                        )?.name || "–"}
+                      </TableCell>
                       <TableCell>
                         <span
                           className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold shadow-sm ${
@@ -717,6 +1005,13 @@ export default function EmployeesClient({
                         >
                           {employee.active ? "Active" : "Inactive"}
                         </span>
+                        {(employee.start_date || employee.end_date) && (
+                          <div className="mt-1 text-xs text-muted-foreground">
+                            {employee.start_date && `From ${employee.start_date}`}
+                            {employee.start_date && employee.end_date && " · "}
+                            {employee.end_date && `Until ${employee.end_date}`}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
@@ -789,7 +1084,7 @@ export default function EmployeesClient({
         open={csvDialogOpen}
         onOpenChange={setCsvDialogOpen}
         title="Upload Employees CSV"
-        description="Upload or paste CSV data to bulk import employees. Expected columns: name, designation"
+        description="Upload or paste CSV data to bulk import employees. Expected columns: name, designation, skills (optional, e.g. React:3; SQL:2 with levels 1-4), start_date and end_date (optional, YYYY-MM-DD)"
         columns={[
           {
             key: "name",
@@ -807,9 +1102,29 @@ export default function EmployeesClient({
               return null;
             },
           },
+          {
+            key: "skills",
+            label: "Skills",
+            validator: (value) => {
+              const parsed = parseSkillList(value);
+              return "error" in parsed ? parsed.error : null;
+            },
+          },
+          {
+            key: "start_date",
+            label: "Start Date",
+            validator: (value) =>
+              /^\d{4}-\d{2}-\d{2}$/.test(value) ? null : "Must be YYYY-MM-DD",
+          },
+          {
+            key: "end_date",
+            label: "End Date",
+            validator: (value) =>
+              /^\d{4}-\d{2}-\d{2}$/.test(value) ? null : "Must be YYYY-MM-DD",
+          },
         ]}
         onImport={handleCSVImport}
-        sampleData="John Doe,Developer\nSarah Lee,QA\nMike Smith,Developer"
+        sampleData="John Doe,Developer,React:3; TypeScript:3\nSarah Lee,QA,Cypress:4\nMike Smith,Developer,SQL:2"
       />
     </div>
   );
@@ -9,6 +9,8 @@
 
 import { revalidatePath } from "next/cache";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { isValidWorkWeek } from "@/lib/planner/scheduler";
+import { validateSkills } from "@/lib/skills/matching";
 import type { EmployeeInsert } from "@/types/database";
 
 export type ActionResult<T = void> = {
@@ -17,6 +19,48 @@ export type ActionResult<T = void> = {
   data?: T;
 };
 
+// Working hours must be between 0 and 24 for every day that is set
+function validateWorkingHours(
+  workingHours: EmployeeInsert["working_hours"]
+): string | null {
+  if (!workingHours) return null;
+  const invalid = Object.entries(workingHours).find(
+    ([, hours]) =>
+      typeof hours !== "number" || isNaN(hours) || hours < 0 || hours > 24
+  );
+  return invalid
+    ? `Working hours for ${invalid[0]} must be between 0 and 24`
+    : null;
+}
+
+// Parse YYYY-MM-DD strictly so forms and imports cannot carry garbage dates
+const isValidDate = (value: string): boolean => {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return false;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getDate() === Number(match[3]);
+};
+
+// Employment dates are optional, but must be real dates in order
+function validateEmploymentDates(
+  employee: Pick<EmployeeInsert, "start_date" | "end_date">
+): string | null {
+  if (employee.start_date && !isValidDate(employee.start_date)) {
+    return "Start date must be a valid date (YYYY-MM-DD)";
+  }
+  if (employee.end_date && !isValidDate(employee.end_date)) {
+    return "End date must be a valid date (YYYY-MM-DD)";
+  }
+  if (
+    employee.start_date &&
+    employee.end_date &&
+    employee.end_date < employee.start_date
+  ) {
+    return "End date must be on or after the start date";
+  }
+  return null;
+}
+
 /**
  * Add a new employee
  */
@@ -33,6 +77,41 @@ export async function addEmployee(
       };
     }
 
+    const workingHoursError = validateWorkingHours(employee.working_hours);
+    if (workingHoursError) {
+      console.log("[EMPLOYEES:ACTION] addEmployee - Validation failed: working hours", { working_hours: employee.working_hours });
+      return {
+        success: false,
+        error: workingHoursError,
+      };
+    }
+
+    if (employee.work_days != null && !isValidWorkWeek(employee.work_days)) {
+      console.log("[EMPLOYEES:ACTION] addEmployee - Validation failed: work days", { work_days: employee.work_days });
+      return {
+        success: false,
+        error: "Select at least one working day",
+      };
+    }
+
+    const employmentError = validateEmploymentDates(employee);
+    if (employmentError) {
+      console.log("[EMPLOYEES:ACTION] addEmployee - Validation failed: employment dates", { start_date: employee.start_date, end_date: employee.end_date });
+      return {
+        success: false,
+        error: employmentError,
+      };
+    }
+
+    const skillsError = validateSkills(employee.skills);
+    if (skillsError) {
+      console.log("[EMPLOYEES:ACTION] addEmployee - Validation failed: skills", { skills: employee.skills });
+      return {
+        success: false,
+        error: skillsError,
+      };
+    }
+
     const supabase = createServerSupabaseClient();
 
     const { error } = await supabase
@@ -82,6 +161,41 @@ export async function updateEmployee(
       };
     }
 
+    const workingHoursError = validateWorkingHours(employee.working_hours);
+    if (workingHoursError) {
+      console.log("[EMPLOYEES:ACTION] updateEmployee - Validation failed: working hours", { working_hours: employee.working_hours });
+      return {
+        success: false,
+        error: workingHoursError,
+      };
+    }
+
+    if (employee.work_days != null && !isValidWorkWeek(employee.work_days)) {
+      console.log("[EMPLOYEES:ACTION] updateEmployee - Validation failed: work days", { work_days: employee.work_days });
+      return {
+        success: false,
+        error: "Select at least one working day",
+      };
+    }
+
+    const employmentError = validateEmploymentDates(employee);
+    if (employmentError) {
+      console.log("[EMPLOYEES:ACTION] updateEmployee - Validation failed: employment dates", { start_date: employee.start_date, end_date: employee.end_date });
+      return {
+        success: false,
+        error: employmentError,
+      };
+    }
+
+    const skillsError = validateSkills(employee.skills);
+    if (skillsError) {
+      console.log("[EMPLOYEES:ACTION] updateEmployee - Validation failed: skills", { skills: employee.skills });
+      return {
+        success: false,
+        error: skillsError,
+      };
+    }
+
     const supabase = createServerSupabaseClient();
 
     const { error } = await supabase
@@ -203,6 +317,24 @@ export async function bulkImportEmployees(
       };
     }
 
+    const invalidSkillsRow = employees.find((emp) => validateSkills(emp.skills));
+    if (invalidSkillsRow) {
+      console.log("[EMPLOYEES:BE] bulkImportEmployees - Validation failed: skills", { name: invalidSkillsRow.name });
+      return {
+        success: false,
+        error: `Employee "${invalidSkillsRow.name}": ${validateSkills(invalidSkillsRow.skills)}`,
+      };
+    }
+
+    const invalidDatesRow = employees.find((emp) => validateEmploymentDates(emp));
+    if (invalidDatesRow) {
+      console.log("[EMPLOYEES:BE] bulkImportEmployees - Validation failed: employment dates", { name: invalidDatesRow.name });
+      return {
+        success: false,
+        error: `Employee "${invalidDatesRow.name}": ${validateEmploymentDates(invalidDatesRow)}`,
+      };
+    }
+
     const supabase = createServerSupabaseClient();
 
     // Prepare data with timestamps
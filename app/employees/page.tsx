@@ -1,5 +1,6 @@
 import { Suspense } from "react";
 import { fetchEmployees } from "@/lib/employees/server";
+import { fetchHolidayCalendars } from "@/lib/holidays/server";
 import EmployeesClient from "./EmployeesClient";
 import { TableSkeleton } from "@/components/skeletons/TableSkeleton";
 import {
@@ -20,9 +21,12 @@ export const dynamic = 'force-dynamic';
  * is shipped to the browser.
  */
 export default async function EmployeesPage() {
-  // Fetch employees data on the server
+  // Fetch employees and holiday calendars on the server
   console.log("[EMPLOYEES:BE] Page load - Fetching employees data");
-  const employees = await fetchEmployees();
+  const [employees, holidayCalendars] = await Promise.all([
+    fetchEmployees(),
+    fetchHolidayCalendars(),
+  ]);
   console.log(`[EMPLOYEES:BE] Page load - Fetched ${employees.length} employees`);
 
   return (
@@ -53,14 +57,17 @@ export default async function EmployeesPage() {
             </CardHeader>
             <CardContent>
               <div className="rounded-lg border overflow-hidden">
-                <TableSkeleton rows={6} columns={4} />
+                <TableSkeleton rows={6} columns={7} />
               </div>
             </CardContent>
           </Card>
         </div>
       }
     >
-      <EmployeesClient initialEmployees={employees} />
+      <EmployeesClient
+        initialEmployees={employees}
+        holidayCalendars={holidayCalendars}
+      />
     </Suspense>
   );
 }
@@ -0,0 +1,695 @@
+"use client";
+
+/**
+ * Client component for holidays page UI
+ *
+ * This component handles all interactive UI elements:
+ * - Calendar selection and creation
+ * - Holiday form and table
+ * - CSV and ICS import
+ * - Local UI state
+ *
+ * It does NOT perform direct database operations.
+ * All mutations go through Server Actions.
+ */
+
+import { useState, useTransition, useEffect, useMemo, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarPlus, Loader2, Trash2, Upload } from "lucide-react";
+import { CSVUploadDialog } from "@/components/CSVUploadDialog";
+import { TableSkeleton } from "@/components/skeletons/TableSkeleton";
+import { toast } from "sonner";
+import {
+  addHoliday,
+  addHolidayCalendar,
+  bulkImportHolidays,
+  deleteHoliday,
+  deleteHolidayCalendar,
+  updateHolidayCalendarWorkWeek,
+} from "./actions";
+import { parseIcsHolidays, type ParsedHoliday } from "@/lib/holidays/ics";
+import { DEFAULT_WORK_DAYS, WEEKDAYS } from "@/lib/planner/scheduler";
+import type {
+  Employee,
+  Holiday,
+  HolidayCalendar,
+  Weekday,
+} from "@/types/database";
+
+// Flip one weekday in a work week, keeping Monday-first order
+const toggleWeekday = (workDays: readonly string[], day: Weekday): Weekday[] =>
+  WEEKDAYS.map((d) => d.key).filter((key) =>
+    key === day ? !workDays.includes(key) : workDays.includes(key)
+  );
+
+// Store the default work week as null so it keeps following the default
+const toStoredWorkWeek = (workDays: Weekday[]): Weekday[] | null =>
+  workDays.length === DEFAULT_WORK_DAYS.length &&
+  workDays.every((day) => DEFAULT_WORK_DAYS.includes(day))
+    ? null
+    : workDays;
+
+type HolidaysClientProps = {
+  initialCalendars: HolidayCalendar[];
+  initialHolidays: Holiday[];
+  employees: Employee[];
+};
+
+export default function HolidaysClient({
+  initialCalendars,
+  initialHolidays,
+  employees,
+}: HolidaysClientProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>(initialCalendars);
+  const [holidays, setHolidays] = useState<Holiday[]>(initialHolidays);
+  const [selectedCalendarId, setSelectedCalendarId] = useState<string>(
+    initialCalendars[0] ? String(initialCalendars[0].id) : ""
+  );
+  const [holidayDate, setHolidayDate] = useState("");
+  const [holidayName, setHolidayName] = useState("");
+  const [calendarDialogOpen, setCalendarDialogOpen] = useState(false);
+  const [calendarName, setCalendarName] = useState("");
+  const [calendarDescription, setCalendarDescription] = useState("");
+  const [calendarWorkDays, setCalendarWorkDays] = useState<Weekday[]>([
+    ...(DEFAULT_WORK_DAYS as Weekday[]),
+  ]);
+  const [deleteCalendarDialogOpen, setDeleteCalendarDialogOpen] = useState(false);
+  const [csvDialogOpen, setCsvDialogOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const icsInputRef = useRef<HTMLInputElement>(null);
+
+  // Update local state when initial data changes (after refresh)
+  useEffect(() => {
+    console.log(`[HOLIDAYS:FE] Data refreshed - received ${initialCalendars.length} calendars and ${initialHolidays.length} holidays`);
+    setCalendars(initialCalendars);
+    setHolidays(initialHolidays);
+    // Keep the selection valid, e.g. after the selected calendar was deleted
+    setSelectedCalendarId((current) =>
+      initialCalendars.some((c) => String(c.id) === current)
+        ? current
+        : initialCalendars[0]
+          ? String(initialCalendars[0].id)
+          : ""
+    );
+  }, [initialCalendars, initialHolidays]);
+
+  // Refresh holidays data after mutations
+  const refreshHolidays = () => {
+    console.log("[HOLIDAYS:FE] Refreshing holidays data");
+    startTransition(() => {
+      router.refresh();
+    });
+  };
+
+  const selectedCalendar = calendars.find(
+    (c) => String(c.id) === selectedCalendarId
+  );
+
+  const calendarHolidays = useMemo(
+    () => holidays.filter((h) => String(h.calendar_id) === selectedCalendarId),
+    [holidays, selectedCalendarId]
+  );
+
+  const assignedEmployees = employees.filter(
+    (emp) => String(emp.holiday_calendar_id) === selectedCalendarId
+  );
+
+  const formatDate = (dateString: string) => {
+    const [year, month, day] = dateString.split("-").map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      weekday: "short",
+    });
+  };
+
+  const handleAddCalendar = async () => {
+    if (!calendarName.trim()) {
+      console.log("[HOLIDAYS:FE] handleAddCalendar - Validation failed: empty name");
+      toast.error("Please enter a calendar name");
+      return;
+    }
+
+    console.log("[HOLIDAYS:FE] handleAddCalendar - Calling server action", { name: calendarName });
+    try {
+      setSubmitting(true);
+      const result = await addHolidayCalendar(
+        calendarName,
+        calendarDescription,
+        toStoredWorkWeek(calendarWorkDays)
+      );
+
+      if (!result.success) {
+        console.error("[HOLIDAYS:FE] handleAddCalendar - Server action failed", { error: result.error });
+        toast.error(result.error || "Failed to add calendar");
+      } else {
+        console.log("[HOLIDAYS:FE] handleAddCalendar - Success");
+        setCalendarDialogOpen(false);
+        setCalendarName("");
+        setCalendarDescription("");
+        setCalendarWorkDays([...(DEFAULT_WORK_DAYS as Weekday[])]);
+        toast.success("Calendar added successfully!");
+        refreshHolidays();
+      }
+    } catch (error) {
+      console.error("[HOLIDAYS:FE] handleAddCalendar - Unexpected error:", error);
+      toast.error("An unexpected error occurred.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleToggleWorkDay = async (day: Weekday) => {
+    if (!selectedCalendar) return;
+
+    const workDays = toggleWeekday(
+      selectedCalendar.work_days ?? DEFAULT_WORK_DAYS,
+      day
+    );
+    if (workDays.length === 0) {
+      toast.error("A work week needs at least one working day");
+      return;
+    }
+
+    console.log("[HOLIDAYS:FE] handleToggleWorkDay - Calling server action", { id: selectedCalendar.id, workDays });
+    try {
+      const result = await updateHolidayCalendarWorkWeek(
+        selectedCalendar.id,
+        toStoredWorkWeek(workDays)
+      );
+
+      if (!result.success) {
+        console.error("[HOLIDAYS:FE] handleToggleWorkDay - Server action failed", { error: result.error });
+        toast.error(result.error || "Failed to update work week");
+      } else {
+        console.log("[HOLIDAYS:FE] handleToggleWorkDay - Success");
+        toast.success("Work week updated");
+        refreshHolidays();
+      }
+    } catch (error) {
+      console.error("[HOLIDAYS:FE] handleToggleWorkDay - Unexpected error:", error);
+      toast.error("An unexpected error occurred.");
+    }
+  };
+
+  const handleDeleteCalendar = async () => {
+    if (!selectedCalendar) return;
+
+    console.log("[HOLIDAYS:FE] handleDeleteCalendar - Calling server action", { id: selectedCalendar.id });
+    try {
+      setSubmitting(true);
+      const result = await deleteHolidayCalendar(selectedCalendar.id);
+
+      if (!result.success) {
+        console.error("[HOLIDAYS:FE] handleDeleteCalendar - Server action failed", { error: result.error });
+        toast.error(result.error || "Failed to delete calendar");
+      } else {
+        console.log("[HOLIDAYS:FE] handleDeleteCalendar - Success");
+        setDeleteCalendarDialogOpen(false);
+        toast.success("Calendar deleted successfully!");
+        refreshHolidays();
+      }
+    } catch (error) {
+      console.error("[HOLIDAYS:FE] handleDeleteCalendar - Unexpected error:", error);
+      toast.error("An unexpected error occurred.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAddHoliday = async () => {
+    if (!selectedCalendar || !holidayDate || !holidayName.trim()) {
+      console.log("[HOLIDAYS:FE] handleAddHoliday - Validation failed: missing fields");
+      toast.error("Please select a calendar, a date and a name");
+      return;
+    }
+
+    if (calendarHolidays.some((h) => h.holiday_date === holidayDate)) {
+      console.log("[HOLIDAYS:FE] handleAddHoliday - Validation failed: duplicate date");
+      toast.error("This calendar already has a holiday on this date");
+      return;
+    }
+
+    console.log("[HOLIDAYS:FE] handleAddHoliday - Calling server action", { calendarId: selectedCalendar.id, holidayDate, holidayName });
+    try {
+      const result = await addHoliday(selectedCalendar.id, holidayDate, holidayName);
+
+      if (!result.success) {
+        console.error("[HOLIDAYS:FE] handleAddHoliday - Server action failed", { error: result.error });
+        toast.error(result.error || "Failed to add holiday");
+      } else {
+        console.log("[HOLIDAYS:FE] handleAddHoliday - Success");
+        setHolidayDate("");
+        setHolidayName("");
+        toast.success("Holiday added successfully!");
+        refreshHolidays();
+      }
+    } catch (error) {
+      console.error("[HOLIDAYS:FE] handleAddHoliday - Unexpected error:", error);
+      toast.error("An unexpected error occurred.");
+    }
+  };
+
+  const handleDeleteHoliday = async (holiday: Holiday) => {
+    console.log("[HOLIDAYS:FE] handleDeleteHoliday - Calling server action", { id: holiday.id });
+    try {
+      const result = await deleteHoliday(holiday.id);
+
+      if (!result.success) {
+        console.error("[HOLIDAYS:FE] handleDeleteHoliday - Server action failed", { error: result.error });
+        toast.error(result.error || "Failed to delete holiday");
+      } else {
+        console.log("[HOLIDAYS:FE] handleDeleteHoliday - Success");
+        toast.success("Holiday deleted successfully!");
+        refreshHolidays();
+      }
+    } catch (error) {
+      console.error("[HOLIDAYS:FE] handleDeleteHoliday - Unexpected error:", error);
+      toast.error("An unexpected error occurred.");
+    }
+  };
+
+  // Shared by CSV and ICS import
+  const importHolidays = async (rows: ParsedHoliday[]) => {
+    if (!selectedCalendar) {
+      return { success: false, inserted: 0, errors: ["Please select a calendar first"] };
+    }
+
+    console.log("[HOLIDAYS:FE] importHolidays - Calling server action", { calendarId: selectedCalendar.id, rowCount: rows.length });
+    const result = await bulkImportHolidays(selectedCalendar.id, rows);
+    if (!result.success) {
+      console.error("[HOLIDAYS:FE] importHolidays - Server action failed", { error: result.error });
+      return {
+        success: false,
+        inserted: 0,
+        errors: [result.error || "Failed to import holidays"],
+      };
+    }
+
+    console.log("[HOLIDAYS:FE] importHolidays - Success", { inserted: result.data?.inserted });
+    refreshHolidays();
+    return { success: true, inserted: result.data?.inserted || 0, errors: [] };
+  };
+
+  // Handle CSV import
+  const handleCSVImport = async (rows: Array<Record<string, string>>) => {
+    console.log("[HOLIDAYS:FE] handleCSVImport - Processing CSV", { rowCount: rows.length });
+    const validRows: ParsedHoliday[] = [];
+    const errors: string[] = [];
+
+    for (const row of rows) {
+      const date = row.date?.trim() || "";
+      const name = row.name?.trim() || "";
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        errors.push(`Row "${name || date}": Invalid date. Use YYYY-MM-DD`);
+        continue;
+      }
+      if (!name) {
+        errors.push(`Row ${date}: Missing name`);
+        continue;
+      }
+      validRows.push({ holiday_date: date, name });
+    }
+
+    if (validRows.length === 0) {
+      return { success: false, inserted: 0, errors };
+    }
+
+    const result = await importHolidays(validRows);
+    return { ...result, errors: [...errors, ...result.errors] };
+  };
+
+  // Handle ICS import
+  const handleICSFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    console.log("[HOLIDAYS:FE] handleICSFile - Parsing ICS file", { fileName: file.name });
+    try {
+      const { holidays: parsed, errors } = parseIcsHolidays(await file.text());
+      if (parsed.length === 0) {
+        toast.error(errors[0] || "No holidays found in this file");
+        return;
+      }
+
+      const result = await importHolidays(parsed);
+      if (!result.success) {
+        toast.error(result.errors[0] || "Failed to import holidays");
+        return;
+      }
+      toast.success(
+        `Imported ${result.inserted} holiday${result.inserted !== 1 ? "s" : ""}` +
+          (errors.length > 0 ? ` (${errors.length} events skipped)` : "")
+      );
+    } catch (error) {
+      console.error("[HOLIDAYS:FE] handleICSFile - Unexpected error:", error);
+      toast.error("Could not read the ICS file.");
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <CardTitle>Holiday Calendars</CardTitle>
+            <Button onClick={() => setCalendarDialogOpen(true)} variant="outline">
+              <CalendarPlus className="mr-2 h-4 w-4" />
+              New Calendar
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {calendars.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No holiday calendars yet. Create one (for example per country or
+              office), then assign employees to it on the Employees page.
+            </div>
+          ) : (
+            <>
+              {/* Calendar selection */}
+              <div className="flex flex-col sm:flex-row sm:items-end gap-4 border-b pb-6">
+                <div className="space-y-2 sm:w-64">
+                  <Label htmlFor="calendar">Calendar</Label>
+                  <Select
+                    value={selectedCalendarId}
+                    onValueChange={setSelectedCalendarId}
+                  >
+                    <SelectTrigger id="calendar">
+                      <SelectValue placeholder="Select a calendar" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {calendars.map((calendar) => (
+                        <SelectItem key={calendar.id} value={String(calendar.id)}>
+                          {calendar.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex-1 text-sm text-muted-foreground space-y-1">
+                  {selectedCalendar?.description && (
+                    <p>{selectedCalendar.description}</p>
+                  )}
+                  <p>
+                    <Badge variant="secondary" className="mr-2">
+                      {assignedEmployees.length}
+                    </Badge>
+                    employee{assignedEmployees.length !== 1 ? "s" : ""} on this calendar
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setCsvDialogOpen(true)}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import CSV
+                  </Button>
+                  <Button variant="outline" onClick={() => icsInputRef.current?.click()}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import ICS
+                  </Button>
+                  <input
+                    ref={icsInputRef}
+                    type="file"
+                    accept=".ics,text/calendar"
+                    className="hidden"
+                    onChange={handleICSFile}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDeleteCalendarDialogOpen(true)}
+                    className="text-destructive hover:text-destructive"
+                    title="Delete calendar"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {/* Work week */}
+              <div className="space-y-2 border-b pb-6">
+                <h3 className="text-lg font-semibold">Work Week</h3>
+                <div className="flex flex-wrap gap-4">
+                  {WEEKDAYS.map((day) => (
+                    <div key={day.key} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`calendar-works-${day.key}`}
+                        checked={(
+                          selectedCalendar?.work_days ?? DEFAULT_WORK_DAYS
+                        ).includes(day.key)}
+                        onCheckedChange={() => handleToggleWorkDay(day.key)}
+                        disabled={isPending}
+                      />
+                      <Label htmlFor={`calendar-works-${day.key}`}>
+                        {day.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Employees on this calendar work these days unless they have
+                  their own work week.
+                </p>
+              </div>
+
+              {/* Add Holiday Form */}
+              <div className="space-y-4 border-b pb-6">
+                <h3 className="text-lg font-semibold">Add Holiday</h3>
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="holidayDate">Date</Label>
+                    <Input
+                      id="holidayDate"
+                      type="date"
+                      value={holidayDate}
+                      onChange={(e) => setHolidayDate(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="holidayName">Name</Label>
+                    <Input
+                      id="holidayName"
+                      placeholder="e.g. New Year's Day"
+                      value={holidayName}
+                      onChange={(e) => setHolidayName(e.target.value)}
+                    />
+                  </div>
+                  <div className="flex items-end">
+                    <Button onClick={handleAddHoliday} className="w-full">
+                      Add Holiday
+                    </Button>
+                  </div>
+                </div>
+              </div>
+
+              {/* Holidays Table */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold">
+                  Holidays ({calendarHolidays.length})
+                </h3>
+                {isPending ? (
+                  <TableSkeleton rows={5} columns={3} />
+                ) : calendarHolidays.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No holidays in this calendar yet. Add one above or import a
+                    CSV or ICS file.
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {calendarHolidays.map((holiday) => (
+                        <TableRow key={holiday.id}>
+                          <TableCell>{formatDate(holiday.holiday_date)}</TableCell>
+                          <TableCell className="font-medium">{holiday.name}</TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDeleteHoliday(holiday)}
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* New Calendar Dialog */}
+      <Dialog open={calendarDialogOpen} onOpenChange={setCalendarDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Holiday Calendar</DialogTitle>
+            <DialogDescription>
+              Employees assigned to a calendar get its holidays off.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="calendarName">Name *</Label>
+              <Input
+                id="calendarName"
+                placeholder="e.g. India, London Office"
+                value={calendarName}
+                onChange={(e) => setCalendarName(e.target.value)}
+                disabled={submitting}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="calendarDescription">Description</Label>
+              <Input
+                id="calendarDescription"
+                placeholder="Optional"
+                value={calendarDescription}
+                onChange={(e) => setCalendarDescription(e.target.value)}
+                disabled={submitting}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Work Week</Label>
+              <div className="flex flex-wrap gap-4">
+                {WEEKDAYS.map((day) => (
+                  <div key={day.key} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`new-calendar-works-${day.key}`}
+                      checked={calendarWorkDays.includes(day.key)}
+                      onCheckedChange={() =>
+                        setCalendarWorkDays(
+                          toggleWeekday(calendarWorkDays, day.key)
+                        )
+                      }
+                      disabled={submitting}
+                    />
+                    <Label htmlFor={`new-calendar-works-${day.key}`}>
+                      {day.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setCalendarDialogOpen(false)}
+              disabled={submitting}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleAddCalendar} disabled={submitting}>
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Calendar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Calendar Dialog */}
+      <Dialog
+        open={deleteCalendarDialogOpen}
+        onOpenChange={setDeleteCalendarDialogOpen}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Calendar</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete{" "}
+              <strong>{selectedCalendar?.name || "this calendar"}</strong> and
+              all of its holidays? {assignedEmployees.length} employee
+              {assignedEmployees.length !== 1 ? "s" : ""} will no longer follow
+              a calendar. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleteCalendarDialogOpen(false)}
+              disabled={submitting}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteCalendar}
+              disabled={submitting}
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* CSV Upload Dialog */}
+      <CSVUploadDialog
+        open={csvDialogOpen}
+        onOpenChange={setCsvDialogOpen}
+        title={`Import Holidays into ${selectedCalendar?.name || "Calendar"}`}
+        description="Upload or paste CSV data to bulk import holidays. Expected columns: date (YYYY-MM-DD), name. Dates already in the calendar are skipped."
+        columns={[
+          {
+            key: "date",
+            label: "Date",
+            required: true,
+            validator: (value) =>
+              /^\d{4}-\d{2}-\d{2}$/.test(value) ? null : "Must be YYYY-MM-DD",
+          },
+          {
+            key: "name",
+            label: "Name",
+            required: true,
+          },
+        ]}
+        onImport={handleCSVImport}
+        sampleData="2026-01-01,New Year's Day\n2026-12-25,Christmas Day\n2026-12-26,Boxing Day"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,426 @@
+"use server";
+
+/**
+ * Server Actions for holiday calendar mutations
+ *
+ * All database write operations (create, delete, import) happen here.
+ * These actions are called from client components but execute on the server.
+ */
+
+import { revalidatePath } from "next/cache";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { isValidWorkWeek } from "@/lib/planner/scheduler";
+import type { ParsedHoliday } from "@/lib/holidays/ics";
+import type { Weekday } from "@/types/database";
+
+export type ActionResult<T = void> = {
+  success: boolean;
+  error?: string;
+  data?: T;
+};
+
+// Parse YYYY-MM-DD strictly so imported rows cannot carry garbage dates
+const isValidDate = (value: string): boolean => {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return false;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getDate() === Number(match[3]);
+};
+
+/**
+ * Touch employees on a calendar so the planner notices removed holidays
+ * (deleted rows leave no last_updated behind to compare against)
+ */
+async function touchCalendarEmployees(
+  supabase: ReturnType<typeof createServerSupabaseClient>,
+  calendarId: number
+): Promise<void> {
+  const { error } = await supabase
+    .from("employees")
+    .update({ last_updated: new Date().toISOString() })
+    .eq("holiday_calendar_id", calendarId);
+
+  if (error) {
+    console.warn("[HOLIDAYS:ACTION] touchCalendarEmployees - Warning: Failed to update employee timestamps", {
+      error: error.message,
+      calendarId,
+    });
+    // Continue anyway - this is just for recalculation trigger
+  }
+}
+
+/**
+ * Add a new holiday calendar
+ */
+export async function addHolidayCalendar(
+  name: string,
+  description?: string,
+  workDays: Weekday[] | null = null
+): Promise<ActionResult> {
+  console.log("[HOLIDAYS:ACTION] addHolidayCalendar called", { name, workDays });
+  try {
+    if (!name?.trim()) {
+      console.log("[HOLIDAYS:ACTION] addHolidayCalendar - Validation failed: empty name");
+      return {
+        success: false,
+        error: "Please enter a calendar name",
+      };
+    }
+
+    if (workDays !== null && !isValidWorkWeek(workDays)) {
+      console.log("[HOLIDAYS:ACTION] addHolidayCalendar - Validation failed: work days", { workDays });
+      return {
+        success: false,
+        error: "Select at least one working day",
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { error } = await supabase.from("holiday_calendars").insert({
+      name: name.trim(),
+      description: description?.trim() || null,
+      work_days: workDays,
+      last_updated: new Date().toISOString(),
+    });
+
+    if (error) {
+      console.error("[HOLIDAYS:ACTION] addHolidayCalendar - Supabase error:", error);
+      return {
+        success: false,
+        error:
+          error.code === "23505"
+            ? "A calendar with this name already exists"
+            : "Failed to add calendar. Please try again.",
+      };
+    }
+
+    revalidatePath("/holidays");
+    revalidatePath("/employees");
+    console.log("[HOLIDAYS:ACTION] addHolidayCalendar - Success, revalidated paths");
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("[HOLIDAYS:ACTION] addHolidayCalendar - Unexpected error:", error);
+    return {
+      success: false,
+      error: "An unexpected error occurred.",
+    };
+  }
+}
+
+/**
+ * Change the work week of a holiday calendar
+ * Employees without their own work week follow it; null means Mon–Fri.
+ */
+export async function updateHolidayCalendarWorkWeek(
+  id: number,
+  workDays: Weekday[] | null
+): Promise<ActionResult> {
+  console.log("[HOLIDAYS:ACTION] updateHolidayCalendarWorkWeek called", { id, workDays });
+  try {
+    if (!id) {
+      console.log("[HOLIDAYS:ACTION] updateHolidayCalendarWorkWeek - Validation failed: invalid ID");
+      return {
+        success: false,
+        error: "Invalid calendar ID",
+      };
+    }
+
+    if (workDays !== null && !isValidWorkWeek(workDays)) {
+      console.log("[HOLIDAYS:ACTION] updateHolidayCalendarWorkWeek - Validation failed: work days", { workDays });
+      return {
+        success: false,
+        error: "Select at least one working day",
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { error } = await supabase
+      .from("holiday_calendars")
+      .update({ work_days: workDays, last_updated: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) {
+      console.error("[HOLIDAYS:ACTION] updateHolidayCalendarWorkWeek - Supabase error:", error);
+      return {
+        success: false,
+        error: "Failed to update work week. Please try again.",
+      };
+    }
+
+    // The planner only watches employees, so flag the calendar's employees
+    await touchCalendarEmployees(supabase, id);
+
+    revalidatePath("/holidays");
+    revalidatePath("/employees");
+    revalidatePath("/planner");
+    console.log("[HOLIDAYS:ACTION] updateHolidayCalendarWorkWeek - Success, revalidated paths");
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("[HOLIDAYS:ACTION] updateHolidayCalendarWorkWeek - Unexpected error:", error);
+    return {
+      success: false,
+      error: "An unexpected error occurred.",
+    };
+  }
+}
+
+/**
+ * Delete a holiday calendar and its holidays
+ * Employees on the calendar are left without one.
+ */
+export async function deleteHolidayCalendar(id: number): Promise<ActionResult> {
+  console.log("[HOLIDAYS:ACTION] deleteHolidayCalendar called", { id });
+  try {
+    if (!id) {
+      console.log("[HOLIDAYS:ACTION] deleteHolidayCalendar - Validation failed: invalid ID");
+      return {
+        success: false,
+        error: "Invalid calendar ID",
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    // Touch assigned employees first; the delete clears their calendar
+    await touchCalendarEmployees(supabase, id);
+
+    const { error } = await supabase
+      .from("holiday_calendars")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error("[HOLIDAYS:ACTION] deleteHolidayCalendar - Supabase error:", error);
+      return {
+        success: false,
+        error: "Failed to delete calendar. Please try again.",
+      };
+    }
+
+    revalidatePath("/holidays");
+    revalidatePath("/employees");
+    revalidatePath("/planner");
+    console.log("[HOLIDAYS:ACTION] deleteHolidayCalendar - Success, revalidated paths");
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("[HOLIDAYS:ACTION] deleteHolidayCalendar - Unexpected error:", error);
+    return {
+      success: false,
+      error: "An unexpected error occurred.",
+    };
+  }
+}
+
+/**
+ * Add a holiday to a calendar
+ */
+export async function addHoliday(
+  calendarId: number,
+  holidayDate: string,
+  name: string
+): Promise<ActionResult> {
+  console.log("[HOLIDAYS:ACTION] addHoliday called", { calendarId, holidayDate, name });
+  try {
+    if (!calendarId) {
+      console.log("[HOLIDAYS:ACTION] addHoliday - Validation failed: no calendar");
+      return {
+        success: false,
+        error: "Please select a calendar",
+      };
+    }
+
+    if (!isValidDate(holidayDate)) {
+      console.log("[HOLIDAYS:ACTION] addHoliday - Validation failed: invalid date");
+      return {
+        success: false,
+        error: "Please select a valid date",
+      };
+    }
+
+    if (!name?.trim()) {
+      console.log("[HOLIDAYS:ACTION] addHoliday - Validation failed: empty name");
+      return {
+        success: false,
+        error: "Please enter a holiday name",
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { error } = await supabase.from("holidays").insert({
+      calendar_id: calendarId,
+      holiday_date: holidayDate,
+      name: name.trim(),
+      last_updated: new Date().toISOString(),
+    });
+
+    if (error) {
+      console.error("[HOLIDAYS:ACTION] addHoliday - Supabase error:", error);
+      return {
+        success: false,
+        error:
+          error.code === "23505"
+            ? "This calendar already has a holiday on this date"
+            : "Failed to add holiday. Please try again.",
+      };
+    }
+
+    revalidatePath("/holidays");
+    revalidatePath("/planner"); // Also revalidate planner to trigger recalculation check
+    console.log("[HOLIDAYS:ACTION] addHoliday - Success, revalidated paths");
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("[HOLIDAYS:ACTION] addHoliday - Unexpected error:", error);
+    return {
+      success: false,
+      error: "An unexpected error occurred.",
+    };
+  }
+}
+
+/**
+ * Delete a holiday
+ */
+export async function deleteHoliday(id: number): Promise<ActionResult> {
+  console.log("[HOLIDAYS:ACTION] deleteHoliday called", { id });
+  try {
+    if (!id) {
+      console.log("[HOLIDAYS:ACTION] deleteHoliday - Validation failed: invalid ID");
+      return {
+        success: false,
+        error: "Invalid holiday ID",
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: deleted, error } = await supabase
+      .from("holidays")
+      .delete()
+      .eq("id", id)
+      .select("calendar_id");
+
+    if (error) {
+      console.error("[HOLIDAYS:ACTION] deleteHoliday - Supabase error:", error);
+      return {
+        success: false,
+        error: "Failed to delete holiday. Please try again.",
+      };
+    }
+
+    if (deleted && deleted.length > 0) {
+      await touchCalendarEmployees(supabase, deleted[0].calendar_id);
+    }
+
+    revalidatePath("/holidays");
+    revalidatePath("/planner");
+    console.log("[HOLIDAYS:ACTION] deleteHoliday - Success, revalidated paths");
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("[HOLIDAYS:ACTION] deleteHoliday - Unexpected error:", error);
+    return {
+      success: false,
+      error: "An unexpected error occurred.",
+    };
+  }
+}
+
+/**
+ * Bulk import holidays into a calendar from CSV or ICS data
+ * Dates the calendar already has are skipped rather than failing the import.
+ */
+export async function bulkImportHolidays(
+  calendarId: number,
+  holidays: ParsedHoliday[]
+): Promise<ActionResult<{ inserted: number }>> {
+  console.log("[HOLIDAYS:BE] bulkImportHolidays - Called", { calendarId, rowCount: holidays.length });
+  try {
+    if (!calendarId) {
+      console.log("[HOLIDAYS:BE] bulkImportHolidays - Validation failed: no calendar");
+      return {
+        success: false,
+        error: "Please select a calendar",
+      };
+    }
+
+    const validRows = holidays.filter(
+      (h) => isValidDate(h.holiday_date) && h.name?.trim()
+    );
+    if (validRows.length === 0) {
+      console.log("[HOLIDAYS:BE] bulkImportHolidays - Validation failed: no valid rows");
+      return {
+        success: false,
+        error: "No valid holidays to import",
+      };
+    }
+
+    // One row per date, the first name wins
+    const uniqueRows = new Map<string, ParsedHoliday>();
+    validRows.forEach((h) => {
+      if (!uniqueRows.has(h.holiday_date)) {
+        uniqueRows.set(h.holiday_date, h);
+      }
+    });
+
+    const supabase = createServerSupabaseClient();
+    const lastUpdated = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from("holidays")
+      .upsert(
+        Array.from(uniqueRows.values()).map((h) => ({
+          calendar_id: calendarId,
+          holiday_date: h.holiday_date,
+          name: h.name.trim(),
+          last_updated: lastUpdated,
+        })),
+        { onConflict: "calendar_id,holiday_date", ignoreDuplicates: true }
+      )
+      .select("id");
+
+    if (error) {
+      console.error("[HOLIDAYS:BE] bulkImportHolidays - Supabase error", {
+        error: error.message,
+      });
+      return {
+        success: false,
+        error: error.message || "Failed to import holidays. Please try again.",
+      };
+    }
+
+    revalidatePath("/holidays");
+    revalidatePath("/planner");
+    console.log("[HOLIDAYS:BE] bulkImportHolidays - Success", {
+      inserted: data?.length || 0,
+      skipped: uniqueRows.size - (data?.length || 0),
+    });
+
+    return {
+      success: true,
+      data: { inserted: data?.length || 0 },
+    };
+  } catch (error) {
+    console.error("[HOLIDAYS:BE] bulkImportHolidays - Unexpected error:", error);
+    return {
+      success: false,
+      error: "An unexpected error occurred.",
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import { Suspense } from "react";
+import { fetchHolidayCalendars, fetchHolidays } from "@/lib/holidays/server";
+import { fetchEmployees } from "@/lib/employees/server";
+import HolidaysClient from "./HolidaysClient";
+import { TableSkeleton } from "@/components/skeletons/TableSkeleton";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Server Component - Holidays Page
+ * 
+ * This page fetches holiday calendars, holidays and employees on the server
+ * and passes them to the client component for interactive UI. No Supabase
+ * client code is shipped to the browser.
+ */
+export default async function HolidaysPage() {
+  console.log("[HOLIDAYS:BE] Page load - Fetching calendars, holidays and employees");
+  const [calendars, holidays, employees] = await Promise.all([
+    fetchHolidayCalendars(),
+    fetchHolidays(),
+    fetchEmployees(),
+  ]);
+  console.log(`[HOLIDAYS:BE] Page load - Fetched ${calendars.length} calendars and ${holidays.length} holidays`);
+
+  return (
+    <Suspense
+      fallback={
+        <div className="container mx-auto py-8 px-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Holiday Calendars</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="h-10 w-64 bg-muted animate-pulse rounded" />
+              <TableSkeleton rows={5} columns={3} />
+            </CardContent>
+          </Card>
+        </div>
+      }
+    >
+      <HolidaysClient
+        initialCalendars={calendars}
+        initialHolidays={holidays}
+        employees={employees}
+      />
+    </Suspense>
+  );
+}
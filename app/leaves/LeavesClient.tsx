@@ -14,7 +14,7 @@
  * All mutations go through Server Actions.
  */
 
-import { useState, useTransition, useEffect } from "react";
+import { useState, useTransition, useEffect, useMemo, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -43,14 +43,32 @@ import {
 } from "@/components/ui/dialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Trash2 } from "lucide-react";
 import { TableSkeleton } from "@/components/skeletons/TableSkeleton";
 import { toast } from "sonner";
-import { addLeave, deleteLeave } from "./actions";
+import { addLeave, deleteLeave, deleteLeaveGroup } from "./actions";
 import type {
   Employee,
   LeaveWithEmployee,
 } from "@/lib/leaves/server";
+import type { LeavePortion, LeaveType } from "@/types/database";
+import {
+  LEAVE_PORTIONS,
+  LEAVE_TYPES,
+  formatLeaveDuration,
+  leavesConflict,
+} from "@/lib/leaves/portions";
+import {
+  WEEKDAY_OPTIONS,
+  expandLeaveDates,
+  groupLeaves,
+  type LeaveDateSpec,
+  type LeaveGroup,
+} from "@/lib/leaves/ranges";
+import { getWorkDays } from "@/lib/planner/scheduler";
+
+type RepeatMode = "single" | "range" | "weekly";
 
 type LeavesClientProps = {
   initialEmployees: Employee[];
@@ -67,11 +85,31 @@ export default function LeavesClient({
   const [leaves, setLeaves] = useState<LeaveWithEmployee[]>(initialLeaves);
   const [selectedEmployee, setSelectedEmployee] = useState<string>("");
   const [leaveDate, setLeaveDate] = useState<string>("");
+  const [leaveType, setLeaveType] = useState<LeaveType>("Vacation");
+  const [portion, setPortion] = useState<LeavePortion>("full_day");
+  const [leaveHours, setLeaveHours] = useState<string>("");
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>("single");
+  const [endDate, setEndDate] = useState<string>("");
+  const [repeatWeekdays, setRepeatWeekdays] = useState<number[]>([5]);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-  const [leaveToDelete, setLeaveToDelete] = useState<LeaveWithEmployee | null>(
+  const [leaveToDelete, setLeaveToDelete] = useState<LeaveGroup<LeaveWithEmployee> | null>(
     null
   );
 
+  // Work week of an employee; unknown employees get the default
+  const getEmployeeWorkDays = useCallback(
+    (id: string) =>
+      getWorkDays(employees.find((emp) => emp.id === id) ?? {}),
+    [employees]
+  );
+
+  // Leaves booked together are shown as one row
+  const leaveGroups = useMemo(
+    () =>
+      groupLeaves(leaves, (leave) => getEmployeeWorkDays(leave.employee_id)),
+    [leaves, getEmployeeWorkDays]
+  );
+
   // Get today's date in local timezone (YYYY-MM-DD format)
   const getTodayLocal = () => {
     const today = new Date();
@@ -109,9 +147,13 @@ export default function LeavesClient({
   };
 
   const handleAddLeave = async () => {
-    if (!selectedEmployee || !leaveDate) {
+    if (!selectedEmployee || !leaveDate || (repeatMode !== "single" && !endDate)) {
       console.log("[LEAVES:FE] handleAddLeave - Validation failed: missing employee or date");
-      toast.error("Please select an employee and a date");
+      toast.error(
+        repeatMode === "single"
+          ? "Please select an employee and a date"
+          : "Please select an employee, a start date and an end date"
+      );
       return;
     }
 
@@ -135,23 +177,54 @@ export default function LeavesClient({
       return;
     }
 
-    // Check for duplicate leave (client-side check for UX)
-    const isDuplicate = leaves.some(
-      (leave) =>
-        leave.employee_id === employeeId &&
-        leave.leave_date === leaveDate
+    const hours = portion === "hours" ? parseFloat(leaveHours) : null;
+    if (hours !== null && (isNaN(hours) || hours <= 0 || hours > 24)) {
+      console.log("[LEAVES:FE] handleAddLeave - Validation failed: invalid hours", { leaveHours });
+      toast.error("Please enter leave hours between 0 and 24");
+      return;
+    }
+
+    const spec: LeaveDateSpec =
+      repeatMode === "range"
+        ? { kind: "range", from: leaveDate, to: endDate }
+        : repeatMode === "weekly"
+          ? { kind: "weekly", from: leaveDate, until: endDate, weekdays: repeatWeekdays }
+          : { kind: "single", date: leaveDate };
+    const expanded = expandLeaveDates(spec, getEmployeeWorkDays(employeeId));
+    if ("error" in expanded) {
+      console.log("[LEAVES:FE] handleAddLeave - Validation failed: invalid dates", { error: expanded.error });
+      toast.error(expanded.error);
+      return;
+    }
+
+    // Check every day for duplicate leave (client-side check for UX)
+    const duplicateDates = expanded.dates.filter((date) =>
+      leaves.some(
+        (leave) =>
+          leave.employee_id === employeeId &&
+          leave.leave_date === date &&
+          leavesConflict(leave, { portion })
+      )
     );
 
-    if (isDuplicate) {
-      console.log("[LEAVES:FE] handleAddLeave - Validation failed: duplicate leave detected");
-      toast.error("This employee already has a leave on this date");
+    if (duplicateDates.length > 0) {
+      console.log("[LEAVES:FE] handleAddLeave - Validation failed: duplicate leave detected", { duplicateDates });
+      toast.error(
+        expanded.dates.length === 1
+          ? "This employee already has a leave covering this part of the day"
+          : `This employee already has leave on ${duplicateDates.join(", ")}`
+      );
       return;
     }
 
     const selectedEmployeeName = employees.find(emp => emp.id === employeeId)?.name || "Unknown";
-    console.log("[LEAVES:FE] handleAddLeave - Calling server action", { employeeId, employeeName: selectedEmployeeName, leaveDate });
+    console.log("[LEAVES:FE] handleAddLeave - Calling server action", { employeeId, employeeName: selectedEmployeeName, spec, dayCount: expanded.dates.length, leaveType, portion, hours });
     try {
-      const result = await addLeave(employeeId, leaveDate);
+      const result = await addLeave(employeeId, repeatMode === "single" ? leaveDate : spec, {
+        leave_type: leaveType,
+        portion,
+        hours,
+      });
 
       if (!result.success) {
         console.error("[LEAVES:FE] handleAddLeave - Server action failed", { error: result.error });
@@ -161,7 +234,18 @@ export default function LeavesClient({
         // Reset form
         setSelectedEmployee("");
         setLeaveDate("");
-        toast.success("Leave added successfully!");
+        setLeaveType("Vacation");
+        setPortion("full_day");
+        setLeaveHours("");
+        setRepeatMode("single");
+        setEndDate("");
+        setRepeatWeekdays([5]);
+        const inserted = result.data?.inserted || 1;
+        toast.success(
+          inserted > 1
+            ? `${inserted} leave days added successfully!`
+            : "Leave added successfully!"
+        );
         refreshLeaves();
       }
     } catch (error) {
@@ -170,18 +254,21 @@ export default function LeavesClient({
     }
   };
 
-  const handleDeleteClick = (leave: LeaveWithEmployee) => {
-    console.log("[LEAVES:FE] handleDeleteClick - Opening delete confirmation", { id: leave.id, employeeName: leave.employee_name, leaveDate: leave.leave_date });
-    setLeaveToDelete(leave);
+  const handleDeleteClick = (group: LeaveGroup<LeaveWithEmployee>) => {
+    console.log("[LEAVES:FE] handleDeleteClick - Opening delete confirmation", { key: group.key, employeeName: group.leaves[0].employee_name, from: group.from, to: group.to, dayCount: group.leaves.length });
+    setLeaveToDelete(group);
     setDeleteDialogOpen(true);
   };
 
   const handleDeleteConfirm = async () => {
     if (!leaveToDelete) return;
 
-    console.log("[LEAVES:FE] handleDeleteConfirm - Calling server action", { id: leaveToDelete.id });
+    const groupId = leaveToDelete.leaves[0].group_id;
+    console.log("[LEAVES:FE] handleDeleteConfirm - Calling server action", { key: leaveToDelete.key, groupId });
     try {
-      const result = await deleteLeave(leaveToDelete.id);
+      const result = groupId
+        ? await deleteLeaveGroup(groupId)
+        : await deleteLeave(leaveToDelete.leaves[0].id);
 
       if (!result.success) {
         console.error("[LEAVES:FE] handleDeleteConfirm - Server action failed", { error: result.error });
@@ -209,6 +296,30 @@ export default function LeavesClient({
     });
   };
 
+  // Describe the days a leave group covers, e.g. "Every Fri, Oct 2 – Oct 30"
+  const formatLeaveDates = (group: LeaveGroup<LeaveWithEmployee>) => {
+    if (group.leaves.length === 1) {
+      return formatDate(group.from);
+    }
+    const range = `${formatDate(group.from)} – ${formatDate(group.to)}`;
+    const days = `(${group.leaves.length} days)`;
+    if (!group.weekdays) {
+      return `${range} ${days}`;
+    }
+    const weekdayLabels = group.weekdays
+      .map((day) => WEEKDAY_OPTIONS.find((o) => o.value === day)?.label)
+      .join(", ");
+    return `Every ${weekdayLabels}, ${range} ${days}`;
+  };
+
+  const toggleRepeatWeekday = (day: number) => {
+    setRepeatWeekdays((current) =>
+      current.includes(day)
+        ? current.filter((d) => d !== day)
+        : [...current, day].sort()
+    );
+  };
+
   return (
     <div className="container mx-auto py-8 px-4">
       <Card>
@@ -219,7 +330,7 @@ export default function LeavesClient({
           {/* Add Leave Form */}
           <div className="space-y-4 border-b pb-6">
             <h3 className="text-lg font-semibold">Add Leave</h3>
-            <div className="grid gap-4 md:grid-cols-3">
+            <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-4">
               <div className="space-y-2">
                 <Label htmlFor="employee">Employee</Label>
                 <Select
@@ -242,7 +353,25 @@ export default function LeavesClient({
                 </Select>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="leaveDate">Leave Date</Label>
+                <Label htmlFor="repeatMode">Repeat</Label>
+                <Select
+                  value={repeatMode}
+                  onValueChange={(value: RepeatMode) => setRepeatMode(value)}
+                >
+                  <SelectTrigger id="repeatMode">
+                    <SelectValue placeholder="Select repeat" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="single">Single day</SelectItem>
+                    <SelectItem value="range">Date range</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leaveDate">
+                  {repeatMode === "single" ? "Leave Date" : "From"}
+                </Label>
                 <Input
                   id="leaveDate"
                   type="date"
@@ -255,19 +384,111 @@ export default function LeavesClient({
                   min={getTodayLocal()}
                 />
               </div>
+              {repeatMode !== "single" && (
+                <div className="space-y-2">
+                  <Label htmlFor="endDate">
+                    {repeatMode === "range" ? "To" : "Until"}
+                  </Label>
+                  <Input
+                    id="endDate"
+                    type="date"
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                    min={leaveDate || getTodayLocal()}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="leaveType">Leave Type</Label>
+                <Select
+                  value={leaveType}
+                  onValueChange={(value: LeaveType) => setLeaveType(value)}
+                >
+                  <SelectTrigger id="leaveType">
+                    <SelectValue placeholder="Select a type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEAVE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="portion">Duration</Label>
+                <div className="flex gap-2">
+                  <Select
+                    value={portion}
+                    onValueChange={(value: LeavePortion) => setPortion(value)}
+                  >
+                    <SelectTrigger id="portion">
+                      <SelectValue placeholder="Select duration" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LEAVE_PORTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {portion === "hours" && (
+                    <Input
+                      id="leaveHours"
+                      type="number"
+                      min="0.5"
+                      max="24"
+                      step="0.5"
+                      placeholder="Hours"
+                      value={leaveHours}
+                      onChange={(e) => setLeaveHours(e.target.value)}
+                      className="w-24"
+                    />
+                  )}
+                </div>
+              </div>
               <div className="flex items-end">
                 <Button onClick={handleAddLeave} className="w-full">
                   Add Leave
                 </Button>
               </div>
             </div>
+            {repeatMode === "weekly" && (
+              <div className="flex flex-wrap items-center gap-4">
+                <Label className="text-sm">Repeat on</Label>
+                {WEEKDAY_OPTIONS.map((option) => (
+                  <div key={option.value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`repeat-${option.value}`}
+                      checked={repeatWeekdays.includes(option.value)}
+                      onCheckedChange={() => toggleRepeatWeekday(option.value)}
+                    />
+                    <Label
+                      htmlFor={`repeat-${option.value}`}
+                      className="text-sm font-normal"
+                    >
+                      {option.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+            {repeatMode !== "single" && (
+              <p className="text-xs text-muted-foreground">
+                Days the employee does not work and holidays on their calendar
+                are skipped. All days are added together, or none if
+                any of them clashes with an existing leave.
+              </p>
+            )}
           </div>
 
           {/* Leaves Table */}
           <div className="space-y-4">
             <h3 className="text-lg font-semibold">Existing Leaves</h3>
             {isPending ? (
-              <TableSkeleton rows={5} columns={3} />
+              <TableSkeleton rows={5} columns={5} />
             ) : leaves.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
                 No leaves recorded yet. Add a leave using the form above.
@@ -277,22 +498,26 @@ export default function LeavesClient({
                 <TableHeader>
                   <TableRow>
                     <TableHead>Employee</TableHead>
-                    <TableHead>Leave Date</TableHead>
+                    <TableHead>Leave Dates</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Duration</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {leaves.map((leave) => (
-                    <TableRow key={leave.id}>
+                  {leaveGroups.map((group) => (
+                    <TableRow key={group.key}>
                       <TableCell className="font-medium">
-                        {leave.employee_name}
+                        {group.leaves[0].employee_name}
                       </TableCell>
-                      <TableCell>{formatDate(leave.leave_date)}</TableCell>
+                      <TableCell>{formatLeaveDates(group)}</TableCell>
+                      <TableCell>{group.leaves[0].leave_type}</TableCell>
+                      <TableCell>{formatLeaveDuration(group.leaves[0])}</TableCell>
                       <TableCell className="text-right">
                         <Button
                           variant="ghost"
                           size="icon"
-                          onClick={() => handleDeleteClick(leave)}
+                          onClick={() => handleDeleteClick(group)}
                           className="text-destructive hover:text-destructive"
                         >
                           <Trash2 className="h-4 w-4" />
@@ -315,13 +540,11 @@ export default function LeavesClient({
             <DialogDescription>
               Are you sure you want to delete the leave for{" "}
               <strong>
-                {leaveToDelete?.employee_name || "this employee"}
+                {leaveToDelete?.leaves[0].employee_name || "this employee"}
               </strong>{" "}
               on{" "}
               <strong>
-                {leaveToDelete
-                  ? formatDate(leaveToDelete.leave_date)
-                  : ""}
+                {leaveToDelete ? formatLeaveDates(leaveToDelete) : ""}
               </strong>
               ? This action cannot be undone.
             </DialogDescription>
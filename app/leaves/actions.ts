@@ -9,6 +9,14 @@
 
 import { revalidatePath } from "next/cache";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
+import {
+  isLeavePortion,
+  isLeaveType,
+  leavesConflict,
+  type LeaveDetails,
+} from "@/lib/leaves/portions";
+import { expandLeaveDates, type LeaveDateSpec } from "@/lib/leaves/ranges";
+import { getWorkDays } from "@/lib/planner/scheduler";
 
 export type ActionResult<T = void> = {
   success: boolean;
@@ -18,12 +26,22 @@ export type ActionResult<T = void> = {
 
 /**
  * Add a new leave
+ *
+ * Accepts a single date or a date spec for a range / weekly pattern, which is
+ * expanded into one row per working day and inserted all-or-nothing. Rows of
+ * one booking share a group_id so they can be shown and deleted together.
+ *
+ * Defaults to a full-day vacation. Half days (AM/PM) and hourly leaves only
+ * reduce the employee's capacity for that day.
  */
 export async function addLeave(
   employeeId: string,
-  leaveDate: string
-): Promise<ActionResult> {
-  console.log("[LEAVES:ACTION] addLeave called", { employeeId, leaveDate });
+  leaveDate: string | LeaveDateSpec,
+  details: LeaveDetails = {}
+): Promise<ActionResult<{ inserted: number }>> {
+  const leaveType = details.leave_type ?? "Vacation";
+  const portion = details.portion ?? "full_day";
+  console.log("[LEAVES:ACTION] addLeave called", { employeeId, leaveDate, leaveType, portion, hours: details.hours });
   try {
     // Validate inputs
     if (!employeeId || typeof employeeId !== 'string' || employeeId.trim() === '') {
@@ -42,25 +60,94 @@ export async function addLeave(
       };
     }
 
-    // Validate date format
-    const date = new Date(leaveDate);
-    if (isNaN(date.getTime())) {
-      console.log("[LEAVES:ACTION] addLeave - Validation failed: invalid date format");
+    const supabase = createServerSupabaseClient();
+
+    // Ranges and patterns follow the employee's work week and holiday calendar
+    const { data: employee } = await supabase
+      .from("employees")
+      .select("work_days, holiday_calendar_id, holiday_calendars(work_days)")
+      .eq("id", employeeId)
+      .maybeSingle();
+    const workDays = getWorkDays({
+      work_days:
+        employee?.work_days ??
+        // Many-to-one join: a single object at runtime despite the inferred type
+        (employee?.holiday_calendars as { work_days?: string[] | null } | null)
+          ?.work_days,
+    });
+
+    // Validate and expand the dates
+    const spec: LeaveDateSpec =
+      typeof leaveDate === "string" ? { kind: "single", date: leaveDate } : leaveDate;
+    const expanded = expandLeaveDates(spec, workDays);
+    if ("error" in expanded) {
+      console.log("[LEAVES:ACTION] addLeave - Validation failed: invalid dates", { error: expanded.error });
       return {
         success: false,
-        error: "Invalid date format",
+        error: expanded.error,
       };
     }
+    let dates = expanded.dates;
 
-    const supabase = createServerSupabaseClient();
+    if (!isLeaveType(leaveType)) {
+      console.log("[LEAVES:ACTION] addLeave - Validation failed: invalid leave type", { leaveType });
+      return {
+        success: false,
+        error: "Invalid leave type",
+      };
+    }
+
+    if (!isLeavePortion(portion)) {
+      console.log("[LEAVES:ACTION] addLeave - Validation failed: invalid portion", { portion });
+      return {
+        success: false,
+        error: "Invalid part of day",
+      };
+    }
+
+    const hours = portion === "hours" ? Number(details.hours) : null;
+    if (hours !== null && (isNaN(hours) || hours <= 0 || hours > 24)) {
+      console.log("[LEAVES:ACTION] addLeave - Validation failed: invalid hours", { hours: details.hours });
+      return {
+        success: false,
+        error: "Leave hours must be between 0 and 24",
+      };
+    }
+
+    // Ranges and patterns skip the employee's calendar holidays, like days off,
+    // even when they cover a single day
+    if (spec.kind !== "single") {
+      if (employee?.holiday_calendar_id) {
+        const { data: holidayRows, error: holidayError } = await supabase
+          .from("holidays")
+          .select("holiday_date")
+          .eq("calendar_id", employee.holiday_calendar_id)
+          .in("holiday_date", dates);
+
+        if (holidayError) {
+          console.warn("[LEAVES:ACTION] addLeave - Warning: Failed to load holidays", { error: holidayError.message });
+          // Continue anyway - holidays are already zero capacity in the planner
+        } else if (holidayRows && holidayRows.length > 0) {
+          const holidayDates = new Set(holidayRows.map((h) => h.holiday_date as string));
+          dates = dates.filter((date) => !holidayDates.has(date));
+          console.log("[LEAVES:ACTION] addLeave - Skipped holidays", { skipped: holidayDates.size });
+          if (dates.length === 0) {
+            return {
+              success: false,
+              error: "The selected dates contain no working days",
+            };
+          }
+        }
+      }
+    }
 
-    // Check for duplicate leave (same employee, same date)
-    console.log("[LEAVES:ACTION] addLeave - Checking for duplicate leave");
+    // Check every day for overlapping leave (same employee, same date, clashing part of day)
+    console.log("[LEAVES:ACTION] addLeave - Checking for duplicate leave", { dayCount: dates.length });
     const { data: existingLeaves, error: checkError } = await supabase
       .from("leaves")
-      .select("id")
+      .select("id, leave_date, portion")
       .eq("employee_id", employeeId)
-      .eq("leave_date", leaveDate);
+      .in("leave_date", dates);
 
     if (checkError) {
       console.error("[LEAVES:ACTION] addLeave - Error checking duplicate:", checkError);
@@ -70,21 +157,46 @@ export async function addLeave(
       };
     }
 
-    if (existingLeaves && existingLeaves.length > 0) {
-      console.log("[LEAVES:ACTION] addLeave - Validation failed: duplicate leave found");
+    const conflictingDates = [
+      ...new Set(
+        (existingLeaves || [])
+          .filter((leave) => leavesConflict(leave, { portion }))
+          .map((leave) => leave.leave_date as string)
+      ),
+    ].sort();
+    if (conflictingDates.length > 0) {
+      console.log("[LEAVES:ACTION] addLeave - Validation failed: duplicate leave found", { conflictingDates });
       return {
         success: false,
-        error: "This employee already has a leave on this date",
+        error:
+          dates.length === 1
+            ? "This employee already has a leave covering this part of the day"
+            : `This employee already has leave on ${conflictingDates.join(", ")}`,
       };
     }
 
-    // Insert the leave
-    console.log("[LEAVES:ACTION] addLeave - Inserting leave");
-    const { error } = await supabase.from("leaves").insert({
-      employee_id: employeeId,
-      leave_date: leaveDate,
-      last_updated: new Date().toISOString(),
-    });
+    // Insert all days in one statement so the booking is created atomically
+    console.log("[LEAVES:ACTION] addLeave - Inserting leave", { dayCount: dates.length });
+    const groupId = dates.length > 1 ? crypto.randomUUID() : null;
+    // The kind is stored too: holidays and deleted days leave gaps that
+    // would make a range look like a weekly pattern
+    const groupKind = groupId && spec.kind !== "single" ? spec.kind : null;
+    const groupWeekdays =
+      groupKind && spec.kind === "weekly" ? [...spec.weekdays].sort((a, b) => a - b) : null;
+    const lastUpdated = new Date().toISOString();
+    const { error } = await supabase.from("leaves").insert(
+      dates.map((date) => ({
+        employee_id: employeeId,
+        leave_date: date,
+        leave_type: leaveType,
+        portion,
+        hours,
+        group_id: groupId,
+        group_kind: groupKind,
+        group_weekdays: groupWeekdays,
+        last_updated: lastUpdated,
+      }))
+    );
 
     if (error) {
       console.error("[LEAVES:ACTION] addLeave - Supabase error:", error);
@@ -100,6 +212,7 @@ export async function addLeave(
 
     return {
       success: true,
+      data: { inserted: dates.length },
     };
   } catch (error: any) {
     console.error("[LEAVES:ACTION] addLeave - Unexpected error:", error);
@@ -192,3 +305,73 @@ export async function deleteLeave(id: number): Promise<ActionResult> {
     };
   }
 }
+
+/**
+ * Delete all leave days booked together as one range or recurring pattern
+ */
+export async function deleteLeaveGroup(groupId: string): Promise<ActionResult> {
+  console.log("[LEAVES:ACTION] deleteLeaveGroup called", { groupId });
+  try {
+    if (!groupId) {
+      console.log("[LEAVES:ACTION] deleteLeaveGroup - Validation failed: invalid group ID");
+      return {
+        success: false,
+        error: "Invalid leave group",
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    // Delete the group, keeping the employee_id for the recalculation trigger
+    const { data: deleted, error } = await supabase
+      .from("leaves")
+      .delete()
+      .eq("group_id", groupId)
+      .select("employee_id");
+
+    if (error) {
+      console.error("[LEAVES:ACTION] deleteLeaveGroup - Supabase error:", error);
+      return {
+        success: false,
+        error: "Failed to delete leaves. Please try again.",
+      };
+    }
+
+    if (!deleted || deleted.length === 0) {
+      console.log("[LEAVES:ACTION] deleteLeaveGroup - No leaves found", { groupId });
+      return {
+        success: false,
+        error: "Leave not found",
+      };
+    }
+
+    // Update the employee's last_updated timestamp to trigger recalculation check
+    const { error: updateError } = await supabase
+      .from("employees")
+      .update({ last_updated: new Date().toISOString() })
+      .eq("id", deleted[0].employee_id);
+
+    if (updateError) {
+      console.warn("[LEAVES:ACTION] deleteLeaveGroup - Warning: Failed to update employee timestamp", {
+        error: updateError.message,
+        employeeId: deleted[0].employee_id,
+      });
+      // Continue anyway - the leaves are deleted, this is just for recalculation trigger
+    }
+
+    revalidatePath("/leaves");
+    console.log("[LEAVES:ACTION] deleteLeaveGroup - Success, revalidated path", {
+      deletedCount: deleted.length,
+    });
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("[LEAVES:ACTION] deleteLeaveGroup - Unexpected error:", error);
+    return {
+      success: false,
+      error: "An unexpected error occurred.",
+    };
+  }
+}
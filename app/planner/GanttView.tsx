@@ -0,0 +1,333 @@
+"use client";
+
+/**
+ * Timeline of plans per employee for the planner
+ *
+ * Each employee gets a row with a bar per plan from its start to its end
+ * date; days off (outside the work week, holidays and leaves) are shaded.
+ * Dragging a bar onto a day of any employee's row moves the plan there, the
+ * dropped-on day becoming its new start.
+ */
+
+import { useMemo, useState } from "react";
+import { addDays, differenceInCalendarDays, startOfWeek } from "date-fns";
+import { ChevronLeft, ChevronRight, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { Employee, Holiday } from "@/types/database";
+import type { LeaveWithEmployee } from "@/lib/leaves/server";
+import type { PlanWithDetails } from "@/lib/planner/server";
+import {
+  getCapacityAfterLeave,
+  getDailyCapacity,
+  getWorkDays,
+  isEmployedOn,
+  isWorkDay,
+} from "@/lib/planner/scheduler";
+import { formatDateLocal } from "@/lib/utils";
+
+type GanttViewProps = {
+  plans: PlanWithDetails[];
+  employees: Employee[];
+  leaves: LeaveWithEmployee[];
+  holidays: Holiday[];
+  onMovePlan: (
+    plan: PlanWithDetails,
+    employeeId: number,
+    startDate: string
+  ) => Promise<void>;
+};
+
+// Four weeks are shown at a time
+const WEEKS_SHOWN = 4;
+const DAY_WIDTH = 40;
+const LANE_HEIGHT = 28;
+
+// Parse YYYY-MM-DD as a local date (new Date("YYYY-MM-DD") would be UTC)
+const parseLocalDate = (value: string): Date => {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+type Bar = {
+  plan: PlanWithDetails;
+  /** First and last visible day index */
+  from: number;
+  to: number;
+  lane: number;
+};
+
+/**
+ * Lay out the visible plans of one employee on as few lanes as possible
+ */
+function layoutBars(
+  plans: PlanWithDetails[],
+  windowStart: Date,
+  dayCount: number
+): { bars: Bar[]; lanes: number } {
+  const laneEnds: number[] = [];
+  const bars: Bar[] = [];
+
+  [...plans]
+    .sort((a, b) => a.start_date.localeCompare(b.start_date))
+    .forEach((plan) => {
+      const start = differenceInCalendarDays(parseLocalDate(plan.start_date), windowStart);
+      const end = differenceInCalendarDays(parseLocalDate(plan.end_date), windowStart);
+      if (end < 0 || start >= dayCount) return;
+
+      const from = Math.max(start, 0);
+      const to = Math.min(end, dayCount - 1);
+      let lane = laneEnds.findIndex((laneEnd) => laneEnd < from);
+      if (lane === -1) {
+        lane = laneEnds.length;
+        laneEnds.push(to);
+      } else {
+        laneEnds[lane] = to;
+      }
+      bars.push({ plan, from, to, lane });
+    });
+
+  return { bars, lanes: Math.max(laneEnds.length, 1) };
+}
+
+const getBarClass = (plan: PlanWithDetails) => {
+  if (plan.is_overdue) {
+    return "bg-red-500/90 text-white";
+  }
+  return "bg-primary/90 text-primary-foreground";
+};
+
+export function GanttView({
+  plans,
+  employees,
+  leaves,
+  holidays,
+  onMovePlan,
+}: GanttViewProps) {
+  const [weekStart, setWeekStart] = useState(() =>
+    startOfWeek(new Date(), { weekStartsOn: 1 })
+  );
+  const [draggedPlan, setDraggedPlan] = useState<PlanWithDetails | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [movingPlanId, setMovingPlanId] = useState<number | null>(null);
+
+  const days = useMemo(
+    () =>
+      Array.from({ length: WEEKS_SHOWN * 7 }, (_, offset) =>
+        addDays(weekStart, offset)
+      ),
+    [weekStart]
+  );
+
+  const leavesByDay = useMemo(() => {
+    const map = new Map<string, LeaveWithEmployee[]>();
+    leaves.forEach((leave) => {
+      const key = `${leave.employee_id}|${leave.leave_date}`;
+      map.set(key, [...(map.get(key) || []), leave]);
+    });
+    return map;
+  }, [leaves]);
+
+  // Holiday names keyed by calendar and date
+  const holidayNames = useMemo(() => {
+    const map = new Map<string, string>();
+    holidays.forEach((holiday) => {
+      map.set(`${holiday.calendar_id}|${holiday.holiday_date}`, holiday.name);
+    });
+    return map;
+  }, [holidays]);
+
+  const visibleEmployees = employees.filter(
+    (emp) =>
+      emp.active || plans.some((plan) => plan.employee_id === emp.id)
+  );
+
+  // Why an employee cannot work a day, or null on a working day
+  const getDayOff = (employee: Employee, day: Date): string | null => {
+    const dateStr = formatDateLocal(day);
+    if (!isEmployedOn(employee, day)) return "Not employed";
+    if (!isWorkDay(getWorkDays(employee), day)) return "Day off";
+    const holidayName = employee.holiday_calendar_id
+      ? holidayNames.get(`${employee.holiday_calendar_id}|${dateStr}`)
+      : undefined;
+    if (holidayName) return holidayName;
+    const dayLeaves = leavesByDay.get(`${employee.id}|${dateStr}`) || [];
+    if (dayLeaves.length === 0) return null;
+    return getCapacityAfterLeave(getDailyCapacity(employee, day), dayLeaves) === 0
+      ? "Leave"
+      : "Partial leave";
+  };
+
+  const handleDrop = async (employeeId: number, day: Date) => {
+    const plan = draggedPlan;
+    setDraggedPlan(null);
+    setDropTarget(null);
+    if (!plan) return;
+
+    const startDate = formatDateLocal(day);
+    if (plan.employee_id === employeeId && plan.start_date === startDate) return;
+
+    setMovingPlanId(plan.id);
+    try {
+      await onMovePlan(plan, employeeId, startDate);
+    } finally {
+      setMovingPlanId(null);
+    }
+  };
+
+  if (plans.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No active plans. Generate a plan to see the timeline.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setWeekStart(addDays(weekStart, -7 * WEEKS_SHOWN))}
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Previous
+        </Button>
+        <span className="text-sm font-medium">
+          {weekStart.toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+          {" – "}
+          {addDays(weekStart, WEEKS_SHOWN * 7 - 1).toLocaleDateString("en-US", {
+            month: "short",
+            day: "numeric",
+            year: "numeric",
+          })}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setWeekStart(addDays(weekStart, 7 * WEEKS_SHOWN))}
+        >
+          Next
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Drag a bar onto a day to start the plan there, on the same or another
+        employee. Moved plans are locked so regeneration keeps them.
+      </p>
+      <div className="overflow-x-auto rounded-md border">
+        <div style={{ minWidth: 160 + days.length * DAY_WIDTH }}>
+          {/* Day header */}
+          <div className="flex border-b bg-muted/50">
+            <div className="w-40 shrink-0 px-3 py-2 text-sm font-medium">
+              Employee
+            </div>
+            {days.map((day) => (
+              <div
+                key={day.toISOString()}
+                className="shrink-0 py-2 text-center text-xs text-muted-foreground"
+                style={{ width: DAY_WIDTH }}
+              >
+                {day.toLocaleDateString("en-US", { weekday: "narrow" })}
+                <br />
+                {day.getDate()}
+              </div>
+            ))}
+          </div>
+
+          {visibleEmployees.map((employee) => {
+            const { bars, lanes } = layoutBars(
+              plans.filter((plan) => plan.employee_id === employee.id),
+              weekStart,
+              days.length
+            );
+
+            return (
+              <div key={employee.id} className="flex border-b last:border-b-0">
+                <div className="w-40 shrink-0 px-3 py-2 text-sm font-medium truncate">
+                  {employee.name}
+                  <div className="text-xs font-normal text-muted-foreground">
+                    {employee.designation}
+                  </div>
+                </div>
+                <div
+                  className="relative flex"
+                  style={{ height: Math.max(lanes * LANE_HEIGHT + 8, 48) }}
+                >
+                  {days.map((day) => {
+                    const dateStr = formatDateLocal(day);
+                    const key = `${employee.id}|${dateStr}`;
+                    const dayOff = getDayOff(employee, day);
+
+                    return (
+                      <div
+                        key={dateStr}
+                        title={dayOff ?? undefined}
+                        className={`h-full shrink-0 border-l ${
+                          dropTarget === key
+                            ? "bg-primary/20"
+                            : dayOff === "Partial leave"
+                            ? "bg-amber-50 dark:bg-amber-900/10"
+                            : dayOff
+                            ? "bg-muted"
+                            : ""
+                        }`}
+                        style={{ width: DAY_WIDTH }}
+                        onDragOver={(e) => {
+                          if (!draggedPlan) return;
+                          e.preventDefault();
+                          setDropTarget(key);
+                        }}
+                        onDragLeave={() =>
+                          setDropTarget((current) => (current === key ? null : current))
+                        }
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          handleDrop(employee.id, day);
+                        }}
+                      />
+                    );
+                  })}
+
+                  {bars.map(({ plan, from, to, lane }) => (
+                    <div
+                      key={plan.id}
+                      draggable={movingPlanId === null}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = "move";
+                        e.dataTransfer.setData("text/plain", String(plan.id));
+                        setDraggedPlan(plan);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedPlan(null);
+                        setDropTarget(null);
+                      }}
+                      className={`absolute flex items-center gap-1 overflow-hidden rounded px-2 text-xs font-medium cursor-grab active:cursor-grabbing ${getBarClass(
+                        plan
+                      )} ${movingPlanId === plan.id ? "opacity-50" : ""} ${
+                        // Let drops through to the day cells under any bar
+                        draggedPlan ? "pointer-events-none" : ""
+                      } ${draggedPlan?.id === plan.id ? "opacity-60" : ""}`}
+                      style={{
+                        left: from * DAY_WIDTH + 2,
+                        width: (to - from + 1) * DAY_WIDTH - 4,
+                        top: lane * LANE_HEIGHT + 4,
+                        height: LANE_HEIGHT - 4,
+                      }}
+                      title={`${plan.task_title}${plan.role ? ` (${plan.role})` : ""}: ${plan.start_date} → ${plan.end_date}, ${plan.total_hours}h${
+                        plan.is_overdue ? `, ${plan.days_overdue} days overdue` : ""
+                      }`}
+                    >
+                      {plan.lock_type && <Lock className="h-3 w-3 shrink-0" />}
+                      <span className="truncate">{plan.task_title}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
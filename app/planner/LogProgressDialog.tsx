@@ -0,0 +1,124 @@
+"use client";
+
+/**
+ * Dialog to log the progress of an open plan, in hours spent or percent
+ * complete; percent is saved as the matching share of the plan's hours
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { PlanWithDetails } from "@/lib/planner/server";
+
+type ProgressUnit = "hours" | "percent";
+
+type LogProgressDialogProps = {
+  /** Plan to log progress on; the dialog is closed while null */
+  plan: PlanWithDetails | null;
+  onClose: () => void;
+  onSave: (plan: PlanWithDetails, hoursSpent: number) => Promise<void>;
+};
+
+export function LogProgressDialog({ plan, onClose, onSave }: LogProgressDialogProps) {
+  const [unit, setUnit] = useState<ProgressUnit>("hours");
+  const [value, setValue] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from what is logged already each time a plan is opened
+  useEffect(() => {
+    setUnit("hours");
+    setValue(plan?.hours_spent ? String(plan.hours_spent) : "");
+  }, [plan]);
+
+  const total = plan?.total_hours ?? 0;
+  const amount = Number(value);
+  const hoursSpent =
+    unit === "percent" ? Math.round(((total * amount) / 100) * 100) / 100 : amount;
+  const error =
+    value.trim() === "" || !Number.isFinite(amount) || amount < 0
+      ? "Enter zero or more"
+      : hoursSpent > total
+        ? `At most ${unit === "percent" ? "100%" : `${total}h`}`
+        : null;
+
+  const handleSave = async () => {
+    if (!plan || error) return;
+    setIsSaving(true);
+    try {
+      await onSave(plan, hoursSpent);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={plan !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Log Progress</DialogTitle>
+          <DialogDescription>
+            How much of <strong>{plan?.task_title}</strong>
+            {plan?.role ? ` (${plan.role})` : ""} has {plan?.employee_name} done
+            so far? Regenerating with &quot;Exclude completed tasks&quot; then
+            plans only the remaining hours and keeps the start date.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-end gap-3">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="progressValue">
+              {unit === "percent" ? "Percent complete" : "Hours spent"}
+            </Label>
+            <Input
+              id="progressValue"
+              type="number"
+              min={0}
+              max={unit === "percent" ? 100 : total}
+              step="0.5"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+          </div>
+          <div className="w-36 space-y-2">
+            <Label htmlFor="progressUnit">Unit</Label>
+            <Select value={unit} onValueChange={(v) => setUnit(v as ProgressUnit)}>
+              <SelectTrigger id="progressUnit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="hours">Hours</SelectItem>
+                <SelectItem value="percent">Percent</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className={`text-sm ${error ? "text-destructive" : "text-muted-foreground"}`}>
+          {error ?? `${hoursSpent} of ${total}h spent, ${Math.max(total - hoursSpent, 0)}h to go`}
+        </p>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!error || isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
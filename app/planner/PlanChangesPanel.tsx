@@ -0,0 +1,109 @@
+"use client";
+
+/**
+ * Panel listing what changed between two plans, deliverable by deliverable
+ */
+
+import { GitCompare } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import type { DeliverableSummary, PlanChange } from "@/lib/planner/planDiff";
+
+type PlanChangesPanelProps = {
+  title: string;
+  changes: PlanChange[];
+  /** Task titles and employee names by id, as strings */
+  taskTitles: Map<string, string>;
+  employeeNames: Map<string, string>;
+  className?: string;
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+
+export function PlanChangesPanel({
+  title,
+  changes,
+  taskTitles,
+  employeeNames,
+  className,
+}: PlanChangesPanelProps) {
+  const names = (summary: DeliverableSummary) =>
+    summary.employee_ids
+      .map((id) => employeeNames.get(id) ?? "Unknown employee")
+      .join(", ");
+
+  // One short sentence per change
+  const describe = (change: PlanChange): string => {
+    const { before, after } = change;
+    if (change.kind === "added") {
+      return `Newly planned, ${formatDay(after!.start_date)} – ${formatDay(after!.end_date)} (${names(after!)})`;
+    }
+    if (change.kind === "removed") {
+      return `No longer planned (was ${formatDay(before!.start_date)} – ${formatDay(before!.end_date)})`;
+    }
+
+    const parts: string[] = [];
+    if (change.end_shift_days !== 0) {
+      parts.push(
+        `ends ${formatDay(before!.end_date)} → ${formatDay(after!.end_date)} (${
+          change.end_shift_days > 0 ? "+" : ""
+        }${change.end_shift_days} days)`
+      );
+    } else if (before!.start_date !== after!.start_date) {
+      parts.push(
+        `starts ${formatDay(before!.start_date)} → ${formatDay(after!.start_date)}`
+      );
+    }
+    if (change.assignees_changed) {
+      parts.push(`${names(before!)} → ${names(after!)}`);
+    }
+    if (before!.total_hours !== after!.total_hours) {
+      parts.push(`${before!.total_hours}h → ${after!.total_hours}h`);
+    }
+    const text = parts.join("; ");
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  };
+
+  return (
+    <Alert className={className}>
+      <GitCompare className="h-4 w-4" />
+      <AlertTitle>{title}</AlertTitle>
+      <AlertDescription>
+        {changes.length === 0 ? (
+          <p>Nothing changed.</p>
+        ) : (
+          <ul className="w-full space-y-1">
+            {changes.map((change) => (
+              <li
+                key={`${change.task_id}-${change.role ?? ""}`}
+                className="flex flex-wrap items-center gap-2"
+              >
+                <span className="font-medium text-foreground">
+                  {taskTitles.get(change.task_id) ?? "Unknown task"}
+                </span>
+                {change.role && (
+                  <Badge variant="secondary" className="text-xs">
+                    {change.role}
+                  </Badge>
+                )}
+                {change.kind !== "changed" && (
+                  <Badge
+                    variant={change.kind === "added" ? "outline" : "destructive"}
+                    className="text-xs"
+                  >
+                    {change.kind}
+                  </Badge>
+                )}
+                <span>{describe(change)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+/**
+ * "Why?" popover for a plan row
+ *
+ * Shows the trace the planner stored with the plan: who was considered and
+ * their loads, why the assignee was picked, why the plan starts when it does
+ * and which days were skipped.
+ */
+
+import { HelpCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { PlanExplanation, SkippedDay } from "@/lib/planner/scheduler";
+
+// Candidates listed before the rest are summarised
+const CANDIDATES_SHOWN = 6;
+
+const SKIP_REASON_LABELS: Record<SkippedDay["reason"], string> = {
+  day_off: "day off",
+  holiday: "holiday",
+  leave: "leave",
+  booked: "booked",
+  not_employed: "not employed",
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+
+type PlanExplanationPopoverProps = {
+  explanation: PlanExplanation | null | undefined;
+};
+
+export function PlanExplanationPopover({
+  explanation,
+}: PlanExplanationPopoverProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-8 px-2 text-muted-foreground"
+          title="Why this assignee and these dates?"
+        >
+          <HelpCircle className="h-4 w-4 mr-1" />
+          Why?
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-96 p-3 text-sm">
+        {!explanation ? (
+          <p className="text-muted-foreground">
+            No explanation stored for this plan. Regenerate the plan to see
+            why it was assigned this way.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <div>
+              <DropdownMenuLabel className="px-0 pt-0">Assignee</DropdownMenuLabel>
+              <p>{explanation.reason}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {explanation.match}
+              </p>
+            </div>
+
+            {explanation.candidates.length > 0 && (
+              <div>
+                <DropdownMenuLabel className="px-0">Candidates</DropdownMenuLabel>
+                <ul className="space-y-1">
+                  {explanation.candidates
+                    .slice(0, CANDIDATES_SHOWN)
+                    .map((candidate) => (
+                      <li
+                        key={candidate.employee_id}
+                        className="flex items-center justify-between gap-2"
+                      >
+                        <span className="flex items-center gap-1 truncate">
+                          {candidate.name}
+                          {candidate.picked && (
+                            <Badge variant="secondary" className="text-xs">
+                              picked
+                            </Badge>
+                          )}
+                        </span>
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          {candidate.load_hours}h booked · free{" "}
+                          {formatDay(candidate.earliest_start)}
+                          {candidate.projected_finish &&
+                            ` · done ${formatDay(candidate.projected_finish)}`}
+                        </span>
+                      </li>
+                    ))}
+                </ul>
+                {explanation.candidates.length > CANDIDATES_SHOWN && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    and {explanation.candidates.length - CANDIDATES_SHOWN} more
+                  </p>
+                )}
+              </div>
+            )}
+
+            <DropdownMenuSeparator />
+            <div>
+              <DropdownMenuLabel className="px-0 pt-0">Dates</DropdownMenuLabel>
+              <p>{explanation.start}</p>
+              {explanation.skipped_days.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Skipped:{" "}
+                  {explanation.skipped_days
+                    .map(
+                      (day) =>
+                        `${formatDay(day.date)} (${SKIP_REASON_LABELS[day.reason]})`
+                    )
+                    .join(", ")}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -35,8 +35,16 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, CheckCircle2, Lock, Unlock, UserX } from "lucide-react";
 import { HowItWorksModal } from "@/components/HowItWorksModal";
 import { toast } from "sonner";
 import { TableSkeleton } from "@/components/skeletons/TableSkeleton";
@@ -46,18 +54,56 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { markPlanCompleted } from "./actions";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { logPlanProgress, markPlanCompleted, movePlan, setPlanLock } from "./actions";
+import { UtilisationView } from "./UtilisationView";
+import { GanttView } from "./GanttView";
+import { PlanExplanationPopover } from "./PlanExplanationPopover";
+import { LogProgressDialog } from "./LogProgressDialog";
+import { UnscheduledTasksPanel } from "./UnscheduledTasksPanel";
 import type {
   PlanWithDetails,
   RecalculationStatus,
 } from "@/lib/planner/server";
+import type { UnscheduledTask } from "@/lib/planningEngine";
+import type { Employee, Holiday } from "@/types/database";
+import type { LeaveWithEmployee } from "@/lib/leaves/server";
 import { formatDateLocal } from "@/lib/utils";
+import {
+  ASSIGNMENT_MODES,
+  DEFAULT_ASSIGNMENT_MODE,
+  DEFAULT_ORDERING_STRATEGY,
+  ORDERING_STRATEGIES,
+  getReassignmentReason,
+  type AssignmentMode,
+  type OrderingStrategy,
+  type PlanLockType,
+} from "@/lib/planner/scheduler";
 
 type PlannerClientProps = {
   initialPlans: PlanWithDetails[];
   initialRecalculationStatus: RecalculationStatus;
+  /** Tasks the latest generated plan could not schedule */
+  initialUnscheduledTasks: UnscheduledTask[];
+  employees: Employee[];
+  leaves: LeaveWithEmployee[];
+  holidays: Holiday[];
 };
 
+const LOCK_OPTIONS: Array<{ value: PlanLockType; label: string }> = [
+  { value: "assignee", label: "Assignee" },
+  { value: "dates", label: "Start date" },
+  { value: "both", label: "Assignee and dates" },
+];
+
 type ClientGroup = {
   client: string;
   plans: PlanWithDetails[];
@@ -70,9 +116,58 @@ type SprintGroup = {
   plans: PlanWithDetails[];
 };
 
+type Deliverable = {
+  key: string;
+  /**
+   * One plan, or the plans of a task split between roles or assignees,
+   * in working order
+   */
+  plans: PlanWithDetails[];
+};
+
+/**
+ * Group the plans of multi-role and split tasks into one deliverable per task
+ * Deliverables keep the order in which their first plan appears.
+ */
+function groupDeliverables(plans: PlanWithDetails[]): Deliverable[] {
+  const groups = new Map<string, PlanWithDetails[]>();
+  plans.forEach((plan) => {
+    const key = `task-${plan.task_id}`;
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(plan);
+  });
+
+  return Array.from(groups.entries()).map(([key, group]) => ({
+    key,
+    plans: group.sort((a, b) => a.start_date.localeCompare(b.start_date)),
+  }));
+}
+
+/**
+ * Combine the plans of a deliverable into one summary plan spanning all of
+ * them, ending when the last sub-assignment ends
+ */
+function combineDeliverable(plans: PlanWithDetails[]): PlanWithDetails {
+  return {
+    ...plans[plans.length - 1],
+    start_date: plans.map((p) => p.start_date).sort()[0],
+    end_date: plans.map((p) => p.end_date).sort().reverse()[0],
+    total_hours: plans.reduce((sum, p) => sum + p.total_hours, 0),
+    is_completed: plans.every((p) => p.is_completed),
+    is_overdue: plans.some((p) => p.is_overdue),
+    days_overdue: Math.max(...plans.map((p) => p.days_overdue ?? 0)),
+  };
+}
+
 export default function PlannerClient({
   initialPlans,
   initialRecalculationStatus,
+  initialUnscheduledTasks,
+  employees,
+  leaves,
+  holidays,
 }: PlannerClientProps) {
   // Get today's date in local timezone (YYYY-MM-DD format)
   const getTodayLocal = () => {
@@ -85,6 +180,9 @@ export default function PlannerClient({
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [plans, setPlans] = useState<PlanWithDetails[]>(initialPlans);
+  const [unscheduledTasks, setUnscheduledTasks] = useState<UnscheduledTask[]>(
+    initialUnscheduledTasks
+  );
   const [generating, setGenerating] = useState(false);
   const [activeTab, setActiveTab] = useState("date");
   const [needsRecalculation, setNeedsRecalculation] = useState(
@@ -93,16 +191,31 @@ export default function PlannerClient({
   const [showOnlyOverdue, setShowOnlyOverdue] = useState(false);
   // Exclude completed tasks by default - preserves completed plans when regenerating
   const [excludeCompleted, setExcludeCompleted] = useState(true);
+  const [strategy, setStrategy] = useState<OrderingStrategy>(
+    DEFAULT_ORDERING_STRATEGY
+  );
+  const [assignment, setAssignment] = useState<AssignmentMode>(
+    DEFAULT_ASSIGNMENT_MODE
+  );
+  // Search for a plan with less lateness than the single greedy pass
+  const [optimize, setOptimize] = useState(false);
+  // Plan start (empty = today) and optional horizon end, as YYYY-MM-DD
+  const [planStartDate, setPlanStartDate] = useState("");
+  const [horizonEnd, setHorizonEnd] = useState("");
+  // Plan whose progress is being logged
+  const [progressPlan, setProgressPlan] = useState<PlanWithDetails | null>(null);
 
   // Update local state when initial data changes (after refresh)
   useEffect(() => {
     console.log("[PLANNER:FE] useEffect - Initial data updated", {
       planCount: initialPlans.length,
       needsRecalculation: initialRecalculationStatus.needsRecalculation,
+      unscheduledCount: initialUnscheduledTasks.length,
     });
     setPlans(initialPlans);
     setNeedsRecalculation(initialRecalculationStatus.needsRecalculation);
-  }, [initialPlans, initialRecalculationStatus]);
+    setUnscheduledTasks(initialUnscheduledTasks);
+  }, [initialPlans, initialRecalculationStatus, initialUnscheduledTasks]);
 
   // Refresh planner data after mutations
   const refreshPlanner = () => {
@@ -115,6 +228,11 @@ export default function PlannerClient({
   const handleGeneratePlan = async () => {
     console.log("[PLANNER:FE] handleGeneratePlan - Generate plan clicked", {
       excludeCompleted,
+      strategy,
+      assignment,
+      optimize,
+      planStartDate,
+      horizonEnd,
       intent: "generate_plan_clicked",
     });
     setGenerating(true);
@@ -126,6 +244,11 @@ export default function PlannerClient({
         },
         body: JSON.stringify({
           excludeCompleted,
+          strategy,
+          assignment,
+          optimize,
+          startDate: planStartDate || undefined,
+          horizonEnd: horizonEnd || undefined,
         }),
       });
 
@@ -135,8 +258,28 @@ export default function PlannerClient({
         console.log("[PLANNER:FE] handleGeneratePlan - Plan generated successfully", {
           planCount: data.plan?.length || 0,
           excludeCompleted,
+          optimization: data.optimization,
+          unscheduledCount: data.unscheduled?.length || 0,
         });
-        toast.success("Plan generated successfully!");
+        setUnscheduledTasks(data.unscheduled || []);
+        if (data.unscheduled?.length > 0) {
+          toast.warning(
+            `${data.unscheduled.length} ${
+              data.unscheduled.length === 1 ? "task" : "tasks"
+            } could not be scheduled`,
+            { description: "See the Unscheduled panel for the reasons" }
+          );
+        }
+        if (data.optimization) {
+          toast.success(
+            `Plan optimised: weighted lateness ${data.optimization.baselineLateness} → ${data.optimization.optimizedLateness} days`,
+            {
+              description: `Greedy plan vs. best of ${data.optimization.iterations} alternatives`,
+            }
+          );
+        } else {
+          toast.success("Plan generated successfully!");
+        }
         // Refresh plans after generation
         refreshPlanner();
       } else {
@@ -313,6 +456,107 @@ export default function PlannerClient({
     }
   };
 
+  // Move a plan dragged on the timeline to another employee or start date
+  const handleMovePlan = async (
+    plan: PlanWithDetails,
+    employeeId: number,
+    startDate: string
+  ) => {
+    console.log("[PLANNER:FE] handleMovePlan - Plan dropped", {
+      planId: plan.id,
+      taskTitle: plan.task_title,
+      fromEmployeeId: plan.employee_id,
+      toEmployeeId: employeeId,
+      fromStartDate: plan.start_date,
+      toStartDate: startDate,
+      intent: "move_plan_dropped",
+    });
+
+    try {
+      const result = await movePlan(plan.id, employeeId, startDate);
+
+      if (!result.success) {
+        console.error("[PLANNER:FE] handleMovePlan - Server action failed", {
+          planId: plan.id,
+          error: result.error,
+        });
+        toast.error(result.error || "Failed to move plan");
+      } else {
+        toast.success(`"${plan.task_title}" moved and locked`);
+        refreshPlanner();
+      }
+    } catch (error) {
+      console.error("[PLANNER:FE] handleMovePlan - Unexpected error", {
+        planId: plan.id,
+        error,
+      });
+      toast.error("Failed to move plan");
+    }
+  };
+
+  // Lock or unlock a plan against regeneration
+  const changeLock = async (plan: PlanWithDetails, lockType: PlanLockType | null) => {
+    console.log("[PLANNER:FE] changeLock - Lock changed", {
+      planId: plan.id,
+      taskTitle: plan.task_title,
+      lockType,
+      intent: "change_lock_clicked",
+    });
+
+    try {
+      const result = await setPlanLock(plan.id, lockType);
+
+      if (!result.success) {
+        console.error("[PLANNER:FE] changeLock - Server action failed", {
+          planId: plan.id,
+          error: result.error,
+        });
+        toast.error(result.error || "Failed to update lock");
+      } else {
+        toast.success(lockType ? "Plan locked" : "Plan unlocked");
+        refreshPlanner();
+      }
+    } catch (error) {
+      console.error("[PLANNER:FE] changeLock - Unexpected error", {
+        planId: plan.id,
+        error,
+      });
+      toast.error("Failed to update lock");
+    }
+  };
+
+  // Log the hours spent on a plan so far
+  const saveProgress = async (plan: PlanWithDetails, hoursSpent: number) => {
+    console.log("[PLANNER:FE] saveProgress - Progress logged", {
+      planId: plan.id,
+      taskTitle: plan.task_title,
+      hoursSpent,
+      intent: "log_progress_clicked",
+    });
+
+    try {
+      const result = await logPlanProgress(plan.id, hoursSpent);
+
+      if (!result.success) {
+        console.error("[PLANNER:FE] saveProgress - Server action failed", {
+          planId: plan.id,
+          error: result.error,
+        });
+        toast.error(result.error || "Failed to log progress");
+      } else {
+        toast.success(`Progress logged on "${plan.task_title}"`);
+        setProgressPlan(null);
+        refreshPlanner();
+      }
+    } catch (error) {
+      console.error("[PLANNER:FE] saveProgress - Unexpected error", {
+        planId: plan.id,
+        error,
+      });
+      toast.error("Failed to log progress");
+    }
+  };
+
   // Check if task can be marked as completed
   const canMarkCompleted = (plan: PlanWithDetails): boolean => {
     if (plan.is_completed) return false;
@@ -325,6 +569,187 @@ export default function PlannerClient({
     return startDate <= today;
   };
 
+  // Lock menu; the icon shows whether and what the plan pins on regeneration
+  const renderLockMenu = (plan: PlanWithDetails) => (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8"
+          title={
+            plan.lock_type
+              ? `Locked: ${LOCK_OPTIONS.find((o) => o.value === plan.lock_type)?.label}`
+              : "Not locked"
+          }
+        >
+          {plan.lock_type ? (
+            <Lock className="h-4 w-4 text-amber-600" />
+          ) : (
+            <Unlock className="h-4 w-4 text-muted-foreground" />
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Keep on regeneration</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={plan.lock_type ?? "none"}
+          onValueChange={(value) =>
+            changeLock(plan, value === "none" ? null : (value as PlanLockType))
+          }
+        >
+          <DropdownMenuRadioItem value="none">Nothing (unlocked)</DropdownMenuRadioItem>
+          <DropdownMenuSeparator />
+          {LOCK_OPTIONS.map((option) => (
+            <DropdownMenuRadioItem key={option.value} value={option.value}>
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  // Mark Completed button; disabled with a hint before the start date
+  const renderCompletionAction = (plan: PlanWithDetails) =>
+    canMarkCompleted(plan) ? (
+      <Button
+        size="sm"
+        onClick={() => markCompleted(plan.id)}
+        variant="outline"
+      >
+        Mark Completed
+      </Button>
+    ) : plan.is_completed ? (
+      <span className="text-sm text-muted-foreground">
+        Completed
+      </span>
+    ) : (
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span>
+              <Button size="sm" disabled variant="ghost">
+                Mark Completed
+              </Button>
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Cannot complete before start date</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    );
+
+  // Table row for one plan; sub-assignments show their role or share
+  const renderPlanRow = (
+    plan: PlanWithDetails,
+    showClient: boolean,
+    subAssignmentLabel?: string
+  ) => (
+    <TableRow key={plan.id}>
+      <TableCell className="font-medium">
+        {subAssignmentLabel ? (
+          <span className="pl-4 text-muted-foreground">↳ {subAssignmentLabel}</span>
+        ) : (
+          plan.task_title
+        )}
+      </TableCell>
+      <TableCell>
+        {plan.employee_name}
+        {reassignmentReasons.has(plan.id) && (
+          <Badge
+            variant="destructive"
+            className="ml-2"
+            title={reassignmentReasons.get(plan.id)}
+          >
+            Reassign
+          </Badge>
+        )}
+      </TableCell>
+      {showClient && (
+        <TableCell>
+          <Badge variant="outline">{plan.task_client}</Badge>
+        </TableCell>
+      )}
+      <TableCell>{formatDate(plan.start_date)}</TableCell>
+      <TableCell>{formatDate(plan.end_date)}</TableCell>
+      <TableCell>{getCompletionStatusBadge(plan)}</TableCell>
+      <TableCell>{getStatusBadge(plan)}</TableCell>
+      <TableCell>
+        {plan.hours_spent ? (
+          <span title={`${plan.hours_spent}h spent of ${plan.total_hours}h`}>
+            {plan.hours_spent}/{plan.total_hours}
+          </span>
+        ) : (
+          plan.total_hours
+        )}
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center gap-1">
+          {renderCompletionAction(plan)}
+          {canMarkCompleted(plan) && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-8 px-2"
+              onClick={() => setProgressPlan(plan)}
+            >
+              Log
+            </Button>
+          )}
+          {!plan.is_completed && renderLockMenu(plan)}
+          <PlanExplanationPopover explanation={plan.explanation} />
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+
+  // Table rows for a list of plans: a multi-role or split task gets one row
+  // with its combined dates and hours, followed by a row per sub-assignment
+  const renderPlanRows = (plans: PlanWithDetails[], showClient: boolean) =>
+    groupDeliverables(plans).flatMap(({ key, plans: group }) => {
+      if (group.length === 1 && !group[0].role) {
+        return [renderPlanRow(group[0], showClient)];
+      }
+
+      const deliverable = combineDeliverable(group);
+      const roles = [...new Set(group.map((p) => p.role).filter(Boolean))];
+      return [
+        <TableRow key={key} className="bg-muted/30">
+          <TableCell className="font-medium">
+            {deliverable.task_title}
+            <span className="ml-2 text-xs font-normal text-muted-foreground">
+              {roles.length > 0
+                ? roles.join(" → ")
+                : `split across ${group.length}`}
+            </span>
+          </TableCell>
+          <TableCell className="text-muted-foreground">
+            {group.length} assignment{group.length !== 1 ? "s" : ""}
+          </TableCell>
+          {showClient && (
+            <TableCell>
+              <Badge variant="outline">{deliverable.task_client}</Badge>
+            </TableCell>
+          )}
+          <TableCell>{formatDate(deliverable.start_date)}</TableCell>
+          <TableCell>{formatDate(deliverable.end_date)}</TableCell>
+          <TableCell>{getCompletionStatusBadge(deliverable)}</TableCell>
+          <TableCell>{getStatusBadge(deliverable)}</TableCell>
+          <TableCell>{deliverable.total_hours}</TableCell>
+          <TableCell />
+        </TableRow>,
+        ...group.map((plan, index) =>
+          renderPlanRow(
+            plan,
+            showClient,
+            plan.role ?? `Part ${index + 1} of ${group.length}`
+          )
+        ),
+      ];
+    });
+
   // Separate completed and active plans
   const { activePlans, completedPlans } = useMemo(() => {
     const active = plans.filter((plan) => !plan.is_completed);
@@ -332,6 +757,17 @@ export default function PlannerClient({
     return { activePlans: active, completedPlans: completed };
   }, [plans]);
 
+  // Open plans whose employee is inactive or not employed for the whole plan
+  const reassignmentReasons = useMemo(() => {
+    const reasons = new Map<number, string>();
+    activePlans.forEach((plan) => {
+      const employee = employees.find((emp) => emp.id === plan.employee_id);
+      const reason = employee ? getReassignmentReason(employee, plan) : null;
+      if (reason) reasons.set(plan.id, reason);
+    });
+    return reasons;
+  }, [activePlans, employees]);
+
   // Filter active plans based on overdue filter
   const filteredPlans = useMemo(() => {
     let filtered = activePlans;
@@ -423,9 +859,16 @@ export default function PlannerClient({
     // This ensures tasks that span multiple sprints are grouped in the sprint where they end
     const groups: Record<string, PlanWithDetails[]> = {};
 
+    // Multi-role and split tasks stay together, in the sprint where they end
+    const deliverableEndDates = new Map<number, string>();
+    groupDeliverables(filteredPlans).forEach(({ plans: group }) => {
+      const { end_date } = combineDeliverable(group);
+      group.forEach((plan) => deliverableEndDates.set(plan.id, end_date));
+    });
+
     filteredPlans.forEach((plan) => {
       // Use end_date to determine which sprint the task belongs to
-      const planEndDate = new Date(plan.end_date);
+      const planEndDate = new Date(deliverableEndDates.get(plan.id) ?? plan.end_date);
       const year = planEndDate.getFullYear();
       const month = planEndDate.getMonth();
       const day = planEndDate.getDate();
@@ -511,52 +954,7 @@ export default function PlannerClient({
           </TableRow>
         </TableHeader>
         <TableBody>
-          {sortedPlans.map((plan) => (
-            <TableRow key={plan.id}>
-              <TableCell className="font-medium">
-                {plan.task_title}
-              </TableCell>
-              <TableCell>{plan.employee_name}</TableCell>
-              <TableCell>
-                <Badge variant="outline">{plan.task_client}</Badge>
-              </TableCell>
-              <TableCell>{formatDate(plan.start_date)}</TableCell>
-              <TableCell>{formatDate(plan.end_date)}</TableCell>
-              <TableCell>{getCompletionStatusBadge(plan)}</TableCell>
-              <TableCell>{getStatusBadge(plan)}</TableCell>
-              <TableCell>{plan.total_hours}</TableCell>
-              <TableCell>
-                {canMarkCompleted(plan) ? (
-                  <Button
-                    size="sm"
-                    onClick={() => markCompleted(plan.id)}
-                    variant="outline"
-                  >
-                    Mark Completed
-                  </Button>
-                ) : plan.is_completed ? (
-                  <span className="text-sm text-muted-foreground">
-                    Completed
-                  </span>
-                ) : (
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <span>
-                          <Button size="sm" disabled variant="ghost">
-                            Mark Completed
-                          </Button>
-                        </span>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>Cannot complete before start date</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                )}
-              </TableCell>
-            </TableRow>
-          ))}
+          {renderPlanRows(sortedPlans, true)}
         </TableBody>
       </Table>
     );
@@ -580,7 +978,7 @@ export default function PlannerClient({
               <div className="flex items-center justify-between">
                 <CardTitle className="text-lg">
                   <Badge variant="secondary" className="mr-2">
-                    {group.plans.length}
+                    {groupDeliverables(group.plans).length}
                   </Badge>
                   {group.client}
                   {(() => {
@@ -618,49 +1016,7 @@ export default function PlannerClient({
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {group.plans.map((plan) => (
-                    <TableRow key={plan.id}>
-                      <TableCell className="font-medium">
-                        {plan.task_title}
-                      </TableCell>
-                      <TableCell>{plan.employee_name}</TableCell>
-                      <TableCell>{formatDate(plan.start_date)}</TableCell>
-                      <TableCell>{formatDate(plan.end_date)}</TableCell>
-                      <TableCell>{getCompletionStatusBadge(plan)}</TableCell>
-                      <TableCell>{getStatusBadge(plan)}</TableCell>
-                      <TableCell>{plan.total_hours}</TableCell>
-                      <TableCell>
-                        {canMarkCompleted(plan) ? (
-                          <Button
-                            size="sm"
-                            onClick={() => markCompleted(plan.id)}
-                            variant="outline"
-                          >
-                            Mark Completed
-                          </Button>
-                        ) : plan.is_completed ? (
-                          <span className="text-sm text-muted-foreground">
-                            Completed
-                          </span>
-                        ) : (
-                          <TooltipProvider>
-                            <Tooltip>
-                              <TooltipTrigger asChild>
-                                <span>
-                                  <Button size="sm" disabled variant="ghost">
-                                    Mark Completed
-                                  </Button>
-                                </span>
-                              </TooltipTrigger>
-                              <TooltipContent>
-                                <p>Cannot complete before start date</p>
-                              </TooltipContent>
-                            </Tooltip>
-                          </TooltipProvider>
-                        )}
-                      </TableCell>
-                    </TableRow>
-                  ))}
+                  {renderPlanRows(group.plans, false)}
                 </TableBody>
               </Table>
             </CardContent>
@@ -695,7 +1051,8 @@ export default function PlannerClient({
                   </span>
                 </CardTitle>
                 <Badge variant="secondary">
-                  {sprint.plans.length} task{sprint.plans.length !== 1 ? "s" : ""}
+                  {groupDeliverables(sprint.plans).length} task
+                  {groupDeliverables(sprint.plans).length !== 1 ? "s" : ""}
                 </Badge>
               </div>
             </CardHeader>
@@ -715,52 +1072,7 @@ export default function PlannerClient({
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {sprint.plans.map((plan) => (
-                    <TableRow key={plan.id}>
-                      <TableCell className="font-medium">
-                        {plan.task_title}
-                      </TableCell>
-                      <TableCell>{plan.employee_name}</TableCell>
-                      <TableCell>
-                        <Badge variant="outline">{plan.task_client}</Badge>
-                      </TableCell>
-                      <TableCell>{formatDate(plan.start_date)}</TableCell>
-                      <TableCell>{formatDate(plan.end_date)}</TableCell>
-                      <TableCell>{getCompletionStatusBadge(plan)}</TableCell>
-                      <TableCell>{getStatusBadge(plan)}</TableCell>
-                      <TableCell>{plan.total_hours}</TableCell>
-                      <TableCell>
-                        {canMarkCompleted(plan) ? (
-                          <Button
-                            size="sm"
-                            onClick={() => markCompleted(plan.id)}
-                            variant="outline"
-                          >
-                            Mark Completed
-                          </Button>
-                        ) : plan.is_completed ? (
-                          <span className="text-sm text-muted-foreground">
-                            Completed
-                          </span>
-                        ) : (
-                          <TooltipProvider>
-                            <Tooltip>
-                              <TooltipTrigger asChild>
-                                <span>
-                                  <Button size="sm" disabled variant="ghost">
-                                    Mark Completed
-                                  </Button>
-                                </span>
-                              </TooltipTrigger>
-                              <TooltipContent>
-                                <p>Cannot complete before start date</p>
-                              </TooltipContent>
-                            </Tooltip>
-                          </TooltipProvider>
-                        )}
-                      </TableCell>
-                    </TableRow>
-                  ))}
+                  {renderPlanRows(sprint.plans, true)}
                 </TableBody>
               </Table>
             </CardContent>
@@ -789,6 +1101,21 @@ export default function PlannerClient({
           </AlertDescription>
         </Alert>
       )}
+      <UnscheduledTasksPanel tasks={unscheduledTasks} className="mb-4" />
+      {reassignmentReasons.size > 0 && (
+        <Alert variant="warning" className="mb-4">
+          <UserX className="h-4 w-4" />
+          <AlertTitle>Reassignment Needed</AlertTitle>
+          <AlertDescription>
+            {reassignmentReasons.size} open{" "}
+            {reassignmentReasons.size === 1 ? "plan is" : "plans are"} assigned
+            to employees who are inactive or not employed for the whole plan
+            (marked Reassign). Regenerate the plan to hand them to someone
+            else, or move them on the Timeline tab; plans locked on both
+            assignee and dates stay until unlocked.
+          </AlertDescription>
+        </Alert>
+      )}
       <Card>
         <CardHeader>
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
@@ -810,6 +1137,62 @@ export default function PlannerClient({
                   Exclude completed tasks
                 </Label>
               </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="optimize"
+                  checked={optimize}
+                  onCheckedChange={(checked) => setOptimize(checked === true)}
+                />
+                <Label
+                  htmlFor="optimize"
+                  className="text-sm font-medium leading-none cursor-pointer"
+                  title="Try other task orders and assignees for a few seconds to reduce priority-weighted days overdue"
+                >
+                  Minimise lateness
+                </Label>
+              </div>
+              <Select
+                value={strategy}
+                onValueChange={(value: OrderingStrategy) => setStrategy(value)}
+              >
+                <SelectTrigger
+                  className="w-full sm:w-[230px]"
+                  title={
+                    ORDERING_STRATEGIES.find((s) => s.value === strategy)
+                      ?.description
+                  }
+                >
+                  <SelectValue placeholder="Ordering strategy" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ORDERING_STRATEGIES.map((s) => (
+                    <SelectItem key={s.value} value={s.value}>
+                      {s.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={assignment}
+                onValueChange={(value: AssignmentMode) => setAssignment(value)}
+              >
+                <SelectTrigger
+                  className="w-full sm:w-[170px]"
+                  title={
+                    ASSIGNMENT_MODES.find((m) => m.value === assignment)
+                      ?.description
+                  }
+                >
+                  <SelectValue placeholder="Assignment mode" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ASSIGNMENT_MODES.map((m) => (
+                    <SelectItem key={m.value} value={m.value}>
+                      {m.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button
                 onClick={handleGeneratePlan}
                 disabled={generating || isPending}
@@ -819,6 +1202,31 @@ export default function PlannerClient({
               </Button>
             </div>
           </div>
+          <div className="flex flex-wrap items-center justify-end gap-3 pt-2">
+            <Label htmlFor="planStartDate" className="text-sm font-medium">
+              Plan from
+            </Label>
+            <Input
+              id="planStartDate"
+              type="date"
+              value={planStartDate}
+              onChange={(e) => setPlanStartDate(e.target.value)}
+              className="w-[160px]"
+              title="First day the plan may use; empty plans from today"
+            />
+            <Label htmlFor="horizonEnd" className="text-sm font-medium">
+              Horizon
+            </Label>
+            <Input
+              id="horizonEnd"
+              type="date"
+              value={horizonEnd}
+              min={planStartDate || undefined}
+              onChange={(e) => setHorizonEnd(e.target.value)}
+              className="w-[160px]"
+              title="Optional last day of the plan; tasks finishing later are listed as unscheduled"
+            />
+          </div>
         </CardHeader>
         <CardContent>
           {isPending ? (
@@ -854,10 +1262,12 @@ export default function PlannerClient({
                 onValueChange={setActiveTab}
                 className="w-full"
               >
-                <TabsList className="grid w-full grid-cols-3">
+                <TabsList className="grid w-full grid-cols-5">
                   <TabsTrigger value="date">Date-wise</TabsTrigger>
                   <TabsTrigger value="client">Client-wise</TabsTrigger>
                   <TabsTrigger value="sprint">Sprint-wise</TabsTrigger>
+                  <TabsTrigger value="timeline">Timeline</TabsTrigger>
+                  <TabsTrigger value="utilisation">Utilisation</TabsTrigger>
                 </TabsList>
                 <TabsContent value="date" className="mt-6">
                   <DateWiseView />
@@ -868,6 +1278,23 @@ export default function PlannerClient({
                 <TabsContent value="sprint" className="mt-6">
                   <SprintWiseView />
                 </TabsContent>
+                <TabsContent value="timeline" className="mt-6">
+                  <GanttView
+                    plans={activePlans}
+                    employees={employees}
+                    leaves={leaves}
+                    holidays={holidays}
+                    onMovePlan={handleMovePlan}
+                  />
+                </TabsContent>
+                <TabsContent value="utilisation" className="mt-6">
+                  <UtilisationView
+                    plans={activePlans}
+                    employees={employees}
+                    leaves={leaves}
+                    holidays={holidays}
+                  />
+                </TabsContent>
               </Tabs>
             </div>
           )}
@@ -908,6 +1335,11 @@ export default function PlannerClient({
                     <TableRow key={plan.id}>
                       <TableCell className="font-medium">
                         {plan.task_title}
+                        {plan.role && (
+                          <Badge variant="secondary" className="ml-2">
+                            {plan.role}
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell>{plan.employee_name}</TableCell>
                       <TableCell>
@@ -925,6 +1357,12 @@ export default function PlannerClient({
           </CardContent>
         </Card>
       )}
+
+      <LogProgressDialog
+        plan={progressPlan}
+        onClose={() => setProgressPlan(null)}
+        onSave={saveProgress}
+      />
     </div>
   );
 }
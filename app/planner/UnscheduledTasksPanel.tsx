@@ -0,0 +1,51 @@
+"use client";
+
+/**
+ * "Unscheduled" panel listing the tasks the planner left out and why
+ */
+
+import { CalendarX } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import type { UnscheduledTask } from "@/lib/planningEngine";
+import { UNSCHEDULED_REASONS } from "@/lib/planner/scheduler";
+
+type UnscheduledTasksPanelProps = {
+  tasks: UnscheduledTask[];
+  className?: string;
+};
+
+export function UnscheduledTasksPanel({
+  tasks,
+  className,
+}: UnscheduledTasksPanelProps) {
+  if (tasks.length === 0) return null;
+
+  return (
+    <Alert variant="warning" className={className}>
+      <CalendarX className="h-4 w-4" />
+      <AlertTitle>
+        Unscheduled ({tasks.length} {tasks.length === 1 ? "task" : "tasks"})
+      </AlertTitle>
+      <AlertDescription>
+        <p>These tasks were left out of the plan:</p>
+        <ul className="w-full space-y-1">
+          {tasks.map((task) => (
+            <li
+              key={`${task.task_id}-${task.role ?? ""}`}
+              className="flex flex-wrap items-center gap-2"
+            >
+              <span className="font-medium text-foreground">{task.title}</span>
+              {task.role && (
+                <Badge variant="secondary" className="text-xs">
+                  {task.role}
+                </Badge>
+              )}
+              <span>{UNSCHEDULED_REASONS[task.reason]}</span>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
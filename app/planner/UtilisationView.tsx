@@ -0,0 +1,243 @@
+"use client";
+
+/**
+ * Per-employee, per-day utilisation grid for the planner
+ *
+ * Booked hours come from each plan's daily allocations; capacity comes from
+ * the employee's working hours, less any full-day, half-day or hourly leave
+ * and any holiday on the employee's calendar.
+ */
+
+import { useMemo, useState } from "react";
+import { addDays, startOfWeek } from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { Employee, Holiday } from "@/types/database";
+import type { LeaveWithEmployee } from "@/lib/leaves/server";
+import type { PlanWithDetails } from "@/lib/planner/server";
+import {
+  getCapacityAfterLeave,
+  getDailyCapacity,
+  getWorkDays,
+  isEmployedOn,
+  isWorkDay,
+} from "@/lib/planner/scheduler";
+import { formatDateLocal } from "@/lib/utils";
+
+type UtilisationViewProps = {
+  plans: PlanWithDetails[];
+  employees: Employee[];
+  leaves: LeaveWithEmployee[];
+  holidays: Holiday[];
+};
+
+// Two weeks are shown at a time
+const WEEKS_SHOWN = 2;
+
+const getUtilisationClass = (used: number, capacity: number) => {
+  if (used > capacity) {
+    return "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400";
+  }
+  if (used === capacity) {
+    return "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400";
+  }
+  if (used > 0) {
+    return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400";
+  }
+  return "text-muted-foreground";
+};
+
+export function UtilisationView({
+  plans,
+  employees,
+  leaves,
+  holidays,
+}: UtilisationViewProps) {
+  const [weekStart, setWeekStart] = useState(() =>
+    startOfWeek(new Date(), { weekStartsOn: 1 })
+  );
+
+  // Days of each week shown that at least one employee works
+  const days = useMemo(() => {
+    const workWeeks = employees.map((emp) => getWorkDays(emp));
+    const result: Date[] = [];
+    for (let offset = 0; offset < WEEKS_SHOWN * 7; offset++) {
+      const day = addDays(weekStart, offset);
+      if (workWeeks.some((workDays) => isWorkDay(workDays, day))) {
+        result.push(day);
+      }
+    }
+    return result;
+  }, [weekStart, employees]);
+
+  // Booked hours keyed by employee and date
+  const usedHours = useMemo(() => {
+    const map = new Map<string, number>();
+    plans.forEach((plan) => {
+      plan.daily_allocations?.forEach((allocation) => {
+        const key = `${plan.employee_id}|${allocation.date}`;
+        map.set(key, (map.get(key) || 0) + allocation.hours);
+      });
+    });
+    return map;
+  }, [plans]);
+
+  const leavesByDay = useMemo(() => {
+    const map = new Map<string, LeaveWithEmployee[]>();
+    leaves.forEach((leave) => {
+      const key = `${leave.employee_id}|${leave.leave_date}`;
+      map.set(key, [...(map.get(key) || []), leave]);
+    });
+    return map;
+  }, [leaves]);
+
+  // Holiday names keyed by calendar and date
+  const holidayNames = useMemo(() => {
+    const map = new Map<string, string>();
+    holidays.forEach((holiday) => {
+      map.set(`${holiday.calendar_id}|${holiday.holiday_date}`, holiday.name);
+    });
+    return map;
+  }, [holidays]);
+
+  const hasAllocations = plans.some(
+    (plan) => plan.daily_allocations && plan.daily_allocations.length > 0
+  );
+  const visibleEmployees = employees.filter(
+    (emp) =>
+      emp.active || plans.some((plan) => plan.employee_id === emp.id)
+  );
+
+  if (!hasAllocations) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No daily allocations yet. Regenerate the plan to see utilisation.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setWeekStart(addDays(weekStart, -7 * WEEKS_SHOWN))}
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Previous
+        </Button>
+        <span className="text-sm font-medium">
+          {weekStart.toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+          {" – "}
+          {addDays(weekStart, WEEKS_SHOWN * 7 - 1).toLocaleDateString("en-US", {
+            month: "short",
+            day: "numeric",
+            year: "numeric",
+          })}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setWeekStart(addDays(weekStart, 7 * WEEKS_SHOWN))}
+        >
+          Next
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Employee</TableHead>
+              {days.map((day) => (
+                <TableHead key={day.toISOString()} className="text-center">
+                  {day.toLocaleDateString("en-US", {
+                    weekday: "short",
+                    day: "numeric",
+                  })}
+                </TableHead>
+              ))}
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleEmployees.map((employee) => {
+              let totalUsed = 0;
+              let totalCapacity = 0;
+
+              const cells = days.map((day) => {
+                const dateStr = formatDateLocal(day);
+                const key = `${employee.id}|${dateStr}`;
+                const dayLeaves = leavesByDay.get(key) || [];
+                const holidayName = employee.holiday_calendar_id
+                  ? holidayNames.get(`${employee.holiday_calendar_id}|${dateStr}`)
+                  : undefined;
+                const capacity =
+                  holidayName || !isEmployedOn(employee, day)
+                    ? 0
+                    : getCapacityAfterLeave(
+                        getDailyCapacity(employee, day),
+                        dayLeaves
+                      );
+                const onLeave = dayLeaves.length > 0 && capacity === 0;
+                const used = usedHours.get(key) || 0;
+                totalUsed += used;
+                totalCapacity += capacity;
+
+                return (
+                  <TableCell key={dateStr} className="text-center p-1">
+                    {holidayName && used === 0 ? (
+                      <span
+                        className="text-xs text-muted-foreground"
+                        title={holidayName}
+                      >
+                        Holiday
+                      </span>
+                    ) : onLeave ? (
+                      <span className="text-xs text-muted-foreground">Leave</span>
+                    ) : capacity === 0 && used === 0 ? (
+                      <span className="text-xs text-muted-foreground">–</span>
+                    ) : (
+                      <span
+                        className={`inline-block rounded px-2 py-1 text-xs font-medium ${getUtilisationClass(
+                          used,
+                          capacity
+                        )}`}
+                        title={`${used}h booked of ${capacity}h${
+                          dayLeaves.length > 0 ? " (partial leave)" : ""
+                        }`}
+                      >
+                        {used}/{capacity}h
+                      </span>
+                    )}
+                  </TableCell>
+                );
+              });
+
+              return (
+                <TableRow key={employee.id}>
+                  <TableCell className="font-medium">{employee.name}</TableCell>
+                  {cells}
+                  <TableCell className="text-right text-sm">
+                    {totalCapacity > 0
+                      ? `${Math.round((totalUsed / totalCapacity) * 100)}%`
+                      : "–"}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
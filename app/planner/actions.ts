@@ -9,6 +9,16 @@
 
 import { revalidatePath } from "next/cache";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
+import {
+  canWorkOn,
+  placeHours,
+  type PlanExplanation,
+  type PlanLockType,
+  type PlanningTask,
+} from "@/lib/planner/scheduler";
+import { recordPlanGeneration } from "@/lib/planningEngine";
+
+const LOCK_TYPES: PlanLockType[] = ["assignee", "dates", "both"];
 
 export type ActionResult<T = void> = {
   success: boolean;
@@ -28,6 +38,14 @@ function getTodayLocal(): string {
   return `${year}-${month}-${day}`;
 }
 
+// Parse YYYY-MM-DD strictly into a local date, or null when invalid
+const parseDate = (value: string): Date | null => {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getDate() === Number(match[3]) ? date : null;
+};
+
 /**
  * Mark a plan as completed
  */
@@ -147,3 +165,441 @@ export async function markPlanCompleted(
     };
   }
 }
+
+/**
+ * Lock a plan against regeneration, or unlock it with null
+ * Locking does not change the current plan, so it does not ask for a
+ * recalculation.
+ */
+export async function setPlanLock(
+  planId: number,
+  lockType: PlanLockType | null
+): Promise<ActionResult> {
+  console.log("[PLANNER:BE] setPlanLock - Called", { planId, lockType });
+  try {
+    if (!planId) {
+      console.log("[PLANNER:BE] setPlanLock - Validation failed: missing planId");
+      return {
+        success: false,
+        error: "plan_id is required",
+      };
+    }
+
+    if (lockType !== null && !LOCK_TYPES.includes(lockType)) {
+      console.log("[PLANNER:BE] setPlanLock - Validation failed: invalid lock type", { lockType });
+      return {
+        success: false,
+        error: "Invalid lock type",
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { error } = await supabase
+      .from("plans")
+      .update({ lock_type: lockType })
+      .eq("id", planId)
+      .eq("is_completed", false);
+
+    if (error) {
+      console.error("[PLANNER:BE] setPlanLock - Supabase error", {
+        planId,
+        error: error.message,
+      });
+      return {
+        success: false,
+        error: error.message || "Failed to update plan lock",
+      };
+    }
+
+    revalidatePath("/planner");
+    console.log("[PLANNER:BE] setPlanLock - Success, revalidated path", {
+      planId,
+      lockType,
+    });
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("[PLANNER:BE] setPlanLock - Unexpected error", {
+      planId,
+      error,
+    });
+    return {
+      success: false,
+      error: "Failed to update plan lock",
+    };
+  }
+}
+
+/**
+ * Log the hours spent on a plan so far
+ * Like locking, this leaves the current plan as it is; regenerating with
+ * "Exclude completed" then plans only the remaining hours.
+ */
+export async function logPlanProgress(
+  planId: number,
+  hoursSpent: number
+): Promise<ActionResult> {
+  console.log("[PLANNER:BE] logPlanProgress - Called", { planId, hoursSpent });
+  try {
+    if (!planId) {
+      console.log("[PLANNER:BE] logPlanProgress - Validation failed: missing planId");
+      return {
+        success: false,
+        error: "plan_id is required",
+      };
+    }
+
+    if (typeof hoursSpent !== "number" || !Number.isFinite(hoursSpent) || hoursSpent < 0) {
+      console.log("[PLANNER:BE] logPlanProgress - Validation failed: invalid hours", {
+        hoursSpent,
+      });
+      return {
+        success: false,
+        error: "Hours spent must be zero or more",
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: plan, error: fetchError } = await supabase
+      .from("plans")
+      .select("total_hours, is_completed")
+      .eq("id", planId)
+      .single();
+
+    if (fetchError || !plan) {
+      console.error("[PLANNER:BE] logPlanProgress - Error fetching plan", {
+        planId,
+        error: fetchError,
+      });
+      return {
+        success: false,
+        error: "Plan not found",
+      };
+    }
+
+    if (plan.is_completed) {
+      console.log("[PLANNER:BE] logPlanProgress - Validation failed: plan completed", { planId });
+      return {
+        success: false,
+        error: "Completed plans cannot be updated",
+      };
+    }
+
+    if (hoursSpent > plan.total_hours) {
+      console.log("[PLANNER:BE] logPlanProgress - Validation failed: more than planned", {
+        planId,
+        hoursSpent,
+        totalHours: plan.total_hours,
+      });
+      return {
+        success: false,
+        error: `Hours spent cannot exceed the plan's ${plan.total_hours}h; mark it completed instead`,
+      };
+    }
+
+    const { error } = await supabase
+      .from("plans")
+      .update({ hours_spent: hoursSpent })
+      .eq("id", planId);
+
+    if (error) {
+      console.error("[PLANNER:BE] logPlanProgress - Supabase error", {
+        planId,
+        error: error.message,
+      });
+      return {
+        success: false,
+        error: error.message || "Failed to log progress",
+      };
+    }
+
+    revalidatePath("/planner");
+    console.log("[PLANNER:BE] logPlanProgress - Success, revalidated path", {
+      planId,
+      hoursSpent,
+    });
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("[PLANNER:BE] logPlanProgress - Unexpected error", {
+      planId,
+      error,
+    });
+    return {
+      success: false,
+      error: "Failed to log progress",
+    };
+  }
+}
+
+/**
+ * Move a plan to another employee and/or start date by hand
+ *
+ * The new assignee must fit the plan's role (or the task's required skills)
+ * and be able to work on the start date. The plan's hours are laid out again
+ * around the employee's leaves, holidays and other bookings, the change is
+ * recorded in plan_versions as a manual generation, and the plan is locked so
+ * regeneration keeps it where it was put.
+ */
+export async function movePlan(
+  planId: number,
+  employeeId: number,
+  startDate: string
+): Promise<ActionResult> {
+  console.log("[PLANNER:BE] movePlan - Called", { planId, employeeId, startDate });
+  try {
+    const start = parseDate(startDate);
+    if (!planId || !employeeId || !start) {
+      console.log("[PLANNER:BE] movePlan - Validation failed: invalid input", {
+        planId,
+        employeeId,
+        startDate,
+      });
+      return {
+        success: false,
+        error: "A plan, an employee and a valid start date are required",
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const [{ data: plan, error: planError }, { data: employee, error: empError }] =
+      await Promise.all([
+        supabase
+          .from("plans")
+          .select("*, task:tasks(title, designation_required, required_skills, due_date)")
+          .eq("id", planId)
+          .single(),
+        supabase
+          .from("employees")
+          .select("*, holiday_calendars(work_days)")
+          .eq("id", employeeId)
+          .single(),
+      ]);
+
+    if (planError || !plan || empError || !employee) {
+      console.error("[PLANNER:BE] movePlan - Error fetching plan or employee", {
+        planId,
+        employeeId,
+        planError,
+        empError,
+      });
+      return {
+        success: false,
+        error: !plan ? "Plan not found" : "Employee not found",
+      };
+    }
+
+    if (plan.is_completed) {
+      console.log("[PLANNER:BE] movePlan - Validation failed: plan completed", { planId });
+      return {
+        success: false,
+        error: "Completed plans cannot be moved",
+      };
+    }
+
+    // The logged hours belong to the assignee and the dates already worked
+    if (plan.hours_spent > 0) {
+      console.log("[PLANNER:BE] movePlan - Validation failed: progress logged", { planId });
+      return {
+        success: false,
+        error: "Plans with logged progress cannot be moved; regenerate to replan the remaining hours",
+      };
+    }
+
+    if (employee.active === false) {
+      console.log("[PLANNER:BE] movePlan - Validation failed: employee inactive", { employeeId });
+      return {
+        success: false,
+        error: `${employee.name} is inactive and cannot be given work`,
+      };
+    }
+
+    // A multi-role plan needs its role; otherwise the task's skills or designation
+    const task = plan.task as Pick<
+      PlanningTask,
+      "title" | "designation_required" | "required_skills" | "due_date"
+    >;
+    const matches =
+      plan.role && plan.role !== task.designation_required
+        ? employee.designation === plan.role
+        : canWorkOn(employee, task);
+    if (!matches) {
+      console.log("[PLANNER:BE] movePlan - Validation failed: designation mismatch", {
+        planId,
+        employeeId,
+        role: plan.role ?? task.designation_required,
+        designation: employee.designation,
+      });
+      return {
+        success: false,
+        error: task.required_skills?.length && !plan.role
+          ? `${employee.name} does not have the skills this task requires`
+          : `This plan needs a ${plan.role ?? task.designation_required}, but ${employee.name} is a ${employee.designation}`,
+      };
+    }
+
+    const [
+      { data: leaves, error: leaveError },
+      { data: holidays, error: holidayError },
+      { data: otherPlans, error: otherError },
+    ] = await Promise.all([
+      supabase.from("leaves").select("*").eq("employee_id", employeeId),
+      employee.holiday_calendar_id
+        ? supabase
+            .from("holidays")
+            .select("calendar_id, holiday_date, name")
+            .eq("calendar_id", employee.holiday_calendar_id)
+        : Promise.resolve({ data: [], error: null }),
+      supabase
+        .from("plans")
+        .select("daily_allocations")
+        .eq("employee_id", employeeId)
+        .eq("is_completed", false)
+        .neq("id", planId),
+    ]);
+
+    if (leaveError || holidayError || otherError) {
+      console.error("[PLANNER:BE] movePlan - Error fetching availability", {
+        leaveError,
+        holidayError,
+        otherError,
+      });
+      return {
+        success: false,
+        error: "Failed to check availability. Please try again.",
+      };
+    }
+
+    const bookedHours = new Map<string, number>();
+    otherPlans?.forEach((other: { daily_allocations: { date: string; hours: number }[] | null }) => {
+      other.daily_allocations?.forEach((allocation) => {
+        bookedHours.set(
+          allocation.date,
+          (bookedHours.get(allocation.date) || 0) + allocation.hours
+        );
+      });
+    });
+
+    // The employee's own work week wins over the one of their holiday calendar
+    const { holiday_calendars, ...employeeData } = employee;
+    const result = placeHours({
+      employee: {
+        ...employeeData,
+        work_days: employee.work_days ?? holiday_calendars?.work_days ?? null,
+      },
+      hours: plan.total_hours,
+      startDate: start,
+      leaves: leaves || [],
+      holidays: holidays || [],
+      bookedHours,
+      dueDate: task.due_date,
+    });
+
+    if ("error" in result) {
+      console.log("[PLANNER:BE] movePlan - Validation failed: cannot place", {
+        planId,
+        employeeId,
+        startDate,
+        error: result.error,
+      });
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+    const { placement } = result;
+
+    // Record the change as its own generation, before the plan is updated
+    const generationId = crypto.randomUUID();
+    const generationTimestamp = new Date().toISOString();
+    await recordPlanGeneration(supabase, generationId, generationTimestamp, 1, {
+      source: "manual",
+    });
+
+    const { error: versionError } = await supabase.from("plan_versions").insert({
+      plan_id: plan.id,
+      task_id: plan.task_id,
+      employee_id: employeeId,
+      employee_name: employee.name,
+      task_title: task.title,
+      old_start_date: plan.start_date,
+      old_end_date: plan.end_date,
+      new_start_date: placement.start_date,
+      new_end_date: placement.end_date,
+      delta_days: Math.floor(
+        (new Date(placement.end_date).getTime() - new Date(plan.end_date).getTime()) /
+          (1000 * 60 * 60 * 24)
+      ),
+      generation_id: generationId,
+      generation_timestamp: generationTimestamp,
+    });
+
+    if (versionError) {
+      console.error("[VERSIONS:BE] movePlan - Error inserting version record", {
+        error: versionError.message,
+        planId,
+        generationId,
+      });
+      // Continue anyway - versioning is not critical
+    }
+
+    const { error } = await supabase
+      .from("plans")
+      .update({
+        employee_id: employeeId,
+        ...placement,
+        lock_type: "both",
+        // The planner's reasoning no longer applies to a hand-placed plan
+        explanation: {
+          match: `Moved by hand to ${employee.name}`,
+          candidates: [],
+          reason: "Placed on the timeline and locked",
+          start: `Dropped on ${startDate}`,
+          skipped_days: [],
+        } satisfies PlanExplanation,
+        last_updated: generationTimestamp,
+      })
+      .eq("id", planId);
+
+    if (error) {
+      console.error("[PLANNER:BE] movePlan - Supabase error", {
+        planId,
+        error: error.message,
+      });
+      return {
+        success: false,
+        error: error.message || "Failed to move plan",
+      };
+    }
+
+    revalidatePath("/planner");
+    revalidatePath("/planner/versions");
+    console.log("[PLANNER:BE] movePlan - Success, revalidated paths", {
+      planId,
+      employeeId,
+      startDate: placement.start_date,
+      endDate: placement.end_date,
+      generationId,
+    });
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("[PLANNER:BE] movePlan - Unexpected error", {
+      planId,
+      error,
+    });
+    return {
+      success: false,
+      error: "Failed to move plan",
+    };
+  }
+}
@@ -1,5 +1,12 @@
 import { Suspense } from "react";
-import { fetchPlans, checkRecalculationNeeded } from "@/lib/planner/server";
+import {
+  fetchPlans,
+  checkRecalculationNeeded,
+  fetchUnscheduledTasks,
+} from "@/lib/planner/server";
+import { fetchEmployees } from "@/lib/employees/server";
+import { fetchLeaves } from "@/lib/leaves/server";
+import { fetchHolidayCalendars, fetchHolidays } from "@/lib/holidays/server";
 import PlannerClient from "./PlannerClient";
 import { TableSkeleton } from "@/components/skeletons/TableSkeleton";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -15,12 +22,34 @@ export const dynamic = 'force-dynamic';
  * is shipped to the browser.
  */
 export default async function PlannerPage() {
-  // Fetch plans and recalculation status in parallel
-  const [plans, recalculationStatus] = await Promise.all([
+  // Fetch plans, recalculation status, unscheduled tasks and capacity data in parallel
+  const [
+    plans,
+    recalculationStatus,
+    unscheduledTasks,
+    employees,
+    leaves,
+    holidays,
+    calendars,
+  ] = await Promise.all([
     fetchPlans(),
     checkRecalculationNeeded(),
+    fetchUnscheduledTasks(),
+    fetchEmployees(),
+    fetchLeaves(),
+    fetchHolidays(),
+    fetchHolidayCalendars(),
   ]);
 
+  // Resolve each work week the way the planner does: own, then calendar
+  const employeesWithWorkWeek = employees.map((emp) => ({
+    ...emp,
+    work_days:
+      emp.work_days ??
+      calendars.find((c) => c.id === emp.holiday_calendar_id)?.work_days ??
+      null,
+  }));
+
   return (
     <Suspense
       fallback={
@@ -45,6 +74,10 @@ export default async function PlannerPage() {
       <PlannerClient
         initialPlans={plans}
         initialRecalculationStatus={recalculationStatus}
+        initialUnscheduledTasks={unscheduledTasks}
+        employees={employeesWithWorkWeek}
+        leaves={leaves}
+        holidays={holidays}
       />
     </Suspense>
   );
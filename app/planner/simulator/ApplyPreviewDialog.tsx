@@ -0,0 +1,124 @@
+"use client";
+
+/**
+ * Dialog previewing what applying a simulation changes in the live plan:
+ * reassignments, date shifts and newly overdue tasks, the same comparison
+ * that is recorded in the version history; nothing is written until confirmed
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { SimulationPreview } from "@/lib/planner/planVersions";
+
+type ApplyPreviewDialogProps = {
+  /** Preview to confirm; the dialog is closed while null */
+  preview: SimulationPreview | null;
+  applying: boolean;
+  onCancel: () => void;
+  onConfirm: () => Promise<void>;
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+
+const formatShift = (days: number) =>
+  days === 0 ? "same end" : `${days > 0 ? "+" : ""}${days} day${Math.abs(days) !== 1 ? "s" : ""}`;
+
+function PreviewSection({
+  title,
+  count,
+  children,
+}: {
+  title: string;
+  count: number;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="space-y-2">
+      <p className="font-semibold text-sm">
+        {title} ({count})
+      </p>
+      {count === 0 ? (
+        <p className="text-sm text-muted-foreground">None.</p>
+      ) : (
+        <ul className="space-y-1 text-sm">{children}</ul>
+      )}
+    </div>
+  );
+}
+
+export function ApplyPreviewDialog({
+  preview,
+  applying,
+  onCancel,
+  onConfirm,
+}: ApplyPreviewDialogProps) {
+  const reassignments = preview?.changes.filter((c) => c.reassigned) ?? [];
+  const dateShifts = preview?.changes.filter((c) => !c.reassigned) ?? [];
+  const newlyOverdue = preview?.newlyOverdue ?? [];
+
+  return (
+    <Dialog open={preview !== null} onOpenChange={(open) => !open && !applying && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Apply Simulation?</DialogTitle>
+          <DialogDescription>
+            The simulated plan replaces the live plan. These changes will be
+            recorded in the version history.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+          <PreviewSection title="Reassigned" count={reassignments.length}>
+            {reassignments.map((change) => (
+              <li key={`${change.plan_id}-${change.employee_id}`}>
+                <span className="font-medium">{change.task_title}</span>:{" "}
+                {change.old_employee_name} → {change.employee_name}, ends{" "}
+                {formatDay(change.old_end_date)} → {formatDay(change.new_end_date)} (
+                {formatShift(change.delta_days)})
+              </li>
+            ))}
+          </PreviewSection>
+          <PreviewSection title="Date shifts" count={dateShifts.length}>
+            {dateShifts.map((change) => (
+              <li key={`${change.plan_id}-${change.employee_id}`}>
+                <span className="font-medium">{change.task_title}</span> (
+                {change.employee_name}): {formatDay(change.old_start_date)} –{" "}
+                {formatDay(change.old_end_date)} → {formatDay(change.new_start_date)} –{" "}
+                {formatDay(change.new_end_date)} ({formatShift(change.delta_days)})
+              </li>
+            ))}
+          </PreviewSection>
+          <PreviewSection title="Newly overdue" count={newlyOverdue.length}>
+            {newlyOverdue.map((task) => (
+              <li key={task.task_id} className="flex items-center gap-2">
+                <span className="font-medium">{task.task_title}</span>
+                <Badge variant="destructive">
+                  Overdue by {task.days_overdue} day{task.days_overdue !== 1 ? "s" : ""}
+                </Badge>
+              </li>
+            ))}
+          </PreviewSection>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={applying}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={applying}>
+            {applying ? "Applying..." : "Apply Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,242 @@
+"use client";
+
+/**
+ * Monte Carlo delivery forecast: plans many times with task efforts sampled
+ * between their optimistic and pessimistic estimates, and shows the P50,
+ * P80 and P95 end dates per client and per task
+ */
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Dices } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/skeletons/TableSkeleton";
+import {
+  DEFAULT_FORECAST_RUNS,
+  MAX_FORECAST_RUNS,
+  type DeliveryForecast as Forecast,
+  type ForecastDates,
+} from "@/lib/planner/forecast";
+import type { SimulationOptions } from "@/lib/planner/scheduler";
+import { runDeliveryForecast } from "./actions";
+
+type DeliveryForecastProps = {
+  /** Options currently set in the simulator form */
+  getOptions: () => SimulationOptions;
+};
+
+const formatDay = (date: string | null) =>
+  date
+    ? new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      })
+    : null;
+
+function DateCell({ date }: { date: string | null }) {
+  return (
+    <TableCell>
+      {formatDay(date) ?? (
+        <span className="text-muted-foreground" title="Not planned in enough runs">
+          —
+        </span>
+      )}
+    </TableCell>
+  );
+}
+
+function PercentileCells({ dates }: { dates: ForecastDates }) {
+  return (
+    <>
+      <DateCell date={dates.p50} />
+      <DateCell date={dates.p80} />
+      <DateCell date={dates.p95} />
+    </>
+  );
+}
+
+export function DeliveryForecast({ getOptions }: DeliveryForecastProps) {
+  const [runs, setRuns] = useState<number>(DEFAULT_FORECAST_RUNS);
+  const [running, setRunning] = useState(false);
+  const [forecast, setForecast] = useState<Forecast | null>(null);
+
+  const handleRun = async () => {
+    if (!Number.isInteger(runs) || runs < 1 || runs > MAX_FORECAST_RUNS) {
+      toast.error(`Please enter from 1 to ${MAX_FORECAST_RUNS} runs`);
+      return;
+    }
+
+    setRunning(true);
+    try {
+      const result = await runDeliveryForecast(getOptions(), runs);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to forecast delivery dates");
+      }
+      setForecast(result.data);
+      toast.success(`Forecast complete: ${result.data.runs} runs`);
+    } catch (error) {
+      console.error("Error forecasting delivery dates:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to forecast delivery dates"
+      );
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Delivery Forecast</CardTitle>
+            <CardDescription>
+              Plans many times with efforts drawn between each task&apos;s best
+              and worst case, using the options above. P80 is the date the work
+              is done by in 80% of the runs, a safer date to quote than the
+              single planned one.
+            </CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="grid gap-1">
+              <Label htmlFor="forecastRuns" className="text-xs">
+                Runs
+              </Label>
+              <Input
+                id="forecastRuns"
+                type="number"
+                min="1"
+                max={MAX_FORECAST_RUNS}
+                className="w-24"
+                value={runs || ""}
+                onChange={(e) => setRuns(parseInt(e.target.value, 10) || 0)}
+              />
+            </div>
+            <Button onClick={handleRun} disabled={running}>
+              <Dices className="mr-2 h-4 w-4" />
+              {running ? "Forecasting..." : "Run Forecast"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {running ? (
+          <TableSkeleton rows={4} columns={5} />
+        ) : !forecast ? (
+          <p className="text-sm text-muted-foreground">
+            Give tasks an optimistic and pessimistic effort on the Tasks page,
+            then run the forecast.
+          </p>
+        ) : (
+          <>
+            {forecast.uncertainTaskCount === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No task has an effort range yet, so every run gives the planned
+                dates.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="text-lg font-semibold">Per Client</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Planned</TableHead>
+                    <TableHead>P50</TableHead>
+                    <TableHead>P80</TableHead>
+                    <TableHead>P95</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {forecast.clients.map((client) => (
+                    <TableRow key={client.client}>
+                      <TableCell className="font-medium">
+                        {client.client}
+                        {client.unscheduled_runs > 0 && (
+                          <Badge variant="outline" className="ml-2">
+                            unplanned in {client.unscheduled_runs} runs
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <DateCell date={client.planned_end} />
+                      <PercentileCells dates={client} />
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-lg font-semibold">Per Task</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Task</TableHead>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead>Planned</TableHead>
+                    <TableHead>P50</TableHead>
+                    <TableHead>P80</TableHead>
+                    <TableHead>P95</TableHead>
+                    <TableHead>On time</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {forecast.tasks.map((task) => (
+                    <TableRow key={task.task_id}>
+                      <TableCell className="font-medium">
+                        {task.title}
+                        {task.unscheduled_runs > 0 && (
+                          <Badge variant="outline" className="ml-2">
+                            unplanned in {task.unscheduled_runs} runs
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{task.client}</Badge>
+                      </TableCell>
+                      <TableCell>{formatDay(task.due_date) ?? "—"}</TableCell>
+                      <DateCell date={task.planned_end} />
+                      <PercentileCells dates={task} />
+                      <TableCell>
+                        {task.on_time_share === null ? (
+                          "—"
+                        ) : (
+                          <Badge
+                            variant={task.on_time_share < 0.8 ? "destructive" : "secondary"}
+                          >
+                            {Math.round(task.on_time_share * 100)}%
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+/**
+ * Side-by-side comparison of saved scenarios and the live plan
+ *
+ * Two to four scenarios are picked; the matrix shows, per plan, the total
+ * days overdue, each client's delivery date, each task's end date and each
+ * employee's booked hours. Rows where the plans disagree are highlighted.
+ */
+
+import { Fragment, useMemo, useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { comparePlans, type ComparisonRow } from "@/lib/planner/scenarioComparison";
+import type { PlanWithDetails } from "@/lib/planner/server";
+import type { Employee, Scenario, Task } from "@/lib/planner/simulator-server";
+
+const MIN_SCENARIOS = 2;
+const MAX_SCENARIOS = 4;
+
+type ScenarioComparisonProps = {
+  scenarios: Scenario[];
+  livePlans: PlanWithDetails[];
+  tasks: Task[];
+  employees: Employee[];
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+export function ScenarioComparison({
+  scenarios,
+  livePlans,
+  tasks,
+  employees,
+}: ScenarioComparisonProps) {
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+
+  const selected = useMemo(
+    () => scenarios.filter((scenario) => selectedIds.includes(scenario.id)),
+    [scenarios, selectedIds]
+  );
+
+  // Names of tasks and employees; plans may name ones the simulator lists no longer
+  const { taskTitles, clientByTask, employeeNames } = useMemo(() => {
+    const titles = new Map<string, string>();
+    const clients = new Map<string, string>();
+    const names = new Map<string, string>();
+    livePlans.forEach((plan) => {
+      titles.set(String(plan.task_id), plan.task_title);
+      clients.set(String(plan.task_id), plan.task_client);
+      names.set(String(plan.employee_id), plan.employee_name);
+    });
+    tasks.forEach((task) => {
+      titles.set(task.id, task.title);
+      clients.set(task.id, task.client);
+    });
+    employees.forEach((emp) => names.set(emp.id, emp.name));
+    // Virtual tasks and employees exist only in their scenario
+    scenarios.forEach(({ options }) => {
+      options.virtualTasks?.forEach((task) => {
+        titles.set(task.id, task.title);
+        clients.set(task.id, task.client);
+      });
+      options.virtualEmployees?.forEach((emp) => names.set(emp.id, emp.name));
+    });
+    return { taskTitles: titles, clientByTask: clients, employeeNames: names };
+  }, [scenarios, livePlans, tasks, employees]);
+
+  const comparison = useMemo(
+    () =>
+      selected.length >= MIN_SCENARIOS
+        ? comparePlans([livePlans, ...selected.map((s) => s.plans)], clientByTask)
+        : null,
+    [selected, livePlans, clientByTask]
+  );
+
+  const toggle = (scenarioId: number, checked: boolean) => {
+    setSelectedIds((ids) =>
+      checked ? [...ids, scenarioId] : ids.filter((id) => id !== scenarioId)
+    );
+  };
+
+  const columnCount = selected.length + 2;
+
+  const renderSection = <T extends string | number>(
+    title: string,
+    rows: ComparisonRow<T>[],
+    getLabel: (id: string) => string,
+    format: (value: T) => string
+  ) => (
+    <Fragment key={title}>
+      <TableRow className="bg-muted/50 hover:bg-muted/50">
+        <TableCell colSpan={columnCount} className="font-semibold">
+          {title}
+        </TableCell>
+      </TableRow>
+      {rows.map((row) => (
+        <TableRow key={`${title}-${row.id}`}>
+          <TableCell className={row.differs ? "font-medium" : ""}>
+            {getLabel(row.id)}
+          </TableCell>
+          {row.values.map((value, index) => (
+            <TableCell
+              key={index}
+              className={
+                row.differs ? "bg-amber-50 dark:bg-amber-900/10" : undefined
+              }
+            >
+              {value === null ? (
+                <span className="text-muted-foreground">—</span>
+              ) : (
+                format(value)
+              )}
+            </TableCell>
+          ))}
+        </TableRow>
+      ))}
+    </Fragment>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Compare Scenarios</CardTitle>
+        <CardDescription>
+          Pick {MIN_SCENARIOS} to {MAX_SCENARIOS} saved scenarios to compare
+          their saved results with the live plan. Highlighted rows are where
+          the plans disagree; a dash means the plan leaves that task out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {scenarios.length < MIN_SCENARIOS ? (
+          <p className="text-sm text-muted-foreground">
+            Save at least {MIN_SCENARIOS} scenarios to compare them.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-4">
+            {scenarios.map((scenario) => {
+              const checked = selectedIds.includes(scenario.id);
+              return (
+                <div key={scenario.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`compare-${scenario.id}`}
+                    checked={checked}
+                    disabled={!checked && selectedIds.length >= MAX_SCENARIOS}
+                    onCheckedChange={(value) => toggle(scenario.id, value === true)}
+                  />
+                  <Label htmlFor={`compare-${scenario.id}`} className="cursor-pointer">
+                    {scenario.name}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {comparison && (
+          <div className="overflow-x-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Measure</TableHead>
+                  <TableHead>Live plan</TableHead>
+                  {selected.map((scenario) => (
+                    <TableHead key={scenario.id}>{scenario.name}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {renderSection(
+                  "Overdue",
+                  [comparison.totalDaysOverdue],
+                  () => "Total days overdue",
+                  (days) => String(days)
+                )}
+                {renderSection(
+                  "Delivery per client",
+                  comparison.clientDelivery,
+                  (client) => client,
+                  formatDay
+                )}
+                {renderSection(
+                  "End date per task",
+                  comparison.taskEnd,
+                  (taskId) => taskTitles.get(taskId) ?? "Unknown task",
+                  formatDay
+                )}
+                {renderSection(
+                  "Hours per employee",
+                  comparison.employeeHours,
+                  (employeeId) => employeeNames.get(employeeId) ?? "Unknown employee",
+                  (hours) => `${Math.round(hours * 10) / 10}h`
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
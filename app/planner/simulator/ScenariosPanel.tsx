@@ -0,0 +1,276 @@
+"use client";
+
+/**
+ * Saved scenarios of the simulator: save the current one, and load, re-run,
+ * duplicate or delete saved ones
+ */
+
+import { useState } from "react";
+import { Copy, FolderOpen, RefreshCw, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import type { Scenario } from "@/lib/planner/simulator-server";
+
+export type ScenarioDetails = Pick<Scenario, "name" | "description" | "author">;
+
+type ScenariosPanelProps = {
+  scenarios: Scenario[];
+  /** Scenario the simulator was last loaded from or saved as */
+  loadedScenario: Scenario | null;
+  /** Whether there are simulation results to save */
+  canSave: boolean;
+  /** Save as a new scenario, or over the loaded one when overwrite is set */
+  onSave: (details: ScenarioDetails, overwrite: boolean) => Promise<boolean>;
+  onLoad: (scenario: Scenario, rerun: boolean) => void;
+  onDuplicate: (scenario: Scenario) => Promise<void>;
+  onDelete: (scenario: Scenario) => Promise<void>;
+};
+
+const formatSavedAt = (timestamp: string) =>
+  new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export function ScenariosPanel({
+  scenarios,
+  loadedScenario,
+  canSave,
+  onSave,
+  onLoad,
+  onDuplicate,
+  onDelete,
+}: ScenariosPanelProps) {
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [author, setAuthor] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  // Start from the loaded scenario's details, so saving over it is one click
+  const openSaveDialog = () => {
+    setName(loadedScenario?.name ?? "");
+    setDescription(loadedScenario?.description ?? "");
+    setAuthor(loadedScenario?.author ?? "");
+    setSaveDialogOpen(true);
+  };
+
+  const handleSave = async (overwrite: boolean) => {
+    setSaving(true);
+    try {
+      const saved = await onSave(
+        {
+          name,
+          description: description || null,
+          author: author || null,
+        },
+        overwrite
+      );
+      if (saved) setSaveDialogOpen(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runBusy = async (scenario: Scenario, action: () => Promise<void>) => {
+    setBusyId(scenario.id);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Saved Scenarios</CardTitle>
+            <CardDescription>
+              Save the options and results of a simulation to share it or come
+              back to it. Re-run a scenario to see what changed since it was
+              saved.
+            </CardDescription>
+          </div>
+          <Button onClick={openSaveDialog} disabled={!canSave}>
+            <Save className="mr-2 h-4 w-4" />
+            Save Scenario
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {scenarios.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No saved scenarios yet. Run a simulation and save it.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Author</TableHead>
+                <TableHead>Saved</TableHead>
+                <TableHead>Plans</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {scenarios.map((scenario) => (
+                <TableRow key={scenario.id}>
+                  <TableCell>
+                    <div className="font-medium">
+                      {scenario.name}
+                      {loadedScenario?.id === scenario.id && (
+                        <Badge variant="secondary" className="ml-2">
+                          loaded
+                        </Badge>
+                      )}
+                    </div>
+                    {scenario.description && (
+                      <div className="text-xs text-muted-foreground">
+                        {scenario.description}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{scenario.author || "—"}</TableCell>
+                  <TableCell>{formatSavedAt(scenario.last_updated)}</TableCell>
+                  <TableCell>{scenario.plans.length}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Load the options and saved results"
+                        onClick={() => onLoad(scenario, false)}
+                      >
+                        <FolderOpen className="mr-1 h-4 w-4" />
+                        Load
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Run again on today's data and show what changed"
+                        onClick={() => onLoad(scenario, true)}
+                      >
+                        <RefreshCw className="mr-1 h-4 w-4" />
+                        Re-run
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        title="Duplicate"
+                        disabled={busyId === scenario.id}
+                        onClick={() => runBusy(scenario, () => onDuplicate(scenario))}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 text-destructive"
+                        title="Delete"
+                        disabled={busyId === scenario.id}
+                        onClick={() => runBusy(scenario, () => onDelete(scenario))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Scenario</DialogTitle>
+            <DialogDescription>
+              The options and the simulated plans are saved together.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="scenarioName">Name</Label>
+              <Input
+                id="scenarioName"
+                value={name}
+                maxLength={100}
+                placeholder="e.g. Alice on leave in March"
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scenarioDescription">Description (optional)</Label>
+              <Textarea
+                id="scenarioDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scenarioAuthor">Author (optional)</Label>
+              <Input
+                id="scenarioAuthor"
+                value={author}
+                maxLength={100}
+                onChange={(e) => setAuthor(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
+              Cancel
+            </Button>
+            {loadedScenario && (
+              <Button
+                variant="outline"
+                disabled={saving || !name.trim()}
+                onClick={() => handleSave(true)}
+              >
+                Update &quot;{loadedScenario.name}&quot;
+              </Button>
+            )}
+            <Button disabled={saving || !name.trim()} onClick={() => handleSave(false)}>
+              {saving ? "Saving..." : "Save as New"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -6,7 +6,11 @@
  * This component handles all interactive UI elements and simulation logic:
  * - Simulation engine (generatePlanSimulation)
  * - Delay and block controls
+ * - What-if levers (virtual staff and tasks, effort and due-date changes)
  * - Simulated plan previews
+ * - Saved scenarios (save, load, re-run and compare)
+ * - Side-by-side comparison of scenarios with the live plan
+ * - Monte Carlo delivery forecast (P50/P80/P95 dates)
  * - Local state management
  * 
  * It does NOT perform direct database operations.
@@ -41,21 +45,58 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { type SimulationOptions } from "@/lib/planningEngine";
-import { runPlanSimulation } from "./actions";
+import {
+  type SimulationOptions,
+  type UnscheduledTask,
+} from "@/lib/planningEngine";
+import {
+  DEFAULT_ORDERING_STRATEGY,
+  ORDERING_STRATEGIES,
+  isVirtualId,
+  type DailyAllocation,
+  type OrderingStrategy,
+  type PlanExplanation,
+  type PlanLockType,
+  type PlanResult,
+} from "@/lib/planner/scheduler";
+import { diffPlans, type PlanChange } from "@/lib/planner/planDiff";
+import {
+  deleteScenario,
+  duplicateScenario,
+  runPlanSimulation,
+  saveScenario,
+} from "./actions";
 import { toast } from "sonner";
 import { Play, RotateCcw, CheckCircle } from "lucide-react";
 import { TableSkeleton } from "@/components/skeletons/TableSkeleton";
 import { SimulatorHowItWorksModal } from "@/components/SimulatorHowItWorksModal";
-import { applySimulation } from "./actions";
+import { applySimulation, previewSimulation } from "./actions";
+import { ApplyPreviewDialog } from "./ApplyPreviewDialog";
+import type { SimulationPreview } from "@/lib/planner/planVersions";
+import { UnscheduledTasksPanel } from "../UnscheduledTasksPanel";
+import { PlanChangesPanel } from "../PlanChangesPanel";
+import { ScenariosPanel, type ScenarioDetails } from "./ScenariosPanel";
+import { ScenarioComparison } from "./ScenarioComparison";
+import { DeliveryForecast } from "./DeliveryForecast";
+import {
+  EMPTY_LEVERS,
+  WhatIfLevers,
+  hasLevers,
+  leversFromOptions,
+  type SimulationLevers,
+} from "./WhatIfLevers";
+import type { PlanWithDetails } from "@/lib/planner/server";
 import type {
   Task,
   Employee,
+  Scenario,
 } from "@/lib/planner/simulator-server";
 
 type SimulatorClientProps = {
   initialTasks: Task[];
   initialEmployees: Employee[];
+  initialScenarios: Scenario[];
+  initialLivePlans: PlanWithDetails[];
 };
 
 type SimulatedPlan = {
@@ -64,8 +105,15 @@ type SimulatedPlan = {
   start_date: string;
   end_date: string;
   total_hours: number;
+  /** Hours already logged, for plans continuing started work */
+  hours_spent?: number;
   is_overdue: boolean;
   days_overdue: number;
+  daily_allocations?: DailyAllocation[];
+  /** Role of the effort line for multi-role tasks */
+  role?: string | null;
+  lock_type?: PlanLockType | null;
+  explanation?: PlanExplanation | null;
   task?: {
     title: string;
     client: string;
@@ -89,6 +137,8 @@ type BlockedEmployee = {
 export default function SimulatorClient({
   initialTasks,
   initialEmployees,
+  initialScenarios,
+  initialLivePlans,
 }: SimulatorClientProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
@@ -96,13 +146,37 @@ export default function SimulatorClient({
   const [employees] = useState<Employee[]>(initialEmployees);
   const [simulating, setSimulating] = useState(false);
   const [applying, setApplying] = useState(false);
+  // What applying would change, shown for confirmation before anything is written
+  const [applyPreview, setApplyPreview] = useState<SimulationPreview | null>(null);
   const [simulatedPlans, setSimulatedPlans] = useState<SimulatedPlan[]>([]);
+  // Tasks the simulated plan could not schedule (recorded on apply)
+  const [unscheduledTasks, setUnscheduledTasks] = useState<UnscheduledTask[]>(
+    []
+  );
 
   // Simulation options
+  const [strategy, setStrategy] = useState<OrderingStrategy>(
+    DEFAULT_ORDERING_STRATEGY
+  );
+  // Plan start (empty = today) and optional horizon end, as YYYY-MM-DD
+  const [planStartDate, setPlanStartDate] = useState("");
+  const [horizonEnd, setHorizonEnd] = useState("");
+  // Options the current results were produced with (recorded on apply and
+  // saved with a scenario)
+  const [simulatedOptions, setSimulatedOptions] = useState<SimulationOptions>({
+    strategy: DEFAULT_ORDERING_STRATEGY,
+  });
+  // Scenario last loaded or saved, and what changed since it was saved
+  const [loadedScenario, setLoadedScenario] = useState<Scenario | null>(null);
+  const [scenarioChanges, setScenarioChanges] = useState<PlanChange[] | null>(
+    null
+  );
   const [delayedTasks, setDelayedTasks] = useState<DelayedTask[]>([]);
   const [blockedEmployees, setBlockedEmployees] = useState<BlockedEmployee[]>(
     []
   );
+  // Virtual employees and tasks, and effort and due-date overrides
+  const [levers, setLevers] = useState<SimulationLevers>(EMPTY_LEVERS);
 
   // Form state for adding delayed task
   const [selectedTaskForDelay, setSelectedTaskForDelay] = useState<string>("");
@@ -195,67 +269,112 @@ export default function SimulatorClient({
     );
   };
 
-  const handleRunSimulation = async () => {
+  // Use initial tasks and employees for display (no need to fetch again),
+  // plus the virtual ones the results were simulated with
+  const taskTitles = new Map(
+    [...tasks, ...(simulatedOptions.virtualTasks ?? [])].map((t) => [t.id, t.title])
+  );
+  const employeeNames = new Map(
+    [...employees, ...(simulatedOptions.virtualEmployees ?? [])].map((e) => [
+      e.id,
+      e.name,
+    ])
+  );
+  // Virtual employees and tasks only exist in the simulation
+  const usesLevers = hasLevers(leversFromOptions(simulatedOptions));
+
+  // Keep IDs as strings (matching simulation engine) and add details
+  const withDetails = (
+    plans: PlanResult[],
+    options: SimulationOptions
+  ): SimulatedPlan[] => {
+    const tasksMap = new Map<string, Pick<Task, "title" | "client">>();
+    [...tasks, ...(options.virtualTasks ?? [])].forEach((t) => tasksMap.set(t.id, t));
+    const namesMap = new Map(
+      [...employees, ...(options.virtualEmployees ?? [])].map((e) => [e.id, e.name])
+    );
+
+    return plans.map((plan) => ({
+      task_id: String(plan.task_id),
+      employee_id: String(plan.employee_id),
+      start_date: plan.start_date,
+      end_date: plan.end_date,
+      total_hours: plan.total_hours,
+      hours_spent: plan.hours_spent,
+      is_overdue: plan.is_overdue || false,
+      days_overdue: plan.days_overdue || 0,
+      daily_allocations: plan.daily_allocations,
+      role: plan.role ?? null,
+      lock_type: plan.lock_type ?? null,
+      explanation: plan.explanation ?? null,
+      task: tasksMap.get(String(plan.task_id))
+        ? {
+            title: tasksMap.get(String(plan.task_id))!.title,
+            client: tasksMap.get(String(plan.task_id))!.client,
+          }
+        : undefined,
+      employee: namesMap.get(String(plan.employee_id))
+        ? {
+            name: namesMap.get(String(plan.employee_id))!,
+          }
+        : undefined,
+    }));
+  };
+
+  // The options set in the form; string ids match the simulation engine
+  const getFormOptions = (): SimulationOptions => ({
+    strategy,
+    startDate: planStartDate || undefined,
+    horizonEnd: horizonEnd || undefined,
+    delayedTasks:
+      delayedTasks.length > 0
+        ? delayedTasks.map((dt) => ({
+            task_id: String(dt.task_id),
+            delay_days: dt.delay_days,
+          }))
+        : undefined,
+    blockedEmployees:
+      blockedEmployees.length > 0
+        ? blockedEmployees.map((be) => ({
+            employee_id: String(be.employee_id),
+            from: be.from,
+            to: be.to,
+          }))
+        : undefined,
+    virtualEmployees:
+      levers.virtualEmployees.length > 0 ? levers.virtualEmployees : undefined,
+    virtualTasks: levers.virtualTasks.length > 0 ? levers.virtualTasks : undefined,
+    effortOverrides:
+      levers.effortOverrides.length > 0 ? levers.effortOverrides : undefined,
+    dueDateOverrides:
+      levers.dueDateOverrides.length > 0 ? levers.dueDateOverrides : undefined,
+  });
+
+  // Run the simulation; with a scenario, show what changed since it was saved
+  const runSimulation = async (
+    options: SimulationOptions,
+    compareWith: Scenario | null
+  ) => {
     setSimulating(true);
     try {
-      // Convert delayed tasks and blocked employees to string format for simulation
-      const options: SimulationOptions = {
-        delayedTasks:
-          delayedTasks.length > 0
-            ? delayedTasks.map((dt) => ({
-                task_id: String(dt.task_id),
-                delay_days: dt.delay_days,
-              }))
-            : undefined,
-        blockedEmployees:
-          blockedEmployees.length > 0
-            ? blockedEmployees.map((be) => ({
-                employee_id: String(be.employee_id),
-                from: be.from,
-                to: be.to,
-              }))
-            : undefined,
-      };
-
       const result = await runPlanSimulation(options);
       
       if (!result.success || !result.data) {
         throw new Error(result.error || "Failed to run simulation");
       }
       
-      const plans = result.data;
-
-      // Use initial tasks and employees for display (no need to fetch again)
-      const tasksMap = new Map<string, Task>();
-      tasks.forEach((t) => tasksMap.set(t.id, t));
-
-      const employeesMap = new Map<string, Employee>();
-      employees.forEach((e) => employeesMap.set(e.id, e));
-
-      // Keep IDs as strings (matching simulation engine) and add details
-      const plansWithDetails: SimulatedPlan[] = plans.map((plan) => ({
-        task_id: plan.task_id,
-        employee_id: plan.employee_id,
-        start_date: plan.start_date,
-        end_date: plan.end_date,
-        total_hours: plan.total_hours,
-        is_overdue: plan.is_overdue || false,
-        days_overdue: plan.days_overdue || 0,
-        task: tasksMap.get(plan.task_id)
-          ? {
-              title: tasksMap.get(plan.task_id)!.title,
-              client: tasksMap.get(plan.task_id)!.client,
-            }
-          : undefined,
-        employee: employeesMap.get(plan.employee_id)
-          ? {
-              name: employeesMap.get(plan.employee_id)!.name,
-            }
-          : undefined,
-      }));
-
-      setSimulatedPlans(plansWithDetails);
-      toast.success(`Simulation complete: ${plans.length} tasks planned`);
+      const { plans, unscheduled } = result.data;
+
+      setSimulatedPlans(withDetails(plans, options));
+      setUnscheduledTasks(unscheduled);
+      setSimulatedOptions(options);
+      setScenarioChanges(compareWith ? diffPlans(compareWith.plans, plans) : null);
+      toast.success(`Simulation complete: ${plans.length} tasks planned`, {
+        description:
+          unscheduled.length > 0
+            ? `${unscheduled.length} could not be scheduled`
+            : undefined,
+      });
     } catch (error) {
       console.error("Error running simulation:", error);
       toast.error("Failed to run simulation");
@@ -264,23 +383,141 @@ export default function SimulatorClient({
     }
   };
 
+  const handleRunSimulation = () => runSimulation(getFormOptions(), loadedScenario);
+
+  // Put a scenario's options in the form and show its saved results, or
+  // run it again on today's data
+  const handleLoadScenario = (scenario: Scenario, rerun: boolean) => {
+    const { options } = scenario;
+    setStrategy(options.strategy ?? DEFAULT_ORDERING_STRATEGY);
+    setPlanStartDate(options.startDate ?? "");
+    setHorizonEnd(options.horizonEnd ?? "");
+    setDelayedTasks(options.delayedTasks ?? []);
+    setBlockedEmployees(options.blockedEmployees ?? []);
+    setLevers(leversFromOptions(options));
+    setLoadedScenario(scenario);
+
+    if (rerun) {
+      runSimulation(options, scenario);
+      return;
+    }
+    setSimulatedPlans(withDetails(scenario.plans, options));
+    setUnscheduledTasks(scenario.unscheduled_tasks);
+    setSimulatedOptions(options);
+    setScenarioChanges(null);
+    toast.success(`Scenario "${scenario.name}" loaded`);
+  };
+
+  const handleSaveScenario = async (
+    details: ScenarioDetails,
+    overwrite: boolean
+  ): Promise<boolean> => {
+    // Save the plans without the display details
+    const plans: PlanResult[] = simulatedPlans.map((plan) => ({
+      task_id: plan.task_id,
+      employee_id: plan.employee_id,
+      start_date: plan.start_date,
+      end_date: plan.end_date,
+      total_hours: plan.total_hours,
+      hours_spent: plan.hours_spent,
+      is_overdue: plan.is_overdue,
+      days_overdue: plan.days_overdue,
+      daily_allocations: plan.daily_allocations ?? [],
+      role: plan.role ?? null,
+      lock_type: plan.lock_type ?? null,
+      explanation: plan.explanation ?? null,
+    }));
+    const result = await saveScenario(
+      {
+        ...details,
+        options: simulatedOptions,
+        plans,
+        unscheduled_tasks: unscheduledTasks,
+      },
+      overwrite && loadedScenario ? loadedScenario.id : null
+    );
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to save scenario");
+      return false;
+    }
+    setLoadedScenario({
+      id: result.data.id,
+      name: details.name.trim(),
+      description: details.description,
+      author: details.author,
+      options: simulatedOptions,
+      plans,
+      unscheduled_tasks: unscheduledTasks,
+      created_at: loadedScenario?.created_at ?? new Date().toISOString(),
+      last_updated: new Date().toISOString(),
+    });
+    setScenarioChanges(null);
+    toast.success(`Scenario "${details.name.trim()}" saved`);
+    refreshSimulator();
+    return true;
+  };
+
+  const handleDuplicateScenario = async (scenario: Scenario) => {
+    const result = await duplicateScenario(scenario.id);
+    if (!result.success) {
+      toast.error(result.error || "Failed to duplicate scenario");
+      return;
+    }
+    toast.success(`Scenario "${scenario.name}" duplicated`);
+    refreshSimulator();
+  };
+
+  const handleDeleteScenario = async (scenario: Scenario) => {
+    if (!confirm(`Delete the scenario "${scenario.name}"? This cannot be undone.`)) {
+      return;
+    }
+
+    const result = await deleteScenario(scenario.id);
+    if (!result.success) {
+      toast.error(result.error || "Failed to delete scenario");
+      return;
+    }
+    if (loadedScenario?.id === scenario.id) {
+      setLoadedScenario(null);
+      setScenarioChanges(null);
+    }
+    toast.success(`Scenario "${scenario.name}" deleted`);
+    refreshSimulator();
+  };
+
+  // Show what applying would change; applying happens on confirmation
   const handleApplyChanges = async () => {
     if (simulatedPlans.length === 0) {
       toast.error("No simulation results to apply. Run simulation first.");
       return;
     }
 
-    if (
-      !confirm(
-        "Are you sure you want to apply these changes? This will update the real plan."
-      )
-    ) {
-      return;
+    setApplying(true);
+    try {
+      const result = await previewSimulation(simulatedPlans);
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Failed to preview changes");
+        return;
+      }
+      setApplyPreview(result.data);
+    } catch (error) {
+      console.error("Error previewing changes:", error);
+      toast.error("Failed to preview changes");
+    } finally {
+      setApplying(false);
     }
+  };
 
+  const handleConfirmApply = async () => {
     setApplying(true);
     try {
-      const result = await applySimulation(simulatedPlans);
+      const result = await applySimulation(simulatedPlans, {
+        ordering_strategy: simulatedOptions.strategy,
+        plan_start_date: simulatedOptions.startDate,
+        horizon_end: simulatedOptions.horizonEnd ?? null,
+        unscheduled_tasks: unscheduledTasks,
+      });
 
       if (!result.success) {
         toast.error(
@@ -291,7 +528,10 @@ export default function SimulatorClient({
           "Changes applied successfully! Plan has been updated."
         );
         // Clear simulation
+        setApplyPreview(null);
         setSimulatedPlans([]);
+        setUnscheduledTasks([]);
+        setScenarioChanges(null);
         setDelayedTasks([]);
         setBlockedEmployees([]);
         // Refresh to get updated data
@@ -306,9 +546,16 @@ export default function SimulatorClient({
   };
 
   const handleReset = () => {
+    setStrategy(DEFAULT_ORDERING_STRATEGY);
+    setPlanStartDate("");
+    setHorizonEnd("");
     setDelayedTasks([]);
     setBlockedEmployees([]);
+    setLevers(EMPTY_LEVERS);
     setSimulatedPlans([]);
+    setUnscheduledTasks([]);
+    setLoadedScenario(null);
+    setScenarioChanges(null);
     setSelectedTaskForDelay("");
     setDelayDays(0);
     setSelectedEmployeeForBlock("");
@@ -354,6 +601,61 @@ export default function SimulatorClient({
           </div>
         </CardHeader>
         <CardContent className="space-y-6">
+          {/* Ordering Strategy Section */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold">Ordering Strategy</h3>
+            <div className="grid gap-4 md:grid-cols-3">
+              <Select
+                value={strategy}
+                onValueChange={(value: OrderingStrategy) => setStrategy(value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select strategy" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ORDERING_STRATEGIES.map((s) => (
+                    <SelectItem key={s.value} value={s.value}>
+                      {s.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground md:col-span-2 self-center">
+                {ORDERING_STRATEGIES.find((s) => s.value === strategy)?.description}
+              </p>
+            </div>
+          </div>
+
+          {/* Planning Window Section */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold">Planning Window</h3>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="grid gap-2">
+                <Label htmlFor="planStartDate">Plan from</Label>
+                <Input
+                  id="planStartDate"
+                  type="date"
+                  value={planStartDate}
+                  onChange={(e) => setPlanStartDate(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="horizonEnd">Horizon end (optional)</Label>
+                <Input
+                  id="horizonEnd"
+                  type="date"
+                  value={horizonEnd}
+                  min={planStartDate || undefined}
+                  onChange={(e) => setHorizonEnd(e.target.value)}
+                />
+              </div>
+              <p className="text-sm text-muted-foreground self-end">
+                Leave the start empty to plan from today. Tasks that would
+                finish after the horizon are listed as unscheduled.
+              </p>
+            </div>
+          </div>
+
           {/* Delayed Tasks Section */}
           <div className="space-y-4">
             <h3 className="text-lg font-semibold">Delayed Tasks</h3>
@@ -471,6 +773,8 @@ export default function SimulatorClient({
             )}
           </div>
 
+          <WhatIfLevers levers={levers} onChange={setLevers} tasks={tasks} />
+
           {/* Action Buttons */}
           <div className="flex gap-4">
             <Button
@@ -494,7 +798,12 @@ export default function SimulatorClient({
             {simulatedPlans.length > 0 && (
               <Button
                 onClick={handleApplyChanges}
-                disabled={applying || isPending}
+                disabled={applying || isPending || usesLevers}
+                title={
+                  usesLevers
+                    ? "Simulations with hypothetical staff, tasks or changes cannot be applied"
+                    : undefined
+                }
                 variant="default"
               >
                 {applying ? (
@@ -511,6 +820,32 @@ export default function SimulatorClient({
         </CardContent>
       </Card>
 
+      <ScenariosPanel
+        scenarios={initialScenarios}
+        loadedScenario={loadedScenario}
+        canSave={simulatedPlans.length > 0 && !simulating}
+        onSave={handleSaveScenario}
+        onLoad={handleLoadScenario}
+        onDuplicate={handleDuplicateScenario}
+        onDelete={handleDeleteScenario}
+      />
+
+      <ApplyPreviewDialog
+        preview={applyPreview}
+        applying={applying}
+        onCancel={() => setApplyPreview(null)}
+        onConfirm={handleConfirmApply}
+      />
+
+      <ScenarioComparison
+        scenarios={initialScenarios}
+        livePlans={initialLivePlans}
+        tasks={tasks}
+        employees={employees}
+      />
+
+      <DeliveryForecast getOptions={getFormOptions} />
+
       {/* Simulation Results */}
       {simulating ? (
         <Card className="border-2 border-blue-500">
@@ -534,6 +869,16 @@ export default function SimulatorClient({
               </CardDescription>
             </CardHeader>
             <CardContent>
+              {scenarioChanges && loadedScenario && (
+                <PlanChangesPanel
+                  title={`Changes since "${loadedScenario.name}" was saved`}
+                  changes={scenarioChanges}
+                  taskTitles={taskTitles}
+                  employeeNames={employeeNames}
+                  className="mb-4"
+                />
+              )}
+              <UnscheduledTasksPanel tasks={unscheduledTasks} className="mb-4" />
               <Table>
                 <TableHeader>
                   <TableRow>
@@ -554,12 +899,27 @@ export default function SimulatorClient({
                         new Date(b.start_date).getTime()
                     )
                     .map((plan) => (
-                      <TableRow key={`${plan.task_id}-${plan.employee_id}`}>
+                      <TableRow key={`${plan.task_id}-${plan.role ?? ""}-${plan.employee_id}`}>
                         <TableCell className="font-medium">
                           {plan.task?.title || "Unknown Task"}
+                          {isVirtualId(plan.task_id) && (
+                            <Badge variant="outline" className="ml-2">
+                              hypothetical
+                            </Badge>
+                          )}
+                          {plan.role && (
+                            <Badge variant="secondary" className="ml-2">
+                              {plan.role}
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell>
                           {plan.employee?.name || "Unknown Employee"}
+                          {isVirtualId(plan.employee_id) && (
+                            <Badge variant="outline" className="ml-2">
+                              hypothetical
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell>
                           <Badge variant="outline">
@@ -0,0 +1,424 @@
+"use client";
+
+/**
+ * What-if levers of the simulator: virtual employees and tasks, and effort
+ * and due-date overrides of real tasks
+ *
+ * Nothing here is saved to the employees or tasks tables; the levers only
+ * travel with the simulation options (and saved scenarios).
+ */
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  VIRTUAL_ID_PREFIX,
+  type EffortOverride,
+  type PlanningEmployee,
+  type PlanningTask,
+  type SimulationOptions,
+} from "@/lib/planner/scheduler";
+import type { Task } from "@/lib/planner/simulator-server";
+
+export type SimulationLevers = Required<
+  Pick<
+    SimulationOptions,
+    "virtualEmployees" | "virtualTasks" | "effortOverrides" | "dueDateOverrides"
+  >
+>;
+
+export const EMPTY_LEVERS: SimulationLevers = {
+  virtualEmployees: [],
+  virtualTasks: [],
+  effortOverrides: [],
+  dueDateOverrides: [],
+};
+
+/** Whether any lever is set, which keeps the simulation from being applied */
+export const hasLevers = (levers: SimulationLevers): boolean =>
+  Object.values(levers).some((list) => list.length > 0);
+
+/** The levers of saved simulation options */
+export const leversFromOptions = (options: SimulationOptions): SimulationLevers => ({
+  virtualEmployees: options.virtualEmployees ?? [],
+  virtualTasks: options.virtualTasks ?? [],
+  effortOverrides: options.effortOverrides ?? [],
+  dueDateOverrides: options.dueDateOverrides ?? [],
+});
+
+type WhatIfLeversProps = {
+  levers: SimulationLevers;
+  onChange: (levers: SimulationLevers) => void;
+  /** Real tasks, whose effort and due date can be overridden */
+  tasks: Task[];
+};
+
+// Next free virtual id of a kind, e.g. "virtual-emp-3"
+const nextVirtualId = (kind: string, ids: string[]): string => {
+  const prefix = `${VIRTUAL_ID_PREFIX}${kind}-`;
+  const taken = ids
+    .filter((id) => id.startsWith(prefix))
+    .map((id) => parseInt(id.slice(prefix.length), 10) || 0);
+  return `${prefix}${Math.max(0, ...taken) + 1}`;
+};
+
+const formatDate = (dateString: string) =>
+  new Date(`${dateString}T00:00:00`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+function DesignationSelect({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Designation" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="Developer">Developer</SelectItem>
+        <SelectItem value="QA">QA</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
+
+function LeverRow({ label, onRemove }: { label: string; onRemove: () => void }) {
+  return (
+    <div className="flex items-center justify-between p-2 bg-muted rounded">
+      <span>{label}</span>
+      <Button variant="ghost" size="sm" onClick={onRemove}>
+        Remove
+      </Button>
+    </div>
+  );
+}
+
+export function WhatIfLevers({ levers, onChange, tasks }: WhatIfLeversProps) {
+  const [employeeName, setEmployeeName] = useState("");
+  const [employeeDesignation, setEmployeeDesignation] = useState("Developer");
+  const [employeeStart, setEmployeeStart] = useState("");
+
+  const [taskTitle, setTaskTitle] = useState("");
+  const [taskClient, setTaskClient] = useState("");
+  const [taskDesignation, setTaskDesignation] = useState("Developer");
+  const [taskEffort, setTaskEffort] = useState<number>(0);
+  const [taskDue, setTaskDue] = useState("");
+
+  const [effortTaskId, setEffortTaskId] = useState("");
+  const [effortChange, setEffortChange] = useState<number>(0);
+  const [effortUnit, setEffortUnit] = useState<EffortOverride["unit"]>("hours");
+
+  const [dueTaskId, setDueTaskId] = useState("");
+  const [dueDate, setDueDate] = useState("");
+
+  const taskTitles = new Map(tasks.map((t) => [t.id, t.title]));
+
+  const handleAddEmployee = () => {
+    if (!employeeName.trim()) {
+      toast.error("Please enter a name for the virtual employee");
+      return;
+    }
+
+    const employee: PlanningEmployee = {
+      id: nextVirtualId(
+        "emp",
+        levers.virtualEmployees.map((e) => e.id)
+      ),
+      name: employeeName.trim(),
+      designation: employeeDesignation,
+      start_date: employeeStart || null,
+    };
+    onChange({ ...levers, virtualEmployees: [...levers.virtualEmployees, employee] });
+    setEmployeeName("");
+    setEmployeeStart("");
+    toast.success("Virtual employee added");
+  };
+
+  const handleAddTask = () => {
+    if (!taskTitle.trim() || taskEffort <= 0) {
+      toast.error("Please enter a title and effort hours (greater than 0)");
+      return;
+    }
+
+    const task: PlanningTask = {
+      id: nextVirtualId(
+        "task",
+        levers.virtualTasks.map((t) => t.id)
+      ),
+      title: taskTitle.trim(),
+      client: taskClient.trim() || "Hypothetical",
+      effort_hours: taskEffort,
+      designation_required: taskDesignation,
+      due_date: taskDue || null,
+    };
+    onChange({ ...levers, virtualTasks: [...levers.virtualTasks, task] });
+    setTaskTitle("");
+    setTaskClient("");
+    setTaskEffort(0);
+    setTaskDue("");
+    toast.success("Virtual task added");
+  };
+
+  const handleAddEffortOverride = () => {
+    if (!effortTaskId || !effortChange) {
+      toast.error("Please select a task and enter a change other than 0");
+      return;
+    }
+    if (levers.effortOverrides.some((o) => o.task_id === effortTaskId)) {
+      toast.error(
+        "This task's effort is already changed. Remove it first to change it again."
+      );
+      return;
+    }
+
+    onChange({
+      ...levers,
+      effortOverrides: [
+        ...levers.effortOverrides,
+        { task_id: effortTaskId, change: effortChange, unit: effortUnit },
+      ],
+    });
+    setEffortTaskId("");
+    setEffortChange(0);
+    toast.success("Effort change added");
+  };
+
+  const handleAddDueDateOverride = () => {
+    if (!dueTaskId) {
+      toast.error("Please select a task");
+      return;
+    }
+    if (levers.dueDateOverrides.some((o) => o.task_id === dueTaskId)) {
+      toast.error(
+        "This task's due date is already changed. Remove it first to change it again."
+      );
+      return;
+    }
+
+    onChange({
+      ...levers,
+      dueDateOverrides: [
+        ...levers.dueDateOverrides,
+        { task_id: dueTaskId, due_date: dueDate || null },
+      ],
+    });
+    setDueTaskId("");
+    setDueDate("");
+    toast.success("Due date change added");
+  };
+
+  const formatChange = (override: EffortOverride) =>
+    `${override.change > 0 ? "+" : ""}${override.change}${
+      override.unit === "percent" ? "%" : "h"
+    }`;
+
+  const taskOptions = tasks.map((task) => (
+    <SelectItem key={task.id} value={task.id}>
+      {task.title} ({task.client})
+    </SelectItem>
+  ));
+
+  return (
+    <>
+      {/* Virtual Employees Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold">Hypothetical Staff</h3>
+        <div className="grid gap-4 md:grid-cols-4">
+          <Input
+            placeholder="Name, e.g. New developer"
+            value={employeeName}
+            onChange={(e) => setEmployeeName(e.target.value)}
+          />
+          <DesignationSelect
+            value={employeeDesignation}
+            onChange={setEmployeeDesignation}
+          />
+          <Input
+            type="date"
+            title="Start date (empty = available from the plan start)"
+            value={employeeStart}
+            onChange={(e) => setEmployeeStart(e.target.value)}
+          />
+          <Button onClick={handleAddEmployee}>Add Employee</Button>
+        </div>
+        {levers.virtualEmployees.length > 0 && (
+          <div className="space-y-2">
+            {levers.virtualEmployees.map((emp) => (
+              <LeverRow
+                key={emp.id}
+                label={`${emp.name} (${emp.designation})${
+                  emp.start_date ? ` - starts ${formatDate(emp.start_date)}` : ""
+                }`}
+                onRemove={() =>
+                  onChange({
+                    ...levers,
+                    virtualEmployees: levers.virtualEmployees.filter(
+                      (e) => e.id !== emp.id
+                    ),
+                  })
+                }
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Virtual Tasks Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold">Extra Tasks</h3>
+        <div className="grid gap-4 md:grid-cols-6">
+          <Input
+            placeholder="Title"
+            value={taskTitle}
+            onChange={(e) => setTaskTitle(e.target.value)}
+          />
+          <Input
+            placeholder="Client"
+            value={taskClient}
+            onChange={(e) => setTaskClient(e.target.value)}
+          />
+          <DesignationSelect value={taskDesignation} onChange={setTaskDesignation} />
+          <Input
+            type="number"
+            min="1"
+            placeholder="Effort hours"
+            value={taskEffort || ""}
+            onChange={(e) => setTaskEffort(parseFloat(e.target.value) || 0)}
+          />
+          <Input
+            type="date"
+            title="Due date (optional)"
+            value={taskDue}
+            onChange={(e) => setTaskDue(e.target.value)}
+          />
+          <Button onClick={handleAddTask}>Add Task</Button>
+        </div>
+        {levers.virtualTasks.length > 0 && (
+          <div className="space-y-2">
+            {levers.virtualTasks.map((task) => (
+              <LeverRow
+                key={task.id}
+                label={`${task.title} (${task.client}) - ${task.effort_hours}h, ${
+                  task.designation_required
+                }${task.due_date ? `, due ${formatDate(task.due_date)}` : ""}`}
+                onRemove={() =>
+                  onChange({
+                    ...levers,
+                    virtualTasks: levers.virtualTasks.filter((t) => t.id !== task.id),
+                  })
+                }
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Effort Overrides Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold">Effort Changes</h3>
+        <div className="grid gap-4 md:grid-cols-4">
+          <Select value={effortTaskId} onValueChange={setEffortTaskId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select task" />
+            </SelectTrigger>
+            <SelectContent>{taskOptions}</SelectContent>
+          </Select>
+          <Input
+            type="number"
+            placeholder="Change, e.g. 16 or -25"
+            value={effortChange || ""}
+            onChange={(e) => setEffortChange(parseFloat(e.target.value) || 0)}
+          />
+          <Select
+            value={effortUnit}
+            onValueChange={(value: EffortOverride["unit"]) => setEffortUnit(value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hours">Hours</SelectItem>
+              <SelectItem value="percent">Percent</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAddEffortOverride}>Change Effort</Button>
+        </div>
+        {levers.effortOverrides.length > 0 && (
+          <div className="space-y-2">
+            {levers.effortOverrides.map((override) => (
+              <LeverRow
+                key={override.task_id}
+                label={`${taskTitles.get(override.task_id) || "Unknown"} - ${formatChange(
+                  override
+                )}`}
+                onRemove={() =>
+                  onChange({
+                    ...levers,
+                    effortOverrides: levers.effortOverrides.filter(
+                      (o) => o.task_id !== override.task_id
+                    ),
+                  })
+                }
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Due Date Overrides Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold">Due Date Changes</h3>
+        <div className="grid gap-4 md:grid-cols-3">
+          <Select value={dueTaskId} onValueChange={setDueTaskId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select task" />
+            </SelectTrigger>
+            <SelectContent>{taskOptions}</SelectContent>
+          </Select>
+          <Input
+            type="date"
+            title="New due date (empty = no due date)"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+          />
+          <Button onClick={handleAddDueDateOverride}>Change Due Date</Button>
+        </div>
+        {levers.dueDateOverrides.length > 0 && (
+          <div className="space-y-2">
+            {levers.dueDateOverrides.map((override) => (
+              <LeverRow
+                key={override.task_id}
+                label={`${taskTitles.get(override.task_id) || "Unknown"} - ${
+                  override.due_date ? `due ${formatDate(override.due_date)}` : "no due date"
+                }`}
+                onRemove={() =>
+                  onChange({
+                    ...levers,
+                    dueDateOverrides: levers.dueDateOverrides.filter(
+                      (o) => o.task_id !== override.task_id
+                    ),
+                  })
+                }
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -9,7 +9,35 @@
 
 import { revalidatePath } from "next/cache";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
-import { generatePlanSimulation, type SimulationOptions, type PlanResult } from "@/lib/planningEngine";
+import {
+  generateDeliveryForecast,
+  generatePlanSimulation,
+  recordPlanGeneration,
+  type GenerationSettings,
+  type SimulatedPlan,
+  type SimulationOptions,
+  type UnscheduledTask,
+} from "@/lib/planningEngine";
+import {
+  isVirtualId,
+  validatePlanWindow,
+  validateSimulationLevers,
+  type DailyAllocation,
+  type PlanExplanation,
+  type PlanLockType,
+  type PlanResult,
+} from "@/lib/planner/scheduler";
+import {
+  DEFAULT_FORECAST_RUNS,
+  MAX_FORECAST_RUNS,
+  type DeliveryForecast,
+} from "@/lib/planner/forecast";
+import {
+  comparePlanVersions,
+  findNewlyOverdue,
+  type SimulationPreview,
+  type StoredPlan,
+} from "@/lib/planner/planVersions";
 
 export type ActionResult<T = void> = {
   success: boolean;
@@ -24,14 +52,24 @@ export type ActionResult<T = void> = {
  */
 export async function runPlanSimulation(
   options: SimulationOptions
-): Promise<ActionResult<PlanResult[]>> {
+): Promise<ActionResult<SimulatedPlan>> {
   try {
+    const windowError =
+      validatePlanWindow(options.startDate, options.horizonEnd) ??
+      validateSimulationLevers(options);
+    if (windowError) {
+      return {
+        success: false,
+        error: windowError,
+      };
+    }
+
     const supabase = createServerSupabaseClient();
-    const plans = await generatePlanSimulation(supabase, options);
+    const simulation = await generatePlanSimulation(supabase, options);
     
     return {
       success: true,
-      data: plans,
+      data: simulation,
     };
   } catch (error: any) {
     console.error("Error running plan simulation:", error);
@@ -42,26 +80,216 @@ export async function runPlanSimulation(
   }
 }
 
+type SimulatedPlanInput = {
+  task_id: string; // String from simulation engine
+  employee_id: string; // String from simulation engine
+  start_date: string;
+  end_date: string;
+  total_hours: number;
+  /** Hours already logged, for plans continuing started work */
+  hours_spent?: number;
+  is_overdue: boolean;
+  days_overdue: number;
+  daily_allocations?: DailyAllocation[];
+  role?: string | null;
+  lock_type?: PlanLockType | null;
+  explanation?: PlanExplanation | null;
+};
+
+/**
+ * Forecast delivery dates on the server
+ *
+ * Plans many times with sampled task efforts (see forecastDeliveryDates),
+ * with the same options as a simulation. Nothing is saved.
+ */
+export async function runDeliveryForecast(
+  options: SimulationOptions,
+  runs: number = DEFAULT_FORECAST_RUNS
+): Promise<ActionResult<DeliveryForecast>> {
+  console.log("[PLANNER:BE] runDeliveryForecast - Forecasting", { runs });
+  try {
+    const windowError =
+      validatePlanWindow(options.startDate, options.horizonEnd) ??
+      validateSimulationLevers(options);
+    if (windowError) {
+      return {
+        success: false,
+        error: windowError,
+      };
+    }
+    if (!Number.isInteger(runs) || runs < 1 || runs > MAX_FORECAST_RUNS) {
+      console.log("[PLANNER:BE] runDeliveryForecast - Validation failed: runs", { runs });
+      return {
+        success: false,
+        error: `Runs must be a whole number from 1 to ${MAX_FORECAST_RUNS}`,
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+    const forecast = await generateDeliveryForecast(supabase, options, { runs });
+
+    console.log("[PLANNER:BE] runDeliveryForecast - Success", {
+      runs: forecast.runs,
+      taskCount: forecast.tasks.length,
+      uncertainTaskCount: forecast.uncertainTaskCount,
+    });
+    return {
+      success: true,
+      data: forecast,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[PLANNER:BE] runDeliveryForecast - Unexpected error", {
+      error: message,
+    });
+    return {
+      success: false,
+      error: message || "Failed to forecast delivery dates",
+    };
+  }
+}
+
+/**
+ * Fetch the stored plans and the names of the employees and tasks in them
+ * and in the simulated plans, keyed by string id
+ */
+async function fetchComparisonData(
+  supabase: ReturnType<typeof createServerSupabaseClient>,
+  simulatedPlans: SimulatedPlanInput[],
+  caller: string
+): Promise<{
+  existingPlans: StoredPlan[];
+  employeesMap: Map<string, string>;
+  tasksMap: Map<string, string>;
+}> {
+  console.log(`[PLANNER:BE] ${caller} - Fetching existing plans for comparison`);
+  const { data: existingPlans, error: fetchError } = await supabase
+    .from("plans")
+    .select("*");
+
+  if (fetchError) {
+    console.error(`[PLANNER:BE] ${caller} - Error fetching existing plans`, {
+      error: fetchError.message,
+    });
+    // Continue anyway - might be first run
+  } else {
+    console.log(`[PLANNER:BE] ${caller} - Existing plans fetched`, {
+      existingPlanCount: existingPlans?.length || 0,
+    });
+  }
+  const storedPlans: StoredPlan[] = existingPlans || [];
+
+  // Convert string IDs to numbers for database queries
+  const numericIds = (ids: Array<string | number>) => [
+    ...new Set(ids.map((id) => parseInt(String(id), 10)).filter((id) => !isNaN(id))),
+  ];
+  const allEmployeeIds = numericIds([
+    ...simulatedPlans.map((p) => p.employee_id),
+    ...storedPlans.map((p) => p.employee_id),
+  ]);
+  const allTaskIds = numericIds([
+    ...simulatedPlans.map((p) => p.task_id),
+    ...storedPlans.map((p) => p.task_id),
+  ]);
+
+  const { data: employees } = await supabase
+    .from("employees")
+    .select("id, name")
+    .in("id", allEmployeeIds);
+
+  const { data: tasks } = await supabase
+    .from("tasks")
+    .select("id, title")
+    .in("id", allTaskIds);
+
+  return {
+    existingPlans: storedPlans,
+    employeesMap: new Map(
+      (employees || []).map((emp: { id: number; name: string }) => [String(emp.id), emp.name])
+    ),
+    tasksMap: new Map(
+      (tasks || []).map((task: { id: number; title: string }) => [String(task.id), task.title])
+    ),
+  };
+}
+
+/**
+ * Preview what applying simulated plans would change, without writing
+ *
+ * Builds the same comparison applySimulation stores as plan versions
+ * (reassignments and date shifts), plus the tasks that would become overdue.
+ */
+export async function previewSimulation(
+  simulatedPlans: SimulatedPlanInput[]
+): Promise<ActionResult<SimulationPreview>> {
+  console.log("[PLANNER:BE] previewSimulation - Previewing simulation", {
+    simulatedPlanCount: simulatedPlans?.length || 0,
+  });
+  try {
+    if (!simulatedPlans || !Array.isArray(simulatedPlans) || simulatedPlans.length === 0) {
+      return {
+        success: false,
+        error: "No simulation results to apply. Run simulation first.",
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { existingPlans, employeesMap, tasksMap } = await fetchComparisonData(
+      supabase,
+      simulatedPlans,
+      "previewSimulation"
+    );
+
+    const preview: SimulationPreview = {
+      changes: comparePlanVersions(existingPlans, simulatedPlans).map((change) => ({
+        ...change,
+        task_title: tasksMap.get(change.task_id) || "Unknown Task",
+        employee_name: employeesMap.get(change.employee_id) || "Unknown Employee",
+        old_employee_name:
+          employeesMap.get(change.old_employee_id) || "Unknown Employee",
+      })),
+      newlyOverdue: findNewlyOverdue(existingPlans, simulatedPlans).map((task) => ({
+        ...task,
+        task_title: tasksMap.get(task.task_id) || "Unknown Task",
+      })),
+    };
+
+    console.log("[PLANNER:BE] previewSimulation - Success", {
+      changeCount: preview.changes.length,
+      newlyOverdueCount: preview.newlyOverdue.length,
+    });
+    return {
+      success: true,
+      data: preview,
+    };
+  } catch (error: any) {
+    console.error("[PLANNER:BE] previewSimulation - Unexpected error", {
+      error: error.message,
+    });
+    return {
+      success: false,
+      error: error.message || "Failed to preview simulation",
+    };
+  }
+}
+
 /**
  * Apply simulated plans to the database
  * 
  * This takes simulated plans from the client and saves them to the database,
  * replacing the existing plan. Uses the same logic as savePlanToDB but with
- * server-side Supabase client.
+ * server-side Supabase client. The client shows previewSimulation first.
  */
 export async function applySimulation(
-  simulatedPlans: Array<{
-    task_id: string; // String from simulation engine
-    employee_id: string; // String from simulation engine
-    start_date: string;
-    end_date: string;
-    total_hours: number;
-    is_overdue: boolean;
-    days_overdue: number;
-  }>
+  simulatedPlans: SimulatedPlanInput[],
+  settings: Omit<GenerationSettings, "source"> = {}
 ): Promise<ActionResult> {
   console.log("[PLANNER:BE] applySimulation - Applying simulation", {
     simulatedPlanCount: simulatedPlans?.length || 0,
+    strategy: settings.ordering_strategy,
+    planStartDate: settings.plan_start_date,
+    horizonEnd: settings.horizon_end,
+    unscheduledCount: settings.unscheduled_tasks?.length || 0,
   });
   try {
     if (!simulatedPlans || !Array.isArray(simulatedPlans) || simulatedPlans.length === 0) {
@@ -72,6 +300,15 @@ export async function applySimulation(
       };
     }
 
+    // Virtual employees and tasks exist only in the simulation
+    if (simulatedPlans.some((p) => isVirtualId(p.employee_id) || isVirtualId(p.task_id))) {
+      console.log("[PLANNER:BE] applySimulation - Validation failed: virtual employees or tasks");
+      return {
+        success: false,
+        error: "Simulations with virtual employees or tasks cannot be applied.",
+      };
+    }
+
     const supabase = createServerSupabaseClient();
 
     // Generate a unique generation ID for this plan generation run
@@ -82,179 +319,38 @@ export async function applySimulation(
       generationTimestamp,
     });
 
-    // 1. Fetch existing plans for comparison
-    console.log("[PLANNER:BE] applySimulation - Fetching existing plans for comparison");
-    const { data: existingPlans, error: fetchError } = await supabase
-      .from("plans")
-      .select("*");
-
-    if (fetchError) {
-      console.error("[PLANNER:BE] applySimulation - Error fetching existing plans", {
-        error: fetchError.message,
-      });
-      // Continue anyway - might be first run
-    } else {
-      console.log("[PLANNER:BE] applySimulation - Existing plans fetched", {
-        existingPlanCount: existingPlans?.length || 0,
-      });
-    }
-
-    // Fetch employee and task details for version records
-    // Convert string IDs to numbers for database queries
-    const newEmployeeIds = [
-      ...new Set(
-        simulatedPlans
-          .map((p) => parseInt(p.employee_id, 10))
-          .filter((id) => !isNaN(id))
-      ),
-    ];
-    const newTaskIds = [
-      ...new Set(
-        simulatedPlans
-          .map((p) => parseInt(p.task_id, 10))
-          .filter((id) => !isNaN(id))
-      ),
-    ];
-
-    const oldEmployeeIds = existingPlans
-      ? [...new Set(existingPlans.map((p: any) => p.employee_id))]
-      : [];
-    const oldTaskIds = existingPlans
-      ? [...new Set(existingPlans.map((p: any) => p.task_id))]
-      : [];
-
-    const allEmployeeIds = [
-      ...new Set([...newEmployeeIds, ...oldEmployeeIds]),
-    ];
-    const allTaskIds = [...new Set([...newTaskIds, ...oldTaskIds])];
-
-    const { data: employees } = await supabase
-      .from("employees")
-      .select("id, name")
-      .in("id", allEmployeeIds);
-
-    const { data: tasks } = await supabase
-      .from("tasks")
-      .select("id, title")
-      .in("id", allTaskIds);
-
-    // Create maps for quick lookup
-    const employeesMap = new Map<string, string>();
-    employees?.forEach((emp: any) => {
-      employeesMap.set(String(emp.id), emp.name);
-    });
+    await recordPlanGeneration(
+      supabase,
+      generationId,
+      generationTimestamp,
+      simulatedPlans.length,
+      { ...settings, source: "simulation" }
+    );
 
-    const tasksMap = new Map<string, string>();
-    tasks?.forEach((task: any) => {
-      tasksMap.set(String(task.id), task.title);
-    });
+    // 1. Fetch existing plans and names for comparison
+    const { existingPlans, employeesMap, tasksMap } = await fetchComparisonData(
+      supabase,
+      simulatedPlans,
+      "applySimulation"
+    );
 
     // 2. Compare old and new plans and create version records
-    const versionRecords: Array<{
-      plan_id: string | null;
-      task_id: string;
-      employee_id: string;
-      employee_name: string;
-      task_title: string;
-      old_start_date: string;
-      old_end_date: string;
-      new_start_date: string;
-      new_end_date: string;
-      delta_days: number;
-      generation_id: string;
-      generation_timestamp: string;
-    }> = [];
-
-    if (existingPlans && existingPlans.length > 0) {
-      const existingPlansMap = new Map<string, any>();
-      const existingTasksMap = new Map<string, any>();
-
-      existingPlans.forEach((plan: any) => {
-        const key = `${plan.task_id}-${plan.employee_id}`;
-        existingPlansMap.set(key, plan);
-
-        if (!existingTasksMap.has(String(plan.task_id))) {
-          existingTasksMap.set(String(plan.task_id), plan);
-        }
-      });
-
-      simulatedPlans.forEach((newPlan) => {
-        // Convert string IDs to numbers for comparison with existing plans
-        const taskIdNum = parseInt(newPlan.task_id, 10);
-        const employeeIdNum = parseInt(newPlan.employee_id, 10);
-
-        // Skip if invalid IDs
-        if (isNaN(taskIdNum) || isNaN(employeeIdNum)) {
-          return;
-        }
-
-        const key = `${taskIdNum}-${employeeIdNum}`;
-        const oldPlan = existingPlansMap.get(key);
-        const oldTaskPlan = existingTasksMap.get(newPlan.task_id);
-
-        if (oldPlan) {
-          // Same task + same employee: check if dates changed
-          if (
-            oldPlan.start_date !== newPlan.start_date ||
-            oldPlan.end_date !== newPlan.end_date
-          ) {
-            const oldEndDate = new Date(oldPlan.end_date);
-            const newEndDate = new Date(newPlan.end_date);
-            const deltaDays = Math.floor(
-              (newEndDate.getTime() - oldEndDate.getTime()) /
-                (1000 * 60 * 60 * 24)
-            );
-
-            versionRecords.push({
-              plan_id: oldPlan.id,
-              task_id: String(newPlan.task_id),
-              employee_id: String(newPlan.employee_id),
-              employee_name:
-                employeesMap.get(String(newPlan.employee_id)) ||
-                "Unknown Employee",
-              task_title:
-                tasksMap.get(String(newPlan.task_id)) || "Unknown Task",
-              old_start_date: oldPlan.start_date,
-              old_end_date: oldPlan.end_date,
-              new_start_date: newPlan.start_date,
-              new_end_date: newPlan.end_date,
-              delta_days: deltaDays,
-              generation_id: generationId,
-              generation_timestamp: generationTimestamp,
-            });
-          }
-        } else if (
-          oldTaskPlan &&
-          oldTaskPlan.employee_id !== employeeIdNum
-        ) {
-          // Task reassigned to different employee
-          const oldEndDate = new Date(oldTaskPlan.end_date);
-          const newEndDate = new Date(newPlan.end_date);
-          const deltaDays = Math.floor(
-            (newEndDate.getTime() - oldEndDate.getTime()) /
-              (1000 * 60 * 60 * 24)
-          );
-
-          versionRecords.push({
-            plan_id: oldTaskPlan.id,
-            task_id: String(newPlan.task_id),
-            employee_id: String(newPlan.employee_id),
-            employee_name:
-              employeesMap.get(String(newPlan.employee_id)) ||
-              "Unknown Employee",
-            task_title:
-              tasksMap.get(String(newPlan.task_id)) || "Unknown Task",
-            old_start_date: oldTaskPlan.start_date,
-            old_end_date: oldTaskPlan.end_date,
-            new_start_date: newPlan.start_date,
-            new_end_date: newPlan.end_date,
-            delta_days: deltaDays,
-            generation_id: generationId,
-            generation_timestamp: generationTimestamp,
-          });
-        }
-      });
-    }
+    const versionRecords = comparePlanVersions(existingPlans, simulatedPlans).map(
+      (change) => ({
+        plan_id: change.plan_id,
+        task_id: change.task_id,
+        employee_id: change.employee_id,
+        employee_name: employeesMap.get(change.employee_id) || "Unknown Employee",
+        task_title: tasksMap.get(change.task_id) || "Unknown Task",
+        old_start_date: change.old_start_date,
+        old_end_date: change.old_end_date,
+        new_start_date: change.new_start_date,
+        new_end_date: change.new_end_date,
+        delta_days: change.delta_days,
+        generation_id: generationId,
+        generation_timestamp: generationTimestamp,
+      })
+    );
 
     // Insert version records if any changes detected
     if (versionRecords.length > 0) {
@@ -290,10 +386,12 @@ export async function applySimulation(
     console.log("[PLANNER:BE] applySimulation - Deleting old plans", {
       generationId,
     });
+    // Completed and fully locked plans stay; the simulation planned around them
     const { error: deleteError } = await supabase
       .from("plans")
       .delete()
-      .neq("id", "00000000-0000-0000-0000-000000000000");
+      .eq("is_completed", false)
+      .or("lock_type.is.null,lock_type.neq.both");
 
     if (deleteError) {
       console.error("[PLANNER:BE] applySimulation - Error deleting old plans", {
@@ -334,8 +432,13 @@ export async function applySimulation(
             start_date: plan.start_date,
             end_date: plan.end_date,
             total_hours: plan.total_hours,
+            hours_spent: plan.hours_spent ?? 0,
             is_overdue: plan.is_overdue,
             days_overdue: plan.days_overdue,
+            daily_allocations: plan.daily_allocations ?? [],
+            role: plan.role ?? null,
+            lock_type: plan.lock_type ?? null,
+            explanation: plan.explanation ?? null,
             last_updated: new Date().toISOString(),
           };
         })
@@ -387,3 +490,259 @@ export async function applySimulation(
     };
   }
 }
+
+export type ScenarioInput = {
+  name: string;
+  description?: string | null;
+  author?: string | null;
+  options: SimulationOptions;
+  plans: PlanResult[];
+  unscheduled_tasks: UnscheduledTask[];
+};
+
+const SCENARIO_NAME_MAX_LENGTH = 100;
+
+/**
+ * Save a scenario's options and simulated plans, as a new scenario or over
+ * the one with the given id
+ */
+export async function saveScenario(
+  input: ScenarioInput,
+  scenarioId: number | null = null
+): Promise<ActionResult<{ id: number }>> {
+  console.log("[SCENARIOS:BE] saveScenario - Called", {
+    name: input?.name,
+    scenarioId,
+    planCount: input?.plans?.length || 0,
+  });
+  try {
+    const name = input?.name?.trim();
+    if (!name) {
+      console.log("[SCENARIOS:BE] saveScenario - Validation failed: empty name");
+      return {
+        success: false,
+        error: "Please enter a scenario name",
+      };
+    }
+
+    if (name.length > SCENARIO_NAME_MAX_LENGTH) {
+      console.log("[SCENARIOS:BE] saveScenario - Validation failed: name too long");
+      return {
+        success: false,
+        error: `Scenario names are at most ${SCENARIO_NAME_MAX_LENGTH} characters`,
+      };
+    }
+
+    if (!Array.isArray(input.plans) || input.plans.length === 0) {
+      console.log("[SCENARIOS:BE] saveScenario - Validation failed: no plans");
+      return {
+        success: false,
+        error: "Run the simulation before saving the scenario",
+      };
+    }
+
+    const windowError =
+      validatePlanWindow(input.options?.startDate, input.options?.horizonEnd) ??
+      validateSimulationLevers(input.options ?? {});
+    if (windowError) {
+      console.log("[SCENARIOS:BE] saveScenario - Validation failed: options", {
+        windowError,
+      });
+      return {
+        success: false,
+        error: windowError,
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const record = {
+      name,
+      description: input.description?.trim() || null,
+      author: input.author?.trim() || null,
+      options: input.options,
+      plans: input.plans,
+      unscheduled_tasks: input.unscheduled_tasks ?? [],
+      last_updated: new Date().toISOString(),
+    };
+    const { data, error } = scenarioId
+      ? await supabase
+          .from("scenarios")
+          .update(record)
+          .eq("id", scenarioId)
+          .select("id")
+          .single()
+      : await supabase.from("scenarios").insert(record).select("id").single();
+
+    if (error || !data) {
+      console.error("[SCENARIOS:BE] saveScenario - Supabase error", {
+        scenarioId,
+        error: error?.message,
+      });
+      return {
+        success: false,
+        error:
+          error?.code === "23505"
+            ? "A scenario with this name already exists"
+            : "Failed to save scenario. Please try again.",
+      };
+    }
+
+    revalidatePath("/planner/simulator");
+    console.log("[SCENARIOS:BE] saveScenario - Success, revalidated path", {
+      scenarioId: data.id,
+    });
+
+    return {
+      success: true,
+      data: { id: data.id },
+    };
+  } catch (error) {
+    console.error("[SCENARIOS:BE] saveScenario - Unexpected error", {
+      scenarioId,
+      error,
+    });
+    return {
+      success: false,
+      error: "Failed to save scenario",
+    };
+  }
+}
+
+/**
+ * Copy a scenario under the first free "<name> (copy)" name
+ */
+export async function duplicateScenario(
+  scenarioId: number
+): Promise<ActionResult<{ id: number }>> {
+  console.log("[SCENARIOS:BE] duplicateScenario - Called", { scenarioId });
+  try {
+    if (!scenarioId) {
+      console.log("[SCENARIOS:BE] duplicateScenario - Validation failed: missing scenarioId");
+      return {
+        success: false,
+        error: "scenario_id is required",
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const [{ data: scenario, error: fetchError }, { data: others }] = await Promise.all([
+      supabase.from("scenarios").select("*").eq("id", scenarioId).single(),
+      supabase.from("scenarios").select("name"),
+    ]);
+
+    if (fetchError || !scenario) {
+      console.error("[SCENARIOS:BE] duplicateScenario - Error fetching scenario", {
+        scenarioId,
+        error: fetchError,
+      });
+      return {
+        success: false,
+        error: "Scenario not found",
+      };
+    }
+
+    const taken = new Set((others || []).map((other: { name: string }) => other.name));
+    const base = `${scenario.name} (copy`.slice(0, SCENARIO_NAME_MAX_LENGTH - 5);
+    let name = `${base})`;
+    for (let n = 2; taken.has(name); n++) {
+      name = `${base} ${n})`;
+    }
+
+    const { data, error } = await supabase
+      .from("scenarios")
+      .insert({
+        name,
+        description: scenario.description,
+        author: scenario.author,
+        options: scenario.options,
+        plans: scenario.plans,
+        unscheduled_tasks: scenario.unscheduled_tasks,
+        last_updated: new Date().toISOString(),
+      })
+      .select("id")
+      .single();
+
+    if (error || !data) {
+      console.error("[SCENARIOS:BE] duplicateScenario - Supabase error", {
+        scenarioId,
+        error: error?.message,
+      });
+      return {
+        success: false,
+        error: "Failed to duplicate scenario",
+      };
+    }
+
+    revalidatePath("/planner/simulator");
+    console.log("[SCENARIOS:BE] duplicateScenario - Success, revalidated path", {
+      scenarioId,
+      copyId: data.id,
+      name,
+    });
+
+    return {
+      success: true,
+      data: { id: data.id },
+    };
+  } catch (error) {
+    console.error("[SCENARIOS:BE] duplicateScenario - Unexpected error", {
+      scenarioId,
+      error,
+    });
+    return {
+      success: false,
+      error: "Failed to duplicate scenario",
+    };
+  }
+}
+
+/**
+ * Delete a saved scenario
+ */
+export async function deleteScenario(scenarioId: number): Promise<ActionResult> {
+  console.log("[SCENARIOS:BE] deleteScenario - Called", { scenarioId });
+  try {
+    if (!scenarioId) {
+      console.log("[SCENARIOS:BE] deleteScenario - Validation failed: missing scenarioId");
+      return {
+        success: false,
+        error: "scenario_id is required",
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { error } = await supabase.from("scenarios").delete().eq("id", scenarioId);
+
+    if (error) {
+      console.error("[SCENARIOS:BE] deleteScenario - Supabase error", {
+        scenarioId,
+        error: error.message,
+      });
+      return {
+        success: false,
+        error: "Failed to delete scenario",
+      };
+    }
+
+    revalidatePath("/planner/simulator");
+    console.log("[SCENARIOS:BE] deleteScenario - Success, revalidated path", {
+      scenarioId,
+    });
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("[SCENARIOS:BE] deleteScenario - Unexpected error", {
+      scenarioId,
+      error,
+    });
+    return {
+      success: false,
+      error: "Failed to delete scenario",
+    };
+  }
+}
@@ -2,7 +2,9 @@ import { Suspense } from "react";
 import {
   fetchTasksForSimulator,
   fetchEmployeesForSimulator,
+  fetchScenarios,
 } from "@/lib/planner/simulator-server";
+import { fetchPlans } from "@/lib/planner/server";
 import SimulatorClient from "./SimulatorClient";
 import { TableSkeleton } from "@/components/skeletons/TableSkeleton";
 import {
@@ -24,10 +26,13 @@ export const dynamic = 'force-dynamic';
  * is shipped to the browser.
  */
 export default async function SimulatorPage() {
-  // Fetch tasks and employees data on the server in parallel
-  const [tasks, employees] = await Promise.all([
+  // Fetch tasks, employees, saved scenarios and the live plan (to compare
+  // scenarios with) on the server in parallel
+  const [tasks, employees, scenarios, livePlans] = await Promise.all([
     fetchTasksForSimulator(),
     fetchEmployeesForSimulator(),
+    fetchScenarios(),
+    fetchPlans(),
   ]);
 
   return (
@@ -87,7 +92,12 @@ export default async function SimulatorPage() {
         </div>
       }
     >
-      <SimulatorClient initialTasks={tasks} initialEmployees={employees} />
+      <SimulatorClient
+        initialTasks={tasks}
+        initialEmployees={employees}
+        initialScenarios={scenarios}
+        initialLivePlans={livePlans}
+      />
     </Suspense>
   );
 }
@@ -30,6 +30,10 @@ import { Button } from "@/components/ui/button";
 import { Download } from "lucide-react";
 import * as XLSX from "xlsx";
 import type { PlanVersionWithDetails } from "@/lib/planner/versions-server";
+import {
+  getAssignmentModeLabel,
+  getOrderingStrategyLabel,
+} from "@/lib/planner/scheduler";
 
 type VersionsClientProps = {
   initialVersions: PlanVersionWithDetails[];
@@ -146,6 +150,14 @@ export default function VersionsClient({
       "New End Date": version.new_end_date || "-",
       "Delta Days": version.delta_days,
       "Generation ID": version.generation_id || "-",
+      "Ordering Strategy": version.ordering_strategy
+        ? getOrderingStrategyLabel(version.ordering_strategy)
+        : "-",
+      "Assignment Mode": version.assignment_mode
+        ? getAssignmentModeLabel(version.assignment_mode)
+        : "-",
+      "Plan Start": version.plan_start_date || "-",
+      "Horizon End": version.horizon_end || "-",
       "Generation Timestamp": version.generation_timestamp
         ? formatDateTime(version.generation_timestamp)
         : "-",
@@ -166,6 +178,10 @@ export default function VersionsClient({
       { wch: 15 }, // New End Date
       { wch: 12 }, // Delta Days
       { wch: 40 }, // Generation ID
+      { wch: 30 }, // Ordering Strategy
+      { wch: 18 }, // Assignment Mode
+      { wch: 15 }, // Plan Start
+      { wch: 15 }, // Horizon End
       { wch: 25 }, // Generation Timestamp
     ];
     worksheet["!cols"] = columnWidths;
@@ -240,6 +256,40 @@ export default function VersionsClient({
                             ...
                           </p>
                         )}
+                        {genVersions[0]?.generation_source === "manual" ? (
+                          <div className="flex items-center gap-2 mt-2">
+                            <Badge variant="secondary" className="text-xs">
+                              Manual change
+                            </Badge>
+                          </div>
+                        ) : genVersions[0]?.ordering_strategy && (
+                          <div className="flex items-center gap-2 mt-2">
+                            <Badge variant="outline" className="text-xs">
+                              {getOrderingStrategyLabel(
+                                genVersions[0].ordering_strategy
+                              )}
+                            </Badge>
+                            {genVersions[0].assignment_mode === "earliest_finish" && (
+                              <Badge variant="outline" className="text-xs">
+                                {getAssignmentModeLabel(
+                                  genVersions[0].assignment_mode
+                                )}
+                              </Badge>
+                            )}
+                            {genVersions[0].plan_start_date && (
+                              <Badge variant="outline" className="text-xs">
+                                From {genVersions[0].plan_start_date}
+                                {genVersions[0].horizon_end &&
+                                  ` to ${genVersions[0].horizon_end}`}
+                              </Badge>
+                            )}
+                            {genVersions[0].generation_source === "simulation" && (
+                              <Badge variant="secondary" className="text-xs">
+                                Applied simulation
+                              </Badge>
+                            )}
+                          </div>
+                        )}
                       </div>
                       <div className="flex flex-col items-end gap-2">
                         <Badge variant="secondary">
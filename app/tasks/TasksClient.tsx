@@ -15,10 +15,18 @@
 
 import { useState, useTransition, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { Task, TaskInsert } from "@/types/database";
+import {
+  Employee,
+  Task,
+  TaskDependency,
+  TaskEffortLine,
+  TaskInsert,
+  TaskPriority,
+} from "@/types/database";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { toast } from "sonner";
 import {
   Dialog,
@@ -64,17 +72,58 @@ import {
   Bug,
   TrendingUp,
   Upload,
+  Link2,
 } from "lucide-react";
 import { CSVUploadDialog } from "@/components/CSVUploadDialog";
+import { SkillsEditor } from "@/components/SkillsEditor";
+import { Badge } from "@/components/ui/badge";
 import { TableSkeleton } from "@/components/skeletons/TableSkeleton";
-import { addTask, updateTask, deleteTask, bulkImportTasks } from "./actions";
+import {
+  addTask,
+  updateTask,
+  deleteTask,
+  bulkImportTasks,
+  setTaskDependencies,
+} from "./actions";
 import { formatDateLocal } from "@/lib/utils";
+import { canWorkOn } from "@/lib/planner/scheduler";
+import {
+  collectSkillNames,
+  formatSkillList,
+  getSkillLevelLabel,
+  parseSkillList,
+} from "@/lib/skills/matching";
+import {
+  EFFORT_LINE_ROLES,
+  formatEffortLines,
+  getEffortLinesTotal,
+  MAX_PARALLELISM,
+  parseEffortLines,
+  validateEffortLines,
+  validateEffortRange,
+  validateMaxParallelism,
+} from "@/lib/tasks/effortLines";
+
+const TASK_PRIORITIES: TaskPriority[] = ["Low", "Medium", "High", "Critical"];
+
+const PRIORITY_BADGE_CLASSES: Record<TaskPriority, string> = {
+  Low: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400",
+  Medium: "bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-400",
+  High: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400",
+  Critical: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+};
 
 type TasksClientProps = {
   initialTasks: Task[];
+  initialDependencies: TaskDependency[];
+  employees: Employee[];
 };
 
-export default function TasksClient({ initialTasks }: TasksClientProps) {
+export default function TasksClient({
+  initialTasks,
+  initialDependencies,
+  employees,
+}: TasksClientProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [tasks, setTasks] = useState<Task[]>(initialTasks);
@@ -99,7 +148,73 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
     title: "",
     effort_hours: 0,
     designation_required: "Developer",
+    required_skills: [],
+    effort_lines: [],
+    max_parallelism: 1,
+    effort_optimistic: null,
+    effort_pessimistic: null,
     due_date: null,
+    priority: "Medium",
+  });
+  // Predecessor task IDs selected in the form
+  const [dependsOn, setDependsOn] = useState<number[]>([]);
+
+  const skillSuggestions = collectSkillNames([
+    ...employees.map((e) => e.skills),
+    ...tasks.map((t) => t.required_skills),
+  ]);
+
+  // Form data as sent to the server, without skill rows left blank
+  const getSubmitData = () => ({
+    ...formData,
+    required_skills: (formData.required_skills || []).filter((skill) =>
+      skill.name.trim()
+    ),
+  });
+
+  // Multi-role tasks carry one effort line per role instead of a single effort
+  const isMultiRole = (formData.effort_lines || []).length > 0;
+
+  // Switch the form between a single effort and per-role effort lines
+  const setMultiRole = (enabled: boolean) => {
+    setFormData({
+      ...formData,
+      effort_lines: enabled
+        ? EFFORT_LINE_ROLES.map((designation, index) => ({
+            designation,
+            effort_hours: index === 0 ? formData.effort_hours : 0,
+          }))
+        : [],
+      designation_required: enabled ? EFFORT_LINE_ROLES[0] : formData.designation_required,
+    });
+  };
+
+  // Change one role's hours, keeping the total effort in sync
+  const setEffortLineHours = (
+    designation: TaskEffortLine["designation"],
+    hours: number
+  ) => {
+    const lines = (formData.effort_lines || []).map((line) =>
+      line.designation === designation ? { ...line, effort_hours: hours } : line
+    );
+    setFormData({
+      ...formData,
+      effort_lines: lines,
+      effort_hours: getEffortLinesTotal(lines),
+    });
+  };
+
+  // Active employees the planner could assign the task in the form to
+  const matchingEmployeeCount = employees.filter(
+    (emp) => emp.active && canWorkOn(emp, getSubmitData())
+  ).length;
+
+  // Map of task ID -> IDs of tasks it depends on
+  const dependenciesByTask = new Map<number, number[]>();
+  initialDependencies.forEach((d) => {
+    const list = dependenciesByTask.get(d.task_id) || [];
+    list.push(d.depends_on_task_id);
+    dependenciesByTask.set(d.task_id, list);
   });
 
   // Log component mount and initial data
@@ -138,6 +253,17 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
       toast.error("Please enter valid effort hours (greater than 0)");
       return;
     }
+    if (isMultiRole && formData.effort_lines!.some((line) => line.effort_hours <= 0)) {
+      console.log("[TASKS:FE] handleAddTask - Validation failed: empty effort line");
+      toast.error("Please enter hours for every role");
+      return;
+    }
+    const effortRangeError = validateEffortRange(formData);
+    if (effortRangeError) {
+      console.log("[TASKS:FE] handleAddTask - Validation failed: effort range");
+      toast.error(effortRangeError);
+      return;
+    }
     // Validate due_date if provided
     if (formData.due_date) {
       const dueDate = new Date(formData.due_date);
@@ -154,11 +280,19 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
     console.log("[TASKS:FE] handleAddTask - Calling server action", { client: formData.client, title: formData.title, effort_hours: formData.effort_hours, designation_required: formData.designation_required, due_date: formData.due_date });
     try {
       setSubmitting(true);
-      const result = await addTask(formData);
+      const result = await addTask(getSubmitData());
 
       if (!result.success) {
         console.error("[TASKS:FE] handleAddTask - Server action failed", { error: result.error });
         toast.error(result.error || "Failed to add task");
+      } else if (
+        dependsOn.length > 0 &&
+        result.data &&
+        !(await saveDependencies(result.data.id))
+      ) {
+        // Task was created; keep the dialog open so dependencies can be fixed
+        setSelectedTask({ ...formData, id: result.data.id } as Task);
+        refreshTasks();
       } else {
         console.log("[TASKS:FE] handleAddTask - Success");
         setIsDialogOpen(false);
@@ -174,6 +308,18 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
     }
   };
 
+  // Save selected predecessors for a task; returns false on failure
+  const saveDependencies = async (taskId: number): Promise<boolean> => {
+    console.log("[TASKS:FE] saveDependencies - Calling server action", { taskId, dependsOn });
+    const result = await setTaskDependencies(taskId, dependsOn);
+    if (!result.success) {
+      console.error("[TASKS:FE] saveDependencies - Server action failed", { error: result.error });
+      toast.error(result.error || "Failed to save dependencies");
+      return false;
+    }
+    return true;
+  };
+
   // Update existing task
   const handleUpdateTask = async () => {
     if (!selectedTask) return;
@@ -193,6 +339,17 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
       toast.error("Please enter valid effort hours (greater than 0)");
       return;
     }
+    if (isMultiRole && formData.effort_lines!.some((line) => line.effort_hours <= 0)) {
+      console.log("[TASKS:FE] handleUpdateTask - Validation failed: empty effort line");
+      toast.error("Please enter hours for every role");
+      return;
+    }
+    const effortRangeError = validateEffortRange(formData);
+    if (effortRangeError) {
+      console.log("[TASKS:FE] handleUpdateTask - Validation failed: effort range");
+      toast.error(effortRangeError);
+      return;
+    }
     // Validate due_date if provided
     if (formData.due_date) {
       const dueDate = new Date(formData.due_date);
@@ -209,11 +366,13 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
     console.log("[TASKS:FE] handleUpdateTask - Calling server action", { id: selectedTask.id, client: formData.client, title: formData.title, effort_hours: formData.effort_hours, designation_required: formData.designation_required, due_date: formData.due_date });
     try {
       setSubmitting(true);
-      const result = await updateTask(selectedTask.id, formData);
+      const result = await updateTask(selectedTask.id, getSubmitData());
 
       if (!result.success) {
         console.error("[TASKS:FE] handleUpdateTask - Server action failed", { error: result.error });
         toast.error(result.error || "Failed to update task");
+      } else if (!(await saveDependencies(selectedTask.id))) {
+        refreshTasks();
       } else {
         console.log("[TASKS:FE] handleUpdateTask - Success");
         setIsDialogOpen(false);
@@ -273,8 +432,15 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
       title: task.title,
       effort_hours: task.effort_hours,
       designation_required: task.designation_required,
+      required_skills: task.required_skills ?? [],
+      effort_lines: task.effort_lines ?? [],
+      max_parallelism: task.max_parallelism ?? 1,
+      effort_optimistic: task.effort_optimistic ?? null,
+      effort_pessimistic: task.effort_pessimistic ?? null,
       due_date: (task as any).due_date || null,
+      priority: task.priority || "Medium",
     });
+    setDependsOn(dependenciesByTask.get(task.id) || []);
     setIsDialogOpen(true);
   };
 
@@ -292,8 +458,15 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
       title: "",
       effort_hours: 0,
       designation_required: "Developer",
+      required_skills: [],
+      effort_lines: [],
+      max_parallelism: 1,
+      effort_optimistic: null,
+      effort_pessimistic: null,
       due_date: null,
+      priority: "Medium",
     });
+    setDependsOn([]);
     setSelectedTask(null);
   };
 
@@ -313,6 +486,8 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
 
     for (const row of rows) {
       try {
+        const parsedSkills = parseSkillList(row.required_skills, 1);
+        const parsedLines = parseEffortLines(row.effort_lines);
         const task: TaskInsert = {
           title: row.title?.trim() || "",
           client: row.client?.trim() || "",
@@ -321,6 +496,24 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
             (row.designation_required?.trim() as "Developer" | "QA") ||
             "Developer",
           due_date: row.due_date?.trim() || null,
+          priority: (row.priority?.trim() as TaskPriority) || "Medium",
+          required_skills:
+            "skills" in parsedSkills
+              ? parsedSkills.skills.map((skill) => ({
+                  name: skill.name,
+                  min_level: skill.level,
+                }))
+              : [],
+          effort_lines: "lines" in parsedLines ? parsedLines.lines : [],
+          max_parallelism: row.max_parallelism?.trim()
+            ? Number(row.max_parallelism.trim())
+            : 1,
+          effort_optimistic: row.effort_optimistic?.trim()
+            ? Number(row.effort_optimistic.trim())
+            : null,
+          effort_pessimistic: row.effort_pessimistic?.trim()
+            ? Number(row.effort_pessimistic.trim())
+            : null,
         };
 
         // Validate
@@ -351,6 +544,45 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
           continue;
         }
 
+        if (task.priority && !TASK_PRIORITIES.includes(task.priority)) {
+          errors.push(
+            `Row "${task.title}": Invalid priority. Must be Low, Medium, High or Critical`
+          );
+          continue;
+        }
+
+        if ("error" in parsedSkills) {
+          errors.push(`Row "${task.title}": ${parsedSkills.error}`);
+          continue;
+        }
+
+        const linesError =
+          "error" in parsedLines
+            ? parsedLines.error
+            : validateEffortLines(parsedLines.lines);
+        if (linesError) {
+          errors.push(`Row "${task.title}": ${linesError}`);
+          continue;
+        }
+
+        const parallelismError = validateMaxParallelism(task.max_parallelism);
+        if (parallelismError) {
+          errors.push(`Row "${task.title}": ${parallelismError}`);
+          continue;
+        }
+
+        const rangeError = validateEffortRange({
+          ...task,
+          effort_hours:
+            "lines" in parsedLines && parsedLines.lines.length > 0
+              ? getEffortLinesTotal(parsedLines.lines)
+              : task.effort_hours,
+        });
+        if (rangeError) {
+          errors.push(`Row "${task.title}": ${rangeError}`);
+          continue;
+        }
+
         validRows.push(task);
       } catch (error: any) {
         errors.push(`Row parsing error: ${error.message}`);
@@ -548,21 +780,143 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
                     </div>
                     <div className="grid gap-2">
                       <Label htmlFor="effort_hours">Effort (Hours) *</Label>
-                      <Input
-                        id="effort_hours"
-                        type="number"
-                        min="0"
-                        step="0.5"
-                        placeholder="Enter effort in hours"
-                        value={formData.effort_hours || ""}
-                        onChange={(e) =>
-                          setFormData({
-                            ...formData,
-                            effort_hours: parseFloat(e.target.value) || 0,
-                          })
-                        }
-                        disabled={submitting}
-                      />
+                      {isMultiRole ? (
+                        <div className="grid grid-cols-2 gap-2">
+                          {formData.effort_lines!.map((line) => (
+                            <div key={line.designation} className="grid gap-1">
+                              <Label
+                                htmlFor={`effort_${line.designation}`}
+                                className="text-xs text-muted-foreground"
+                              >
+                                {line.designation} hours
+                              </Label>
+                              <Input
+                                id={`effort_${line.designation}`}
+                                type="number"
+                                min="0"
+                                step="0.5"
+                                value={line.effort_hours || ""}
+                                onChange={(e) =>
+                                  setEffortLineHours(
+                                    line.designation,
+                                    parseFloat(e.target.value) || 0
+                                  )
+                                }
+                                disabled={submitting}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <Input
+                          id="effort_hours"
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          placeholder="Enter effort in hours"
+                          value={formData.effort_hours || ""}
+                          onChange={(e) =>
+                            setFormData({
+                              ...formData,
+                              effort_hours: parseFloat(e.target.value) || 0,
+                            })
+                          }
+                          disabled={submitting}
+                        />
+                      )}
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id="multi_role"
+                          checked={isMultiRole}
+                          onCheckedChange={(checked) => setMultiRole(checked === true)}
+                          disabled={submitting}
+                        />
+                        <Label htmlFor="multi_role" className="text-sm font-normal">
+                          Split effort between Developer and QA
+                        </Label>
+                      </div>
+                      {isMultiRole && (
+                        <p className="text-xs text-muted-foreground">
+                          {formData.effort_hours} hours in total. QA starts once
+                          development is finished.
+                        </p>
+                      )}
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id="splittable"
+                          checked={(formData.max_parallelism ?? 1) > 1}
+                          onCheckedChange={(checked) =>
+                            setFormData({
+                              ...formData,
+                              max_parallelism: checked === true ? 2 : 1,
+                            })
+                          }
+                          disabled={submitting}
+                        />
+                        <Label htmlFor="splittable" className="text-sm font-normal">
+                          Splittable: share the work between up to
+                        </Label>
+                        <Input
+                          id="max_parallelism"
+                          type="number"
+                          min="2"
+                          max={MAX_PARALLELISM}
+                          step="1"
+                          className="h-8 w-16"
+                          value={formData.max_parallelism ?? 1}
+                          onChange={(e) =>
+                            setFormData({
+                              ...formData,
+                              max_parallelism: parseInt(e.target.value, 10) || 1,
+                            })
+                          }
+                          disabled={submitting || (formData.max_parallelism ?? 1) <= 1}
+                        />
+                        <span className="text-sm">people</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor="effort_optimistic" className="text-sm font-normal">
+                          Range (optional):
+                        </Label>
+                        <Input
+                          id="effort_optimistic"
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          className="h-8 w-20"
+                          placeholder="Best"
+                          value={formData.effort_optimistic ?? ""}
+                          onChange={(e) =>
+                            setFormData({
+                              ...formData,
+                              effort_optimistic: parseFloat(e.target.value) || null,
+                            })
+                          }
+                          disabled={submitting}
+                        />
+                        <span className="text-sm">to</span>
+                        <Input
+                          id="effort_pessimistic"
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          className="h-8 w-20"
+                          placeholder="Worst"
+                          value={formData.effort_pessimistic ?? ""}
+                          onChange={(e) =>
+                            setFormData({
+                              ...formData,
+                              effort_pessimistic: parseFloat(e.target.value) || null,
+                            })
+                          }
+                          disabled={submitting}
+                        />
+                        <span className="text-sm">hours</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Best and worst case around the effort above, for the
+                        simulator&apos;s delivery forecast.
+                      </p>
                     </div>
                     <div className="grid gap-2">
                       <Label htmlFor="designation">Designation Required *</Label>
@@ -574,7 +928,7 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
                             designation_required: value,
                           })
                         }
-                        disabled={submitting}
+                        disabled={submitting || isMultiRole}
                       >
                         <SelectTrigger id="designation">
                           <SelectValue placeholder="Select designation" />
@@ -584,6 +938,65 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
                           <SelectItem value="QA">QA</SelectItem>
                         </SelectContent>
                       </Select>
+                      {isMultiRole && (
+                        <p className="text-xs text-muted-foreground">
+                          Required skills below apply to the Developer part.
+                        </p>
+                      )}
+                    </div>
+                    <div className="grid gap-2">
+                      <Label>Required Skills (Optional)</Label>
+                      <SkillsEditor
+                        id="task-skills"
+                        value={(formData.required_skills || []).map((r) => ({
+                          name: r.name,
+                          level: r.min_level,
+                        }))}
+                        onChange={(skills) =>
+                          setFormData({
+                            ...formData,
+                            required_skills: skills.map((skill) => ({
+                              name: skill.name,
+                              min_level: skill.level,
+                            })),
+                          })
+                        }
+                        suggestions={skillSuggestions}
+                        defaultLevel={1}
+                        addLabel="Add required skill"
+                        disabled={submitting}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        {(formData.required_skills || []).some((r) => r.name.trim())
+                          ? "Only employees with all of these skills at or above the level can take this task."
+                          : "Without required skills, any employee with the designation can take this task."}{" "}
+                        {matchingEmployeeCount} active employee
+                        {matchingEmployeeCount !== 1 ? "s" : ""} match.
+                      </p>
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="priority">Priority</Label>
+                      <Select
+                        value={formData.priority || "Medium"}
+                        onValueChange={(value: TaskPriority) =>
+                          setFormData({
+                            ...formData,
+                            priority: value,
+                          })
+                        }
+                        disabled={submitting}
+                      >
+                        <SelectTrigger id="priority">
+                          <SelectValue placeholder="Select priority" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TASK_PRIORITIES.map((priority) => (
+                            <SelectItem key={priority} value={priority}>
+                              {priority}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
                     <div className="grid gap-2">
                       <Label htmlFor="due_date">Due Date (Optional)</Label>
@@ -604,6 +1017,47 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
                         Task must be completed by this date
                       </p>
                     </div>
+                    <div className="grid gap-2">
+                      <Label>Depends On (Optional)</Label>
+                      {tasks.filter((t) => t.id !== selectedTask?.id).length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                          No other tasks available
+                        </p>
+                      ) : (
+                        <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-2">
+                          {tasks
+                            .filter((t) => t.id !== selectedTask?.id)
+                            .map((t) => (
+                              <div key={t.id} className="flex items-center gap-2">
+                                <Checkbox
+                                  id={`depends-on-${t.id}`}
+                                  checked={dependsOn.includes(t.id)}
+                                  onCheckedChange={(checked) =>
+                                    setDependsOn(
+                                      checked
+                                        ? [...dependsOn, t.id]
+                                        : dependsOn.filter((id) => id !== t.id)
+                                    )
+                                  }
+                                  disabled={submitting}
+                                />
+                                <Label
+                                  htmlFor={`depends-on-${t.id}`}
+                                  className="text-sm font-normal cursor-pointer"
+                                >
+                                  #{t.id} {t.title}{" "}
+                                  <span className="text-muted-foreground">
+                                    ({t.client})
+                                  </span>
+                                </Label>
+                              </div>
+                            ))}
+                        </div>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        This task will not start until the selected tasks are finished
+                      </p>
+                    </div>
                   </div>
                   <DialogFooter>
                     <Button
@@ -692,7 +1146,7 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
 
           {isPending ? (
             <div className="rounded-lg border overflow-hidden">
-              <TableSkeleton rows={6} columns={6} />
+              <TableSkeleton rows={6} columns={8} />
             </div>
           ) : tasks.length === 0 ? (
             <div className="text-center py-12">
@@ -732,6 +1186,12 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
                     <TableHead className="w-[160px] font-semibold">
                       Designation
                     </TableHead>
+                    <TableHead className="w-[110px] font-semibold">
+                      Priority
+                    </TableHead>
+                    <TableHead className="w-[140px] font-semibold">
+                      Depends On
+                    </TableHead>
                     <TableHead className="w-[150px] text-right font-semibold">
                       Actions
                     </TableHead>
@@ -761,6 +1221,23 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
                             {task.effort_hours === 1 ? "hr" : "hrs"}
                           </span>
                         </div>
+                        {(task.effort_lines || []).length > 0 && (
+                          <div className="mt-1 text-xs text-muted-foreground">
+                            {formatEffortLines(task.effort_lines)}
+                          </div>
+                        )}
+                        {(task.max_parallelism ?? 1) > 1 && (
+                          <div className="mt-1 text-xs text-muted-foreground">
+                            Split across up to {task.max_parallelism} people
+                          </div>
+                        )}
+                        {(task.effort_optimistic != null ||
+                          task.effort_pessimistic != null) && (
+                          <div className="mt-1 text-xs text-muted-foreground">
+                            Range {task.effort_optimistic ?? task.effort_hours}–
+                            {task.effort_pessimistic ?? task.effort_hours} hrs
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
@@ -779,6 +1256,56 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
                             {task.designation_required}
                           </span>
                         </div>
+                        {(task.required_skills || []).length > 0 && (
+                          <div
+                            className="mt-1 flex flex-wrap gap-1"
+                            title={`Requires ${formatSkillList(task.required_skills)}`}
+                          >
+                            {task.required_skills!.map((skill) => (
+                              <Badge
+                                key={skill.name}
+                                variant="secondary"
+                                title={`${getSkillLevelLabel(skill.min_level)} or above`}
+                              >
+                                {skill.name} ≥ {skill.min_level}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <span
+                          className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold ${
+                            PRIORITY_BADGE_CLASSES[task.priority || "Medium"]
+                          }`}
+                        >
+                          {task.priority || "Medium"}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        {(dependenciesByTask.get(task.id) || []).length > 0 ? (
+                          <div
+                            className="flex items-center gap-1 flex-wrap"
+                            title={(dependenciesByTask.get(task.id) || [])
+                              .map(
+                                (id) =>
+                                  tasks.find((t) => t.id === id)?.title || `#${id}`
+                              )
+                              .join(", ")}
+                          >
+                            <Link2 className="h-3.5 w-3.5 text-muted-foreground" />
+                            {(dependenciesByTask.get(task.id) || []).map((id) => (
+                              <span
+                                key={id}
+                                className="text-xs font-medium text-muted-foreground"
+                              >
+                                #{id}
+                              </span>
+                            ))}
+                          </div>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">—</span>
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
@@ -851,7 +1378,7 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
         open={csvDialogOpen}
         onOpenChange={setCsvDialogOpen}
         title="Upload Tasks CSV"
-        description="Upload or paste CSV data to bulk import tasks. Expected columns: title, client, effort_hours, designation_required, due_date (optional)"
+        description="Upload or paste CSV data to bulk import tasks. Expected columns: title, client, effort_hours, designation_required, due_date (optional), priority (optional), required_skills (optional, e.g. React:2; SQL with minimum levels 1-4), effort_lines (optional, e.g. Developer:24; QA:8 to split the effort between roles), max_parallelism (optional, most people to share the work, default 1), effort_optimistic and effort_pessimistic (optional, best and worst case hours around effort_hours)"
         columns={[
           {
             key: "title",
@@ -891,9 +1418,59 @@ export default function TasksClient({ initialTasks }: TasksClientProps) {
             label: "Due Date (Optional)",
             required: false,
           },
+          {
+            key: "priority",
+            label: "Priority (Optional)",
+            required: false,
+            validator: (value) => {
+              if (value && !TASK_PRIORITIES.includes(value as TaskPriority)) {
+                return "Must be Low, Medium, High or Critical";
+              }
+              return null;
+            },
+          },
+          {
+            key: "required_skills",
+            label: "Required Skills (Optional)",
+            required: false,
+            validator: (value) => {
+              const parsed = parseSkillList(value, 1);
+              return "error" in parsed ? parsed.error : null;
+            },
+          },
+          {
+            key: "effort_lines",
+            label: "Effort Lines (Optional)",
+            required: false,
+            validator: (value) => {
+              const parsed = parseEffortLines(value);
+              return "error" in parsed ? parsed.error : null;
+            },
+          },
+          {
+            key: "max_parallelism",
+            label: "Max Parallelism (Optional)",
+            required: false,
+            validator: (value) =>
+              value ? validateMaxParallelism(Number(value)) : null,
+          },
+          {
+            key: "effort_optimistic",
+            label: "Optimistic Effort (Optional)",
+            required: false,
+            validator: (value) =>
+              value && !(Number(value) > 0) ? "Must be a positive number" : null,
+          },
+          {
+            key: "effort_pessimistic",
+            label: "Pessimistic Effort (Optional)",
+            required: false,
+            validator: (value) =>
+              value && !(Number(value) > 0) ? "Must be a positive number" : null,
+          },
         ]}
         onImport={handleCSVImport}
-        sampleData="Build API,Client A,24,Developer,2024-12-31\nUI Testing,Client B,16,QA,2024-12-15"
+        sampleData="Build API,Client A,24,Developer,2024-12-31,High,Node.js:2; SQL,,,16,40\nUI Testing,Client B,16,QA,2024-12-15,Medium,Cypress:3,,,,\nCheckout Flow,Client A,32,Developer,2025-01-15,High,React:2,Developer:24; QA:8,,,\nData Migration,Client C,200,Developer,2025-02-28,Medium,SQL:3,,3,160,300"
       />
     </div>
   );
@@ -9,6 +9,15 @@
 
 import { revalidatePath } from "next/cache";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { findDependencyCycle } from "@/lib/planner/scheduler";
+import { validateSkills } from "@/lib/skills/matching";
+import {
+  getEffortLinesTotal,
+  sortEffortLines,
+  validateEffortLines,
+  validateEffortRange,
+  validateMaxParallelism,
+} from "@/lib/tasks/effortLines";
 import type { TaskInsert } from "@/types/database";
 
 export type ActionResult<T = void> = {
@@ -17,12 +26,29 @@ export type ActionResult<T = void> = {
   data?: T;
 };
 
+/**
+ * Derive effort_hours and designation_required from a task's effort lines
+ * so multi-role tasks stay consistent with code reading only the totals
+ */
+function withEffortLines<T extends TaskInsert>(task: T): T {
+  if (!task.effort_lines || task.effort_lines.length === 0) {
+    return { ...task, effort_lines: [] };
+  }
+  const lines = sortEffortLines(task.effort_lines);
+  return {
+    ...task,
+    effort_lines: lines,
+    effort_hours: getEffortLinesTotal(lines),
+    designation_required: lines[0].designation,
+  };
+}
+
 /**
  * Add a new task
  */
 export async function addTask(
   task: TaskInsert & { due_date?: string | null }
-): Promise<ActionResult> {
+): Promise<ActionResult<{ id: number }>> {
   console.log("[TASKS:ACTION] addTask called", { client: task.client, title: task.title, effort_hours: task.effort_hours, designation_required: task.designation_required, due_date: task.due_date });
   try {
     // Validate inputs
@@ -65,12 +91,49 @@ export async function addTask(
       }
     }
 
+    const skillsError = validateSkills(task.required_skills);
+    if (skillsError) {
+      console.log("[TASKS:ACTION] addTask - Validation failed: required skills", { required_skills: task.required_skills });
+      return {
+        success: false,
+        error: skillsError,
+      };
+    }
+
+    const effortLinesError = validateEffortLines(task.effort_lines);
+    if (effortLinesError) {
+      console.log("[TASKS:ACTION] addTask - Validation failed: effort lines", { effort_lines: task.effort_lines });
+      return {
+        success: false,
+        error: effortLinesError,
+      };
+    }
+
+    const parallelismError = validateMaxParallelism(task.max_parallelism);
+    if (parallelismError) {
+      console.log("[TASKS:ACTION] addTask - Validation failed: max parallelism", { max_parallelism: task.max_parallelism });
+      return {
+        success: false,
+        error: parallelismError,
+      };
+    }
+
+    const effortRangeError = validateEffortRange(withEffortLines(task));
+    if (effortRangeError) {
+      console.log("[TASKS:ACTION] addTask - Validation failed: effort range", { effort_optimistic: task.effort_optimistic, effort_pessimistic: task.effort_pessimistic });
+      return {
+        success: false,
+        error: effortRangeError,
+      };
+    }
+
     const supabase = createServerSupabaseClient();
 
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from("tasks")
-      .insert([{ ...task, last_updated: new Date().toISOString() }])
-      .select();
+      .insert([{ ...withEffortLines(task), last_updated: new Date().toISOString() }])
+      .select("id")
+      .single();
 
     if (error) {
       console.error("[TASKS:ACTION] addTask - Supabase error:", error);
@@ -87,6 +150,7 @@ export async function addTask(
 
     return {
       success: true,
+      data: { id: data.id },
     };
   } catch (error: any) {
     console.error("[TASKS:ACTION] addTask - Unexpected error:", error);
@@ -146,11 +210,47 @@ export async function updateTask(
       }
     }
 
+    const skillsError = validateSkills(task.required_skills);
+    if (skillsError) {
+      console.log("[TASKS:ACTION] updateTask - Validation failed: required skills", { required_skills: task.required_skills });
+      return {
+        success: false,
+        error: skillsError,
+      };
+    }
+
+    const effortLinesError = validateEffortLines(task.effort_lines);
+    if (effortLinesError) {
+      console.log("[TASKS:ACTION] updateTask - Validation failed: effort lines", { effort_lines: task.effort_lines });
+      return {
+        success: false,
+        error: effortLinesError,
+      };
+    }
+
+    const parallelismError = validateMaxParallelism(task.max_parallelism);
+    if (parallelismError) {
+      console.log("[TASKS:ACTION] updateTask - Validation failed: max parallelism", { max_parallelism: task.max_parallelism });
+      return {
+        success: false,
+        error: parallelismError,
+      };
+    }
+
+    const effortRangeError = validateEffortRange(withEffortLines(task));
+    if (effortRangeError) {
+      console.log("[TASKS:ACTION] updateTask - Validation failed: effort range", { effort_optimistic: task.effort_optimistic, effort_pessimistic: task.effort_pessimistic });
+      return {
+        success: false,
+        error: effortRangeError,
+      };
+    }
+
     const supabase = createServerSupabaseClient();
 
     const { error } = await supabase
       .from("tasks")
-      .update({ ...task, last_updated: new Date().toISOString() })
+      .update({ ...withEffortLines(task), last_updated: new Date().toISOString() })
       .eq("id", id);
 
     if (error) {
@@ -215,6 +315,303 @@ export async function deleteTask(id: number): Promise<ActionResult> {
   }
 }
 
+/**
+ * Check whether replacing a task's predecessors would create a cycle
+ * Returns a readable error message listing the loop, or null if valid
+ */
+async function validateDependencies(
+  supabase: ReturnType<typeof createServerSupabaseClient>,
+  taskId: number,
+  dependsOnTaskIds: number[]
+): Promise<string | null> {
+  const { data: existing, error } = await supabase
+    .from("task_dependencies")
+    .select("task_id, depends_on_task_id");
+
+  if (error) {
+    console.error("[TASKS:ACTION] validateDependencies - Supabase error:", error);
+    return "Failed to validate dependencies. Please try again.";
+  }
+
+  const proposed = [
+    ...(existing || []).filter((d) => d.task_id !== taskId),
+    ...dependsOnTaskIds.map((id) => ({ task_id: taskId, depends_on_task_id: id })),
+  ];
+
+  const cycle = findDependencyCycle(
+    proposed.map((d) => ({
+      task_id: String(d.task_id),
+      depends_on_task_id: String(d.depends_on_task_id),
+    }))
+  );
+  if (!cycle) return null;
+
+  const { data: cycleTasks } = await supabase
+    .from("tasks")
+    .select("id, title")
+    .in("id", cycle.map(Number));
+
+  const titles = new Map(
+    (cycleTasks || []).map((t) => [String(t.id), t.title as string])
+  );
+  const path = [...cycle, cycle[0]]
+    .map((id) => titles.get(id) || `#${id}`)
+    .join(" → ");
+  return `These dependencies would create a cycle: ${path}`;
+}
+
+/**
+ * Mark a task as modified so the planner detects that recalculation is needed
+ */
+async function touchTask(
+  supabase: ReturnType<typeof createServerSupabaseClient>,
+  taskId: number
+): Promise<void> {
+  await supabase
+    .from("tasks")
+    .update({ last_updated: new Date().toISOString() })
+    .eq("id", taskId);
+}
+
+/**
+ * Add a single dependency: taskId cannot start before dependsOnTaskId ends
+ */
+export async function addTaskDependency(
+  taskId: number,
+  dependsOnTaskId: number
+): Promise<ActionResult> {
+  console.log("[TASKS:ACTION] addTaskDependency called", { taskId, dependsOnTaskId });
+  try {
+    if (!taskId || !dependsOnTaskId) {
+      console.log("[TASKS:ACTION] addTaskDependency - Validation failed: missing task");
+      return {
+        success: false,
+        error: "Please select both tasks",
+      };
+    }
+
+    if (taskId === dependsOnTaskId) {
+      console.log("[TASKS:ACTION] addTaskDependency - Validation failed: self dependency");
+      return {
+        success: false,
+        error: "A task cannot depend on itself",
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: current, error: fetchError } = await supabase
+      .from("task_dependencies")
+      .select("depends_on_task_id")
+      .eq("task_id", taskId);
+
+    if (fetchError) {
+      console.error("[TASKS:ACTION] addTaskDependency - Supabase error:", fetchError);
+      return {
+        success: false,
+        error: "Failed to add dependency. Please try again.",
+      };
+    }
+
+    const currentIds = (current || []).map((d) => d.depends_on_task_id as number);
+    if (currentIds.includes(dependsOnTaskId)) {
+      console.log("[TASKS:ACTION] addTaskDependency - Validation failed: duplicate");
+      return {
+        success: false,
+        error: "This dependency already exists",
+      };
+    }
+
+    const cycleError = await validateDependencies(supabase, taskId, [
+      ...currentIds,
+      dependsOnTaskId,
+    ]);
+    if (cycleError) {
+      console.log("[TASKS:ACTION] addTaskDependency - Validation failed: cycle", { cycleError });
+      return {
+        success: false,
+        error: cycleError,
+      };
+    }
+
+    const { error } = await supabase
+      .from("task_dependencies")
+      .insert({ task_id: taskId, depends_on_task_id: dependsOnTaskId });
+
+    if (error) {
+      console.error("[TASKS:ACTION] addTaskDependency - Supabase error:", error);
+      return {
+        success: false,
+        error: "Failed to add dependency. Please try again.",
+      };
+    }
+
+    await touchTask(supabase, taskId);
+
+    revalidatePath("/tasks");
+    revalidatePath("/planner");
+    console.log("[TASKS:ACTION] addTaskDependency - Success, revalidated paths");
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("[TASKS:ACTION] addTaskDependency - Unexpected error:", error);
+    return {
+      success: false,
+      error: "An unexpected error occurred.",
+    };
+  }
+}
+
+/**
+ * Remove a single dependency
+ */
+export async function removeTaskDependency(
+  taskId: number,
+  dependsOnTaskId: number
+): Promise<ActionResult> {
+  console.log("[TASKS:ACTION] removeTaskDependency called", { taskId, dependsOnTaskId });
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { error } = await supabase
+      .from("task_dependencies")
+      .delete()
+      .eq("task_id", taskId)
+      .eq("depends_on_task_id", dependsOnTaskId);
+
+    if (error) {
+      console.error("[TASKS:ACTION] removeTaskDependency - Supabase error:", error);
+      return {
+        success: false,
+        error: "Failed to remove dependency. Please try again.",
+      };
+    }
+
+    await touchTask(supabase, taskId);
+
+    revalidatePath("/tasks");
+    revalidatePath("/planner");
+    console.log("[TASKS:ACTION] removeTaskDependency - Success, revalidated paths");
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("[TASKS:ACTION] removeTaskDependency - Unexpected error:", error);
+    return {
+      success: false,
+      error: "An unexpected error occurred.",
+    };
+  }
+}
+
+/**
+ * Replace all predecessors of a task (used by the task form)
+ */
+export async function setTaskDependencies(
+  taskId: number,
+  dependsOnTaskIds: number[]
+): Promise<ActionResult> {
+  console.log("[TASKS:ACTION] setTaskDependencies called", { taskId, dependsOnTaskIds });
+  try {
+    const uniqueIds = [...new Set(dependsOnTaskIds)];
+
+    if (uniqueIds.includes(taskId)) {
+      console.log("[TASKS:ACTION] setTaskDependencies - Validation failed: self dependency");
+      return {
+        success: false,
+        error: "A task cannot depend on itself",
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const cycleError = await validateDependencies(supabase, taskId, uniqueIds);
+    if (cycleError) {
+      console.log("[TASKS:ACTION] setTaskDependencies - Validation failed: cycle", { cycleError });
+      return {
+        success: false,
+        error: cycleError,
+      };
+    }
+
+    const { data: current, error: fetchError } = await supabase
+      .from("task_dependencies")
+      .select("depends_on_task_id")
+      .eq("task_id", taskId);
+
+    if (fetchError) {
+      console.error("[TASKS:ACTION] setTaskDependencies - Supabase error:", fetchError);
+      return {
+        success: false,
+        error: "Failed to save dependencies. Please try again.",
+      };
+    }
+
+    const currentIds = (current || []).map((d) => d.depends_on_task_id as number);
+    const toRemove = currentIds.filter((id) => !uniqueIds.includes(id));
+    const toAdd = uniqueIds.filter((id) => !currentIds.includes(id));
+
+    if (toRemove.length === 0 && toAdd.length === 0) {
+      console.log("[TASKS:ACTION] setTaskDependencies - No changes");
+      return {
+        success: true,
+      };
+    }
+
+    if (toRemove.length > 0) {
+      const { error } = await supabase
+        .from("task_dependencies")
+        .delete()
+        .eq("task_id", taskId)
+        .in("depends_on_task_id", toRemove);
+
+      if (error) {
+        console.error("[TASKS:ACTION] setTaskDependencies - Supabase error on delete:", error);
+        return {
+          success: false,
+          error: "Failed to save dependencies. Please try again.",
+        };
+      }
+    }
+
+    if (toAdd.length > 0) {
+      const { error } = await supabase
+        .from("task_dependencies")
+        .insert(toAdd.map((id) => ({ task_id: taskId, depends_on_task_id: id })));
+
+      if (error) {
+        console.error("[TASKS:ACTION] setTaskDependencies - Supabase error on insert:", error);
+        return {
+          success: false,
+          error: "Failed to save dependencies. Please try again.",
+        };
+      }
+    }
+
+    await touchTask(supabase, taskId);
+
+    revalidatePath("/tasks");
+    revalidatePath("/planner");
+    console.log("[TASKS:ACTION] setTaskDependencies - Success, revalidated paths", {
+      added: toAdd.length,
+      removed: toRemove.length,
+    });
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error("[TASKS:ACTION] setTaskDependencies - Unexpected error:", error);
+    return {
+      success: false,
+      error: "An unexpected error occurred.",
+    };
+  }
+}
+
 /**
  * Bulk import tasks from CSV data
  * Optimized with chunking for large datasets (>1000 rows)
@@ -235,11 +632,47 @@ export async function bulkImportTasks(
       };
     }
 
+    const invalidSkillsRow = tasks.find((task) => validateSkills(task.required_skills));
+    if (invalidSkillsRow) {
+      console.log("[TASKS:BE] bulkImportTasks - Validation failed: required skills", { title: invalidSkillsRow.title });
+      return {
+        success: false,
+        error: `Task "${invalidSkillsRow.title}": ${validateSkills(invalidSkillsRow.required_skills)}`,
+      };
+    }
+
+    const invalidLinesRow = tasks.find((task) => validateEffortLines(task.effort_lines));
+    if (invalidLinesRow) {
+      console.log("[TASKS:BE] bulkImportTasks - Validation failed: effort lines", { title: invalidLinesRow.title });
+      return {
+        success: false,
+        error: `Task "${invalidLinesRow.title}": ${validateEffortLines(invalidLinesRow.effort_lines)}`,
+      };
+    }
+
+    const invalidParallelismRow = tasks.find((task) => validateMaxParallelism(task.max_parallelism));
+    if (invalidParallelismRow) {
+      console.log("[TASKS:BE] bulkImportTasks - Validation failed: max parallelism", { title: invalidParallelismRow.title });
+      return {
+        success: false,
+        error: `Task "${invalidParallelismRow.title}": ${validateMaxParallelism(invalidParallelismRow.max_parallelism)}`,
+      };
+    }
+
+    const invalidRangeRow = tasks.find((task) => validateEffortRange(withEffortLines(task)));
+    if (invalidRangeRow) {
+      console.log("[TASKS:BE] bulkImportTasks - Validation failed: effort range", { title: invalidRangeRow.title });
+      return {
+        success: false,
+        error: `Task "${invalidRangeRow.title}": ${validateEffortRange(withEffortLines(invalidRangeRow))}`,
+      };
+    }
+
     const supabase = createServerSupabaseClient();
 
     // Prepare data with timestamps
     const tasksWithTimestamp = tasks.map((task) => ({
-      ...task,
+      ...withEffortLines(task),
       last_updated: new Date().toISOString(),
     }));
 
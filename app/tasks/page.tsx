@@ -1,5 +1,6 @@
 import { Suspense } from "react";
-import { fetchTasks } from "@/lib/tasks/server";
+import { fetchTasks, fetchTaskDependencies } from "@/lib/tasks/server";
+import { fetchEmployees } from "@/lib/employees/server";
 import TasksClient from "./TasksClient";
 import { TableSkeleton } from "@/components/skeletons/TableSkeleton";
 import {
@@ -20,9 +21,13 @@ export const dynamic = 'force-dynamic';
  * is shipped to the browser.
  */
 export default async function TasksPage() {
-  // Fetch tasks data on the server
+  // Fetch tasks, their dependencies and employees (for skill matching) in parallel
   console.log("[TASKS:BE] Page load - Fetching tasks data");
-  const tasks = await fetchTasks();
+  const [tasks, dependencies, employees] = await Promise.all([
+    fetchTasks(),
+    fetchTaskDependencies(),
+    fetchEmployees(),
+  ]);
   console.log(`[TASKS:BE] Page load - Fetched ${tasks.length} tasks`);
 
   return (
@@ -60,7 +65,11 @@ export default async function TasksPage() {
         </div>
       }
     >
-      <TasksClient initialTasks={tasks} />
+      <TasksClient
+        initialTasks={tasks}
+        initialDependencies={dependencies}
+        employees={employees}
+      />
     </Suspense>
   );
 }
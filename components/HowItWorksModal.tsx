@@ -40,19 +40,19 @@ export function HowItWorksModal() {
               <div>
                 <p className="font-semibold text-sm mb-1">Step 1: Gather Data</p>
                 <p className="text-sm text-muted-foreground">
-                  Collects all employees, tasks, and leave dates from your database.
+                  Collects all employees, tasks, leave dates, and holiday calendars from your database.
                 </p>
               </div>
               <div>
                 <p className="font-semibold text-sm mb-1">Step 2: Match & Assign</p>
                 <p className="text-sm text-muted-foreground">
-                  For each task, finds employees with matching skills, selects the least-loaded employee for fairness, and skips weekends and leave days.
+                  For each task, finds employees holding all required skills at the required level (or the task designation when it lists none), selects the least-loaded employee for fairness (or, in Earliest finish mode, the one who would complete the task soonest), and skips days outside each employee work week (Mon–Fri unless set on the employee or holiday calendar), leave days, and public holidays from their holiday calendar. Half-day and hourly leaves only reduce the hours available that day. Tasks split between Developer and QA effort are scheduled part by part, with QA starting after development ends. Splittable tasks are shared between several matching employees working in parallel. Plans locked from the planner keep their assignee, dates, or both when the plan is regenerated. Plans dragged to another day or employee on the Timeline tab are locked where they were dropped. With Minimise lateness ticked, the planner then spends a few seconds trying other task orders and assignees and keeps the plan with the fewest priority-weighted days overdue. The Why? button on each plan row shows the candidates considered, their loads, the days skipped and the reason the assignee and dates were chosen. Plans start today unless another Plan from date is chosen, and an optional horizon leaves out tasks that would finish after it. Only active employees get work, and never before their start date or after their end date; open plans of employees who are inactive or leaving are marked Reassign. Tasks that cannot be placed (no matching or active employee, or no effort) are listed with the reason in the Unscheduled panel. Progress logged on an open plan (hours spent or percent complete) is kept when regenerating: only the remaining hours are planned, with the same employee and start date.
                 </p>
               </div>
               <div>
                 <p className="font-semibold text-sm mb-1">Step 3: Calculate Schedule</p>
                 <p className="text-sm text-muted-foreground">
-                  Allocates 8 hours per workday sequentially. Calculates start/end dates and checks if tasks finish after their due date (marks as overdue).
+                  Allocates hours sequentially against the working hours of each employee (8 per weekday by default), packing small tasks into the same day. Calculates start/end dates and checks if tasks finish after their due date (marks as overdue).
                 </p>
               </div>
               <div>
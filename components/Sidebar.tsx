@@ -9,6 +9,7 @@ import {
   Users,
   ClipboardList,
   Calendar,
+  CalendarDays,
   Layers,
   History,
   Menu,
@@ -42,6 +43,11 @@ const navigationItems = [
     href: "/leaves",
     icon: Calendar,
   },
+  {
+    name: "Holidays",
+    href: "/holidays",
+    icon: CalendarDays,
+  },
   {
     name: "Planner",
     href: "/planner",
@@ -117,6 +117,70 @@ export function SimulatorHowItWorksModal() {
             </CardContent>
           </Card>
 
+          {/* What-If Levers Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">🧪 Hypothetical Staff, Tasks and Changes</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div>
+                <p className="font-semibold text-sm mb-1">What It Does</p>
+                <p className="text-sm text-muted-foreground">
+                  Answers questions like &quot;what if we hire a QA in March?&quot; or &quot;what if this task takes 30% longer?&quot;
+                  without touching your employees or tasks.
+                </p>
+              </div>
+              <div>
+                <p className="font-semibold text-sm mb-1">How To Use</p>
+                <ul className="text-sm text-muted-foreground list-disc list-inside space-y-1">
+                  <li><strong>Hypothetical Staff:</strong> a name, a designation and an optional start date; they get work from that day</li>
+                  <li><strong>Extra Tasks:</strong> a title, client, designation, effort and optional due date</li>
+                  <li><strong>Effort Changes:</strong> add or take off hours, or a percentage, of a task&apos;s effort (e.g. -25%)</li>
+                  <li><strong>Due Date Changes:</strong> plan a task against another due date, or none</li>
+                </ul>
+              </div>
+              <div>
+                <p className="font-semibold text-sm mb-1">What Happens</p>
+                <p className="text-sm text-muted-foreground">
+                  They are planned like real employees and tasks and marked &quot;hypothetical&quot; in the results. They are saved
+                  with a scenario, but a simulation using them cannot be applied to the real plan.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Delivery Forecast Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">🎲 Delivery Forecast</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div>
+                <p className="font-semibold text-sm mb-1">What It Does</p>
+                <p className="text-sm text-muted-foreground">
+                  A single effort estimate makes every date look certain. Tasks can carry a best-case and worst-case effort
+                  (on the Tasks page) next to the likely one; the forecast plans hundreds of times with efforts drawn between
+                  them and reports how the dates spread.
+                </p>
+              </div>
+              <div>
+                <p className="font-semibold text-sm mb-1">Reading The Dates</p>
+                <ul className="text-sm text-muted-foreground list-disc list-inside space-y-1">
+                  <li><strong>P50:</strong> done by this date in half of the runs</li>
+                  <li><strong>P80 / P95:</strong> done by this date in 80% / 95% of the runs, safer dates to quote to clients</li>
+                  <li><strong>On time:</strong> share of runs finishing a task by its due date</li>
+                  <li>A dash means the work did not fit the planning horizon in enough runs</li>
+                </ul>
+              </div>
+              <div>
+                <p className="font-semibold text-sm mb-1">What Happens</p>
+                <p className="text-sm text-muted-foreground">
+                  The forecast uses the options set above, including hypothetical staff and tasks. Nothing is saved.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Running Simulation Section */}
           <Card>
             <CardHeader>
@@ -151,6 +215,33 @@ export function SimulatorHowItWorksModal() {
             </CardContent>
           </Card>
 
+          {/* Saved Scenarios Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">💾 Saved Scenarios</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div>
+                <p className="font-semibold text-sm mb-1">Save and Share</p>
+                <p className="text-sm text-muted-foreground">
+                  After running a simulation, click &quot;Save Scenario&quot; to keep its options (strategy, planning window, delays and blocks) and results under a name, with an optional description and author. Saved scenarios are listed for everyone using the planner.
+                </p>
+              </div>
+              <div>
+                <p className="font-semibold text-sm mb-1">Load, Re-run, Duplicate, Delete</p>
+                <p className="text-sm text-muted-foreground">
+                  &quot;Load&quot; puts a scenario&apos;s options back in the form and shows its saved results. &quot;Re-run&quot; runs it again on today&apos;s tasks, employees and leaves and lists what changed since it was saved: tasks newly planned or no longer planned, moved end dates, other assignees and changed hours. Duplicate a scenario to try a variation of it without losing the original.
+                </p>
+              </div>
+              <div>
+                <p className="font-semibold text-sm mb-1">Compare Side by Side</p>
+                <p className="text-sm text-muted-foreground">
+                  Tick 2 to 4 saved scenarios under &quot;Compare Scenarios&quot; to see them next to the live plan: total days overdue, the delivery date of each client, the end date of each task and the hours booked for each employee. Rows where the plans disagree are highlighted.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Applying Changes Section */}
           <Card>
             <CardHeader>
@@ -161,6 +252,8 @@ export function SimulatorHowItWorksModal() {
                 <p className="font-semibold text-sm mb-1">When To Apply</p>
                 <p className="text-sm text-muted-foreground">
                   After reviewing the simulation results, if you're satisfied with the changes, click "Apply Changes" to make them permanent.
+                  A preview first lists the tasks that would be reassigned, the plans whose dates would shift and the tasks that would
+                  become overdue; nothing is written until you confirm.
                 </p>
               </div>
               <div>
@@ -171,6 +264,7 @@ export function SimulatorHowItWorksModal() {
                 <ul className="text-sm text-muted-foreground list-disc list-inside space-y-1 mt-2">
                   <li>Updates the real plan with simulated changes</li>
                   <li>Creates version history records for the changes</li>
+                  <li>Keeps completed plans and the hours logged on open ones</li>
                   <li>Triggers recalculation of all dependent tasks</li>
                 </ul>
               </div>
@@ -0,0 +1,108 @@
+"use client";
+
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SKILL_LEVELS } from "@/lib/skills/matching";
+import type { SkillLevel } from "@/types/database";
+
+export type SkillEntry = {
+  name: string;
+  level: SkillLevel;
+};
+
+type SkillsEditorProps = {
+  id: string;
+  value: SkillEntry[];
+  onChange: (skills: SkillEntry[]) => void;
+  /** Known skill names offered while typing */
+  suggestions: string[];
+  /** Level assigned to a newly added row */
+  defaultLevel: SkillLevel;
+  addLabel: string;
+  disabled?: boolean;
+};
+
+/**
+ * Editable list of skill names with a proficiency level each
+ * Used for an employee's skills and for a task's required skills.
+ */
+export function SkillsEditor({
+  id,
+  value,
+  onChange,
+  suggestions,
+  defaultLevel,
+  addLabel,
+  disabled,
+}: SkillsEditorProps) {
+  const updateRow = (index: number, row: Partial<SkillEntry>) =>
+    onChange(value.map((skill, i) => (i === index ? { ...skill, ...row } : skill)));
+
+  return (
+    <div className="grid gap-2">
+      {value.map((skill, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            placeholder="Skill, e.g. React"
+            value={skill.name}
+            list={`${id}-suggestions`}
+            onChange={(e) => updateRow(index, { name: e.target.value })}
+            disabled={disabled}
+          />
+          <Select
+            value={String(skill.level)}
+            onValueChange={(level) =>
+              updateRow(index, { level: Number(level) as SkillLevel })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SKILL_LEVELS.map((level) => (
+                <SelectItem key={level.value} value={String(level.value)}>
+                  {level.value} · {level.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            disabled={disabled}
+            title="Remove skill"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <datalist id={`${id}-suggestions`}>
+        {suggestions.map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="w-fit"
+        onClick={() => onChange([...value, { name: "", level: defaultLevel }])}
+        disabled={disabled}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        {addLabel}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { parseIcsHolidays } from "@/lib/holidays/ics";
+
+const calendar = (...events: string[][]) =>
+  [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    ...events.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+describe("parseIcsHolidays", () => {
+  it("reads an all-day event", () => {
+    const text = calendar(["DTSTART;VALUE=DATE:20300101", "SUMMARY:New Year's Day"]);
+
+    expect(parseIcsHolidays(text)).toEqual({
+      holidays: [{ holiday_date: "2030-01-01", name: "New Year's Day" }],
+      errors: [],
+    });
+  });
+
+  it("treats DTEND as exclusive for multi-day events", () => {
+    const text = calendar([
+      "DTSTART;VALUE=DATE:20301224",
+      "DTEND;VALUE=DATE:20301227",
+      "SUMMARY:Christmas",
+    ]);
+
+    expect(parseIcsHolidays(text).holidays.map((h) => h.holiday_date)).toEqual([
+      "2030-12-24",
+      "2030-12-25",
+      "2030-12-26",
+    ]);
+  });
+
+  it("takes the day of a timed event", () => {
+    const text = calendar([
+      "DTSTART:20300501T090000Z",
+      "DTEND:20300501T170000Z",
+      "SUMMARY:Labour Day",
+    ]);
+
+    expect(parseIcsHolidays(text).holidays).toEqual([
+      { holiday_date: "2030-05-01", name: "Labour Day" },
+    ]);
+  });
+
+  it("unfolds continued lines and unescapes text", () => {
+    const text = calendar([
+      "DTSTART;VALUE=DATE:20300704",
+      "SUMMARY:Independence Day\\, observed\\;",
+      " with fireworks",
+    ]);
+
+    expect(parseIcsHolidays(text).holidays[0].name).toBe(
+      "Independence Day, observed;with fireworks"
+    );
+  });
+
+  it("reports events without a start or spanning too long", () => {
+    const text = calendar(
+      ["SUMMARY:Mystery day"],
+      ["DTSTART;VALUE=DATE:20300101", "DTEND;VALUE=DATE:20300301", "SUMMARY:Winter"],
+      ["DTSTART;VALUE=DATE:20300102"]
+    );
+
+    expect(parseIcsHolidays(text)).toEqual({
+      holidays: [{ holiday_date: "2030-01-02", name: "Holiday" }],
+      errors: [
+        'Event "Mystery day" has no valid start date',
+        'Event "Winter" spans 59 days and was skipped',
+      ],
+    });
+  });
+});
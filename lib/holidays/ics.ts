@@ -0,0 +1,99 @@
+/**
+ * Minimal iCalendar (.ics) reader for holiday lists
+ *
+ * Only what public-holiday feeds use: VEVENT blocks with an all-day or
+ * timed DTSTART, an optional DTEND and a SUMMARY. Pure, safe to run in the
+ * browser.
+ */
+
+import { addDays } from "date-fns";
+import { formatDateLocal } from "@/lib/utils";
+
+export type ParsedHoliday = {
+  holiday_date: string;
+  name: string;
+};
+
+// Longest event we expand into individual days
+const MAX_EVENT_DAYS = 31;
+
+// Undo RFC 5545 line folding: a line starting with a space or tab continues the previous one
+const unfoldLines = (text: string): string[] =>
+  text.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+
+// Unescape TEXT values (\, \; \n)
+const unescapeText = (value: string): string =>
+  value
+    .replace(/\\n/gi, " ")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim();
+
+// Read the date part of a DATE or DATE-TIME value (YYYYMMDD...)
+const parseIcsDate = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+};
+
+/**
+ * Parse holidays out of an .ics file
+ * Multi-day all-day events become one holiday per day (DTEND is exclusive).
+ *
+ * @returns holidays in file order plus messages for events that were skipped
+ */
+export function parseIcsHolidays(text: string): {
+  holidays: ParsedHoliday[];
+  errors: string[];
+} {
+  const holidays: ParsedHoliday[] = [];
+  const errors: string[] = [];
+
+  let inEvent = false;
+  let start: Date | null = null;
+  let end: Date | null = null;
+  let summary = "";
+
+  for (const line of unfoldLines(text)) {
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const [name] = line.slice(0, separator).toUpperCase().split(";");
+    const value = line.slice(separator + 1).trim();
+
+    if (name === "BEGIN" && value.toUpperCase() === "VEVENT") {
+      inEvent = true;
+      start = null;
+      end = null;
+      summary = "";
+    } else if (name === "END" && value.toUpperCase() === "VEVENT") {
+      inEvent = false;
+      if (!start) {
+        errors.push(`Event "${summary || "Untitled"}" has no valid start date`);
+        continue;
+      }
+
+      const title = summary || "Holiday";
+      const days =
+        end && end > start
+          ? Math.round((end.getTime() - start.getTime()) / 86400000)
+          : 1;
+      if (days > MAX_EVENT_DAYS) {
+        errors.push(`Event "${title}" spans ${days} days and was skipped`);
+        continue;
+      }
+      for (let i = 0; i < days; i++) {
+        holidays.push({
+          holiday_date: formatDateLocal(addDays(start, i)),
+          name: title,
+        });
+      }
+    } else if (inEvent && name === "DTSTART") {
+      start = parseIcsDate(value);
+    } else if (inEvent && name === "DTEND") {
+      end = parseIcsDate(value);
+    } else if (inEvent && name === "SUMMARY") {
+      summary = unescapeText(value);
+    }
+  }
+
+  return { holidays, errors };
+}
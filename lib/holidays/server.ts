@@ -0,0 +1,52 @@
+/**
+ * Server-side holiday data fetching utilities
+ * 
+ * All Supabase queries for holiday calendars and holidays happen here on the server.
+ */
+
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import type { Holiday, HolidayCalendar } from "@/types/database";
+
+/**
+ * Fetch all holiday calendars
+ */
+export async function fetchHolidayCalendars(): Promise<HolidayCalendar[]> {
+  console.log("[HOLIDAYS:FETCH] Starting fetchHolidayCalendars()");
+  const supabase = createServerSupabaseClient();
+
+  const { data, error } = await supabase
+    .from("holiday_calendars")
+    .select("id, name, description, work_days, created_at")
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("[HOLIDAYS:FETCH] Error fetching holiday calendars:", error);
+    return [];
+  }
+
+  const count = data?.length || 0;
+  console.log(`[HOLIDAYS:FETCH] Successfully fetched ${count} holiday calendars`);
+  return data || [];
+}
+
+/**
+ * Fetch all holidays, ordered by date
+ */
+export async function fetchHolidays(): Promise<Holiday[]> {
+  console.log("[HOLIDAYS:FETCH] Starting fetchHolidays()");
+  const supabase = createServerSupabaseClient();
+
+  const { data, error } = await supabase
+    .from("holidays")
+    .select("id, calendar_id, holiday_date, name, created_at")
+    .order("holiday_date", { ascending: true });
+
+  if (error) {
+    console.error("[HOLIDAYS:FETCH] Error fetching holidays:", error);
+    return [];
+  }
+
+  const count = data?.length || 0;
+  console.log(`[HOLIDAYS:FETCH] Successfully fetched ${count} holidays`);
+  return data || [];
+}
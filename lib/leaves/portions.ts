@@ -0,0 +1,68 @@
+/**
+ * Leave types and part-of-day options shared by the leaves UI and actions
+ *
+ * Pure helpers only, safe to import from client components.
+ */
+
+import type { LeavePortion, LeaveType } from "@/types/database";
+
+export const LEAVE_TYPES: LeaveType[] = [
+  "Vacation",
+  "Sick",
+  "Personal",
+  "Medical",
+  "Other",
+];
+
+export const LEAVE_PORTIONS: Array<{ value: LeavePortion; label: string }> = [
+  { value: "full_day", label: "Full day" },
+  { value: "am", label: "Morning (AM)" },
+  { value: "pm", label: "Afternoon (PM)" },
+  { value: "hours", label: "Hours" },
+];
+
+export const isLeaveType = (value: unknown): value is LeaveType =>
+  LEAVE_TYPES.includes(value as LeaveType);
+
+export const isLeavePortion = (value: unknown): value is LeavePortion =>
+  LEAVE_PORTIONS.some((p) => p.value === value);
+
+/**
+ * Short description of how much of the day a leave covers
+ */
+export function formatLeaveDuration(leave: {
+  portion?: LeavePortion | null;
+  hours?: number | null;
+}): string {
+  switch (leave.portion) {
+    case "am":
+      return "Morning";
+    case "pm":
+      return "Afternoon";
+    case "hours":
+      return `${leave.hours ?? 0}h`;
+    default:
+      return "Full day";
+  }
+}
+
+/**
+ * Whether a new leave clashes with an existing one on the same day
+ * A full day clashes with anything, and the same half day cannot be taken
+ * twice. Hourly leaves may be combined with each other and with half days.
+ */
+export function leavesConflict(
+  existing: { portion?: LeavePortion | null },
+  added: { portion?: LeavePortion | null }
+): boolean {
+  const a = existing.portion || "full_day";
+  const b = added.portion || "full_day";
+  if (a === "full_day" || b === "full_day") return true;
+  return a === b && a !== "hours";
+}
+
+export type LeaveDetails = {
+  leave_type?: LeaveType;
+  portion?: LeavePortion;
+  hours?: number | null;
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { expandLeaveDates, groupLeaves, MAX_LEAVE_RANGE_DAYS } from "@/lib/leaves/ranges";
+
+type Row = {
+  id: number;
+  leave_date: string;
+  group_id?: string | null;
+  group_kind?: "range" | "weekly" | null;
+  group_weekdays?: number[] | null;
+};
+
+const rows = (dates: string[], extra: Partial<Row> = {}): Row[] =>
+  dates.map((leave_date, index) => ({ id: index + 1, leave_date, ...extra }));
+
+describe("expandLeaveDates", () => {
+  it("keeps a single day as it is", () => {
+    expect(expandLeaveDates({ kind: "single", date: "2030-01-12" })).toEqual({
+      dates: ["2030-01-12"],
+    });
+  });
+
+  it("expands a range to the work days it covers", () => {
+    expect(expandLeaveDates({ kind: "range", from: "2030-01-10", to: "2030-01-15" })).toEqual({
+      dates: ["2030-01-10", "2030-01-11", "2030-01-14", "2030-01-15"],
+    });
+  });
+
+  it("follows the employee's work week", () => {
+    expect(
+      expandLeaveDates({ kind: "range", from: "2030-01-10", to: "2030-01-13" }, ["sat", "sun"])
+    ).toEqual({ dates: ["2030-01-12", "2030-01-13"] });
+  });
+
+  it("expands a weekly pattern to its weekdays", () => {
+    expect(
+      expandLeaveDates({
+        kind: "weekly",
+        from: "2030-01-01",
+        until: "2030-01-31",
+        weekdays: [5],
+      })
+    ).toEqual({ dates: ["2030-01-04", "2030-01-11", "2030-01-18", "2030-01-25"] });
+  });
+
+  it("rejects invalid and unbounded bookings", () => {
+    expect(expandLeaveDates({ kind: "single", date: "soon" })).toEqual({
+      error: "Invalid date format",
+    });
+    expect(expandLeaveDates({ kind: "range", from: "2030-01-10", to: "2030-01-09" })).toEqual({
+      error: "End date must be on or after the start date",
+    });
+    expect(
+      expandLeaveDates({ kind: "weekly", from: "2030-01-01", until: "2030-01-31", weekdays: [] })
+    ).toEqual({ error: "Select at least one weekday to repeat on" });
+    expect(expandLeaveDates({ kind: "range", from: "2030-01-12", to: "2030-01-13" })).toEqual({
+      error: "The selected dates contain no working days",
+    });
+    expect(expandLeaveDates({ kind: "range", from: "2030-01-01", to: "2031-12-31" })).toEqual({
+      error: `A leave booking can span at most ${MAX_LEAVE_RANGE_DAYS} days`,
+    });
+  });
+});
+
+describe("groupLeaves", () => {
+  it("keeps rows without a group on their own", () => {
+    const groups = groupLeaves(rows(["2030-01-07", "2030-01-08"]));
+
+    expect(groups.map((g) => [g.from, g.to, g.weekdays])).toEqual([
+      ["2030-01-07", "2030-01-07", null],
+      ["2030-01-08", "2030-01-08", null],
+    ]);
+  });
+
+  it("shows a range that skipped a holiday as a range", () => {
+    // Monday 2030-01-14 to Monday 2030-01-21 without the Wednesday holiday
+    const dates = ["2030-01-14", "2030-01-15", "2030-01-17", "2030-01-18", "2030-01-21"];
+    const [group] = groupLeaves(rows(dates, { group_id: "g", group_kind: "range" }));
+
+    expect(group).toMatchObject({ from: "2030-01-14", to: "2030-01-21", weekdays: null });
+    expect(group.leaves).toHaveLength(5);
+  });
+
+  it("shows a weekly pattern with its stored weekdays", () => {
+    const dates = ["2030-01-04", "2030-01-11", "2030-01-18"];
+    const [group] = groupLeaves(
+      rows(dates, { group_id: "g", group_kind: "weekly", group_weekdays: [5] })
+    );
+
+    expect(group).toMatchObject({ from: "2030-01-04", to: "2030-01-18", weekdays: [5] });
+  });
+
+  it("tells older groups apart by their dates", () => {
+    const [range, weekly] = groupLeaves([
+      ...rows(["2030-01-07", "2030-01-08", "2030-01-09"], { group_id: "range" }),
+      ...rows(["2030-01-04", "2030-01-11"], { group_id: "weekly" }),
+    ]);
+
+    expect(range.weekdays).toBeNull();
+    expect(weekly.weekdays).toEqual([5]);
+  });
+});
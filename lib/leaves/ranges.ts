@@ -0,0 +1,164 @@
+/**
+ * Leave date ranges and recurring patterns
+ *
+ * Pure helpers shared by the leaves UI and actions: expanding a range or a
+ * weekly pattern into individual leave days, and grouping stored leave rows
+ * back into the range they were booked as.
+ */
+
+import { addDays } from "date-fns";
+import { formatDateLocal } from "@/lib/utils";
+import { DEFAULT_WORK_DAYS, isWorkDay } from "@/lib/planner/scheduler";
+
+/** Longest span a single booking may cover, to keep inserts bounded */
+export const MAX_LEAVE_RANGE_DAYS = 366;
+
+export type LeaveDateSpec =
+  | { kind: "single"; date: string }
+  | { kind: "range"; from: string; to: string }
+  | { kind: "weekly"; from: string; until: string; weekdays: number[] };
+
+export const WEEKDAY_OPTIONS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+// Parse YYYY-MM-DD as a local date (new Date("YYYY-MM-DD") would be UTC)
+const parseLocalDate = (value: string): Date | null => {
+  const [year, month, day] = value.split("-").map(Number);
+  if (!year || !month || !day) return null;
+  const date = new Date(year, month - 1, day);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Expand a leave booking into the individual days it covers
+ * Ranges and weekly patterns skip days outside the employee's work week
+ * (Monday–Friday unless given).
+ *
+ * @returns the dates (YYYY-MM-DD), or an error message for an invalid spec
+ */
+export function expandLeaveDates(
+  spec: LeaveDateSpec,
+  workDays: readonly string[] = DEFAULT_WORK_DAYS
+): { dates: string[] } | { error: string } {
+  if (spec.kind === "single") {
+    return parseLocalDate(spec.date)
+      ? { dates: [spec.date] }
+      : { error: "Invalid date format" };
+  }
+
+  const from = parseLocalDate(spec.from);
+  const to = parseLocalDate(spec.kind === "range" ? spec.to : spec.until);
+  if (!from || !to) {
+    return { error: "Invalid date format" };
+  }
+  if (to < from) {
+    return { error: "End date must be on or after the start date" };
+  }
+  if (spec.kind === "weekly" && spec.weekdays.length === 0) {
+    return { error: "Select at least one weekday to repeat on" };
+  }
+
+  const dates: string[] = [];
+  for (
+    let current = from, span = 0;
+    current <= to;
+    current = addDays(current, 1), span++
+  ) {
+    if (span >= MAX_LEAVE_RANGE_DAYS) {
+      return {
+        error: `A leave booking can span at most ${MAX_LEAVE_RANGE_DAYS} days`,
+      };
+    }
+    if (!isWorkDay(workDays, current)) continue;
+    if (spec.kind === "weekly" && !spec.weekdays.includes(current.getDay())) {
+      continue;
+    }
+    dates.push(formatDateLocal(current));
+  }
+
+  if (dates.length === 0) {
+    return { error: "The selected dates contain no working days" };
+  }
+  return { dates };
+}
+
+export type LeaveGroup<T> = {
+  key: string;
+  leaves: T[];
+  from: string;
+  to: string;
+  /** Weekdays of a recurring booking; null for single days and plain ranges */
+  weekdays: number[] | null;
+};
+
+/**
+ * Group leave rows booked together (same group_id) back into one entry
+ * Rows without a group_id stay on their own. Groups keep the order in which
+ * their first row appears. A group is a range or weekly pattern as stored
+ * with its rows; for groups booked before that was stored, `getWorkDays`
+ * gives the work week of a row's employee, used to tell plain ranges from
+ * weekly patterns.
+ */
+export function groupLeaves<
+  T extends {
+    id: number;
+    leave_date: string;
+    group_id?: string | null;
+    group_kind?: "range" | "weekly" | null;
+    group_weekdays?: number[] | null;
+  }
+>(
+  leaves: T[],
+  getWorkDays: (leave: T) => readonly string[] = () => DEFAULT_WORK_DAYS
+): LeaveGroup<T>[] {
+  const groups = new Map<string, T[]>();
+  leaves.forEach((leave) => {
+    const key = leave.group_id || `leave-${leave.id}`;
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(leave);
+  });
+
+  return Array.from(groups.entries()).map(([key, rows]) => {
+    const dates = rows.map((r) => r.leave_date).sort();
+    const from = dates[0];
+    const to = dates[dates.length - 1];
+
+    const { group_kind: kind, group_weekdays: storedWeekdays } = rows[0];
+    if (kind === "range") {
+      return { key, leaves: rows, from, to, weekdays: null };
+    }
+    if (kind === "weekly" && storedWeekdays && storedWeekdays.length > 0) {
+      return {
+        key,
+        leaves: rows,
+        from,
+        to,
+        weekdays: [...storedWeekdays].sort((a, b) => a - b),
+      };
+    }
+
+    // A group that skips working days between its ends was a weekly pattern
+    const expanded = expandLeaveDates(
+      { kind: "range", from, to },
+      getWorkDays(rows[0])
+    );
+    const isContinuous =
+      "dates" in expanded && expanded.dates.length === dates.length;
+    const weekdays = isContinuous
+      ? null
+      : [
+          ...new Set(dates.map((d) => parseLocalDate(d)!.getDay())),
+        ].sort();
+
+    return { key, leaves: rows, from, to, weekdays };
+  });
+}
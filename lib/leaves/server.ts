@@ -5,17 +5,29 @@
  */
 
 import { createServerSupabaseClient } from "@/lib/supabase/server";
+import type { LeavePortion, LeaveType } from "@/types/database";
 
 export type Employee = {
   id: string;
   name: string;
   designation: string;
+  /** Work week in effect: the employee's own, else their calendar's */
+  work_days: string[] | null;
 };
 
 export type Leave = {
   id: number;
   employee_id: string;
   leave_date: string;
+  leave_type: LeaveType;
+  portion: LeavePortion;
+  hours: number | null;
+  /** Shared by all days of one range or recurring booking */
+  group_id: string | null;
+  /** How the group was booked; null for single days and older bookings */
+  group_kind: "range" | "weekly" | null;
+  /** Weekdays a weekly booking repeats on (0 = Sunday) */
+  group_weekdays: number[] | null;
 };
 
 export type LeaveWithEmployee = Leave & {
@@ -31,7 +43,7 @@ export async function fetchEmployees(): Promise<Employee[]> {
 
   const { data, error } = await supabase
     .from("employees")
-    .select("*")
+    .select("*, holiday_calendars(work_days)")
     .order("name");
 
   if (error) {
@@ -45,6 +57,7 @@ export async function fetchEmployees(): Promise<Employee[]> {
     id: emp.id,
     name: emp.name,
     designation: emp.designation,
+    work_days: emp.work_days ?? emp.holiday_calendars?.work_days ?? null,
   }));
 }
 
@@ -71,6 +84,12 @@ export async function fetchLeaves(): Promise<LeaveWithEmployee[]> {
     id: leave.id,
     employee_id: leave.employee_id,
     leave_date: leave.leave_date,
+    leave_type: leave.leave_type || "Vacation",
+    portion: leave.portion || "full_day",
+    hours: leave.hours ?? null,
+    group_id: leave.group_id || null,
+    group_kind: leave.group_kind ?? null,
+    group_weekdays: leave.group_weekdays ?? null,
     employee_name: leave.employees?.name || "Unknown Employee",
   }));
 
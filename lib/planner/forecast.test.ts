@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_FORECAST_RUNS,
+  MAX_FORECAST_RUNS,
+  forecastDeliveryDates,
+} from "@/lib/planner/forecast";
+import type { PlanningTask, ScheduleInput, ScheduleOptions } from "@/lib/planner/scheduler";
+
+// 2030-01-07 is a Monday
+const MONDAY = "2030-01-07";
+
+const task = (
+  id: string,
+  effortHours: number,
+  extra: Partial<PlanningTask> = {}
+): PlanningTask => ({
+  id,
+  title: `Task ${id}`,
+  client: "Acme",
+  effort_hours: effortHours,
+  designation_required: "Developer",
+  ...extra,
+});
+
+const input = (tasks: PlanningTask[], options: ScheduleOptions = {}): ScheduleInput => ({
+  employees: [{ id: "1", name: "Dev", designation: "Developer" }],
+  tasks,
+  leaves: [],
+  options: { startDate: MONDAY, ...options },
+});
+
+describe("forecastDeliveryDates", () => {
+  it("gives the planned dates at every confidence without uncertain tasks", () => {
+    const result = forecastDeliveryDates(input([task("a", 16, { due_date: "2030-01-08" })]));
+
+    expect(result).toMatchObject({ runs: DEFAULT_FORECAST_RUNS, uncertainTaskCount: 0 });
+    expect(result.tasks).toEqual([
+      {
+        task_id: "a",
+        title: "Task a",
+        client: "Acme",
+        due_date: "2030-01-08",
+        planned_end: "2030-01-08",
+        p50: "2030-01-08",
+        p80: "2030-01-08",
+        p95: "2030-01-08",
+        on_time_share: 1,
+        unscheduled_runs: 0,
+      },
+    ]);
+    expect(result.clients[0]).toMatchObject({ client: "Acme", p95: "2030-01-08" });
+  });
+
+  it("keeps the likely effort when both estimates equal it", () => {
+    const result = forecastDeliveryDates(
+      input([task("a", 16, { effort_optimistic: 16, effort_pessimistic: 16 })]),
+      { runs: 20, seed: 1 }
+    );
+
+    expect(result.uncertainTaskCount).toBe(1);
+    expect(result.tasks[0]).toMatchObject({
+      p50: "2030-01-08",
+      p95: "2030-01-08",
+      on_time_share: null,
+    });
+  });
+
+  it("spreads end dates over the estimate range, repeatably for a seed", () => {
+    const tasks = [task("a", 16, { effort_optimistic: 8, effort_pessimistic: 40 })];
+    const result = forecastDeliveryDates(input(tasks), { runs: 200, seed: 3 });
+    const [forecast] = result.tasks;
+
+    expect(forecastDeliveryDates(input(tasks), { runs: 200, seed: 3 })).toEqual(result);
+    expect(forecast.planned_end).toBe("2030-01-08");
+    // 8h ends on the Monday, 40h on the Friday
+    expect(forecast.p50! >= MONDAY).toBe(true);
+    expect(forecast.p50! <= forecast.p80!).toBe(true);
+    expect(forecast.p80! <= forecast.p95!).toBe(true);
+    expect(forecast.p95! <= "2030-01-11").toBe(true);
+    expect(forecast.p50).not.toBe(forecast.p95);
+  });
+
+  it("clamps the number of runs", () => {
+    const tasks = [task("a", 8)];
+
+    expect(forecastDeliveryDates(input(tasks), { runs: 0 }).runs).toBe(1);
+    expect(forecastDeliveryDates(input(tasks), { runs: 2.6 }).runs).toBe(3);
+    expect(forecastDeliveryDates(input(tasks), { runs: 5000 }).runs).toBe(MAX_FORECAST_RUNS);
+  });
+
+  it("counts runs finishing after the horizon as later than any date", () => {
+    const result = forecastDeliveryDates(
+      input([task("a", 8, { effort_pessimistic: 40 }), task("b", 80, { client: "Globex" })], {
+        horizonEnd: "2030-01-08",
+      }),
+      { runs: 100, seed: 5 }
+    );
+    const [a, b] = result.tasks;
+
+    // "a" fits by the horizon only when it samples 16h or less
+    expect(a).toMatchObject({ task_id: "a", planned_end: MONDAY, p50: null, p95: null });
+    expect(a.unscheduled_runs).toBeGreaterThan(0);
+    expect(a.unscheduled_runs).toBeLessThan(100);
+    expect(b).toMatchObject({
+      task_id: "b",
+      planned_end: null,
+      p50: null,
+      unscheduled_runs: 100,
+    });
+    expect(result.clients.find((c) => c.client === "Globex")).toMatchObject({
+      planned_end: null,
+      unscheduled_runs: 100,
+    });
+  });
+
+  it("forecasts the virtual tasks of a simulation", () => {
+    const result = forecastDeliveryDates(
+      input([task("a", 8)], {
+        virtualTasks: [task("virtual-1", 8, { client: "Globex", effort_pessimistic: 16 })],
+      }),
+      { runs: 20, seed: 1 }
+    );
+
+    expect(result.uncertainTaskCount).toBe(1);
+    expect(result.tasks.map((t) => t.task_id).sort()).toEqual(["a", "virtual-1"]);
+    expect(result.clients.map((c) => c.client).sort()).toEqual(["Acme", "Globex"]);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Monte Carlo forecast of delivery dates under effort uncertainty
+ *
+ * A task's effort_hours is its likely effort; tasks may also carry an
+ * optimistic and a pessimistic estimate. Each run samples every task's
+ * effort from the triangular distribution over those three and plans with
+ * planSchedule, so all scheduling rules hold in every run. The end dates
+ * over all runs give percentile dates per task and per client. Pure and
+ * in-process like the scheduler.
+ */
+
+import { createRandom } from "@/lib/planner/optimizer";
+import {
+  planSchedule,
+  type PlanningTask,
+  type ScheduleInput,
+} from "@/lib/planner/scheduler";
+
+/** Runs when none are given */
+export const DEFAULT_FORECAST_RUNS = 200;
+
+/** Most runs allowed, to keep requests responsive */
+export const MAX_FORECAST_RUNS = 1000;
+
+export type ForecastOptions = {
+  /** Number of sampled plans; capped at MAX_FORECAST_RUNS */
+  runs?: number;
+  /** Seed of the sampled efforts, for repeatable forecasts */
+  seed?: number;
+};
+
+/**
+ * End dates by confidence: the day by which the work is done in 50, 80 and
+ * 95 percent of the runs; null when that share of runs did not plan it
+ * (e.g. it finished after the horizon)
+ */
+export type ForecastDates = {
+  p50: string | null;
+  p80: string | null;
+  p95: string | null;
+};
+
+export type TaskForecast = ForecastDates & {
+  task_id: string;
+  title: string;
+  client: string;
+  due_date: string | null;
+  /** End date with the likely efforts, as the simulator plans it */
+  planned_end: string | null;
+  /** Share of runs (0–1) finishing by the due date; null without one */
+  on_time_share: number | null;
+  /** Runs in which the task could not be planned */
+  unscheduled_runs: number;
+};
+
+export type ClientForecast = ForecastDates & {
+  client: string;
+  /** End of the client's last task with the likely efforts */
+  planned_end: string | null;
+  unscheduled_runs: number;
+};
+
+export type DeliveryForecast = {
+  runs: number;
+  /** Tasks with an optimistic or pessimistic estimate */
+  uncertainTaskCount: number;
+  tasks: TaskForecast[];
+  clients: ClientForecast[];
+};
+
+// Effort from the triangular distribution over (min, likely, max)
+function sampleEffort(
+  min: number,
+  likely: number,
+  max: number,
+  random: () => number
+): number {
+  if (max <= min) return likely;
+  const u = random();
+  const cut = (likely - min) / (max - min);
+  return u < cut
+    ? min + Math.sqrt(u * (max - min) * (likely - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - likely));
+}
+
+const isUncertain = (task: PlanningTask) =>
+  task.effort_optimistic != null || task.effort_pessimistic != null;
+
+// The task with a sampled effort; multi-role lines are scaled together
+function withSampledEffort(task: PlanningTask, random: () => number): PlanningTask {
+  if (!isUncertain(task) || task.effort_hours <= 0) return task;
+  const likely = task.effort_hours;
+  const effort = sampleEffort(
+    Number(task.effort_optimistic ?? likely),
+    likely,
+    Number(task.effort_pessimistic ?? likely),
+    random
+  );
+  const scale = effort / likely;
+  return {
+    ...task,
+    effort_hours: Math.round(effort * 100) / 100,
+    effort_lines: task.effort_lines?.map((line) => ({
+      ...line,
+      effort_hours: Math.round(line.effort_hours * scale * 100) / 100,
+    })),
+  };
+}
+
+// End date per task of one plan; tasks (or any of their roles) skipped are left out
+function taskEnds(input: ScheduleInput): Map<string, string> {
+  const { plans, diagnostics } = planSchedule({
+    ...input,
+    options: { ...input.options, explain: false },
+  });
+  const skipped = new Set(diagnostics.skippedTasks.map((s) => String(s.task_id)));
+  const ends = new Map<string, string>();
+  plans.forEach((plan) => {
+    const taskId = String(plan.task_id);
+    if (skipped.has(taskId)) return;
+    const end = ends.get(taskId);
+    if (!end || plan.end_date > end) ends.set(taskId, plan.end_date);
+  });
+  return ends;
+}
+
+/**
+ * Percentile dates of the given end dates, one per run; a null end (not
+ * planned in that run) counts as later than any date
+ */
+function percentiles(ends: Array<string | null>): ForecastDates {
+  const sorted = ends
+    .filter((end): end is string => end !== null)
+    .sort();
+  const at = (share: number) => {
+    const index = Math.ceil(share * ends.length) - 1;
+    return index < sorted.length ? sorted[Math.max(index, 0)] : null;
+  };
+  return { p50: at(0.5), p80: at(0.8), p95: at(0.95) };
+}
+
+/**
+ * Forecast delivery dates by sampling task efforts
+ *
+ * Tasks come in order of their P80 date, clients likewise; work not planned
+ * at that confidence comes last. Without any uncertain task every run is
+ * the same plan and all percentiles equal the planned dates.
+ *
+ * @throws DependencyCycleError when dependencies among the tasks form a loop
+ */
+export function forecastDeliveryDates(
+  input: ScheduleInput,
+  options: ForecastOptions = {}
+): DeliveryForecast {
+  const runs = Math.min(
+    Math.max(Math.round(options.runs ?? DEFAULT_FORECAST_RUNS), 1),
+    MAX_FORECAST_RUNS
+  );
+  const random = createRandom(options.seed ?? Date.now());
+
+  // Virtual tasks of a simulation are forecast (and sampled) too
+  const virtualTasks = input.options?.virtualTasks || [];
+  const tasks = [...input.tasks, ...virtualTasks];
+  const uncertainTaskCount = tasks.filter(isUncertain).length;
+
+  const planned = taskEnds(input);
+  const endsByTask = new Map<string, Array<string | null>>(
+    tasks.map((task) => [String(task.id), []])
+  );
+  for (let run = 0; run < runs; run++) {
+    const ends =
+      uncertainTaskCount > 0
+        ? taskEnds({
+            ...input,
+            tasks: input.tasks.map((task) => withSampledEffort(task, random)),
+            options: {
+              ...input.options,
+              virtualTasks: virtualTasks.map((task) => withSampledEffort(task, random)),
+            },
+          })
+        : planned;
+    endsByTask.forEach((list, taskId) => list.push(ends.get(taskId) ?? null));
+  }
+
+  const byP80 = <T extends ForecastDates>(a: T, b: T) =>
+    (a.p80 ?? "9999").localeCompare(b.p80 ?? "9999");
+
+  const taskForecasts: TaskForecast[] = tasks.map((task) => {
+    const ends = endsByTask.get(String(task.id))!;
+    const dueDate = task.due_date ?? null;
+    return {
+      task_id: String(task.id),
+      title: task.title,
+      client: task.client,
+      due_date: dueDate,
+      planned_end: planned.get(String(task.id)) ?? null,
+      ...percentiles(ends),
+      on_time_share: dueDate
+        ? ends.filter((end) => end !== null && end <= dueDate).length / runs
+        : null,
+      unscheduled_runs: ends.filter((end) => end === null).length,
+    };
+  });
+
+  // A client is done when its last task is; not at all if any task is unplanned
+  const tasksByClient = new Map<string, string[]>();
+  tasks.forEach((task) => {
+    tasksByClient.set(task.client, [
+      ...(tasksByClient.get(task.client) || []),
+      String(task.id),
+    ]);
+  });
+  const lastEnd = (ends: Array<string | null>) =>
+    ends.some((end) => end === null)
+      ? null
+      : (ends as string[]).reduce((latest, end) => (end > latest ? end : latest));
+
+  const clientForecasts: ClientForecast[] = [...tasksByClient].map(
+    ([client, taskIds]) => {
+      const ends = Array.from({ length: runs }, (_, run) =>
+        lastEnd(taskIds.map((taskId) => endsByTask.get(taskId)![run]))
+      );
+      return {
+        client,
+        planned_end: lastEnd(taskIds.map((taskId) => planned.get(taskId) ?? null)),
+        ...percentiles(ends),
+        unscheduled_runs: ends.filter((end) => end === null).length,
+      };
+    }
+  );
+
+  return {
+    runs,
+    uncertainTaskCount,
+    tasks: taskForecasts.sort(byP80),
+    clients: clientForecasts.sort(byP80),
+  };
+}
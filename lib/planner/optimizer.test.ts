@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  createRandom,
+  getWeightedLateness,
+  optimizeSchedule,
+} from "@/lib/planner/optimizer";
+import type { PlanResult, PlanningTask, ScheduleInput } from "@/lib/planner/scheduler";
+
+// 2030-01-07 is a Monday
+const MONDAY = "2030-01-07";
+
+const task = (
+  id: string,
+  effortHours: number,
+  extra: Partial<PlanningTask> = {}
+): PlanningTask => ({
+  id,
+  title: `Task ${id}`,
+  client: "Acme",
+  effort_hours: effortHours,
+  designation_required: "Developer",
+  ...extra,
+});
+
+const overdue = (taskId: string, daysOverdue: number): PlanResult => ({
+  task_id: taskId,
+  employee_id: "1",
+  start_date: MONDAY,
+  end_date: MONDAY,
+  total_hours: 8,
+  is_overdue: daysOverdue > 0,
+  days_overdue: daysOverdue,
+  daily_allocations: [],
+});
+
+const input = (tasks: PlanningTask[]): ScheduleInput => ({
+  employees: [{ id: "1", name: "Dev", designation: "Developer" }],
+  tasks,
+  leaves: [],
+  options: { startDate: MONDAY, strategy: "smallest_effort" },
+});
+
+describe("getWeightedLateness", () => {
+  it("weights each task's latest plan by its priority", () => {
+    const tasks = [task("a", 8, { priority: "Critical" }), task("b", 8, { priority: "Low" })];
+    const plans = [overdue("a", 1), overdue("a", 2), overdue("b", 3)];
+
+    expect(getWeightedLateness(plans, tasks)).toBe(2 * 5 + 3 * 1);
+  });
+
+  it("counts tasks without a priority as Medium", () => {
+    expect(getWeightedLateness([overdue("a", 2)], [task("a", 8)])).toBe(4);
+  });
+});
+
+describe("createRandom", () => {
+  it("repeats its sequence for a seed and stays in [0, 1)", () => {
+    const first = createRandom(42);
+    const second = createRandom(42);
+    const values = Array.from({ length: 100 }, () => first());
+
+    expect(values).toEqual(Array.from({ length: 100 }, () => second()));
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+    expect(createRandom(43)()).not.toBe(values[0]);
+  });
+});
+
+describe("optimizeSchedule", () => {
+  it("returns the greedy plan when nothing is late", () => {
+    const result = optimizeSchedule(input([task("a", 8, { due_date: "2030-01-31" })]), {
+      seed: 1,
+    });
+
+    expect(result.optimization).toMatchObject({
+      baselineLateness: 0,
+      optimizedLateness: 0,
+      iterations: 0,
+    });
+  });
+
+  it("reorders tasks to cut lateness", () => {
+    // Smallest effort first plans the 8h task first and the urgent one late
+    const result = optimizeSchedule(
+      input([
+        task("small", 8, { due_date: "2030-01-31" }),
+        task("urgent", 16, { due_date: "2030-01-08" }),
+      ]),
+      { seed: 1, timeBudgetMs: 2000 }
+    );
+
+    expect(result.optimization.baselineLateness).toBeGreaterThan(0);
+    expect(result.optimization.optimizedLateness).toBe(0);
+    expect(result.plans.find((p) => p.task_id === "urgent")).toMatchObject({
+      start_date: "2030-01-07",
+      end_date: "2030-01-08",
+    });
+    // The kept plan is explained like a greedy one
+    expect(result.plans[0].explanation).toBeTruthy();
+  });
+
+  it("never returns a plan worse than the greedy one", () => {
+    const result = optimizeSchedule(
+      input([
+        task("a", 40, { due_date: "2030-01-08" }),
+        task("b", 40, { due_date: "2030-01-09", priority: "High" }),
+      ]),
+      { seed: 7, timeBudgetMs: 300 }
+    );
+
+    expect(result.optimization.optimizedLateness).toBeLessThanOrEqual(
+      result.optimization.baselineLateness
+    );
+    expect(result.diagnostics.skippedTasks).toEqual([]);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Lateness-minimising search on top of the greedy planner
+ *
+ * Simulated annealing over the order tasks are planned in and the employee
+ * each task prefers. Every candidate is laid out by planSchedule itself, so
+ * designations, skills, leaves, holidays, locks and dependencies hold for it
+ * exactly as for a greedy plan. Pure and in-process like the scheduler.
+ */
+
+import {
+  canWorkOn,
+  planSchedule,
+  priorityWeight,
+  type PlanResult,
+  type PlanningTask,
+  type ScheduleInput,
+  type ScheduleResult,
+} from "@/lib/planner/scheduler";
+
+/** Search time when no budget is given */
+export const DEFAULT_OPTIMIZE_BUDGET_MS = 2000;
+
+/** Longest search allowed, to keep requests responsive */
+export const MAX_OPTIMIZE_BUDGET_MS = 10000;
+
+// Hard cap on candidate plans, so tiny inputs do not spin for the whole budget
+const MAX_ITERATIONS = 20000;
+
+// A task the search could not place costs more than any amount of lateness
+const SKIPPED_TASK_PENALTY = 1_000_000;
+
+export type OptimizeOptions = {
+  /** Milliseconds to search for; capped at MAX_OPTIMIZE_BUDGET_MS */
+  timeBudgetMs?: number;
+  /** Seed of the random moves, for repeatable runs */
+  seed?: number;
+};
+
+export type OptimizationReport = {
+  /** Weighted days overdue of the greedy plan */
+  baselineLateness: number;
+  /** Weighted days overdue of the returned plan */
+  optimizedLateness: number;
+  iterations: number;
+  elapsedMs: number;
+};
+
+export type OptimizeResult = ScheduleResult & {
+  optimization: OptimizationReport;
+};
+
+/**
+ * Total lateness of a plan: each task's days overdue (of the plan that
+ * finishes it last) weighted by its priority
+ */
+export function getWeightedLateness(
+  plans: PlanResult[],
+  tasks: PlanningTask[]
+): number {
+  const daysOverdueByTask = new Map<string, number>();
+  plans.forEach((plan) => {
+    const taskId = String(plan.task_id);
+    daysOverdueByTask.set(
+      taskId,
+      Math.max(daysOverdueByTask.get(taskId) || 0, plan.days_overdue)
+    );
+  });
+
+  return tasks.reduce(
+    (sum, task) =>
+      sum + (daysOverdueByTask.get(String(task.id)) || 0) * priorityWeight(task),
+    0
+  );
+}
+
+/** Small seeded generator (mulberry32); Math.random cannot be seeded */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type SearchState = {
+  order: string[];
+  preferredAssignees: Record<string, string>;
+};
+
+/**
+ * Plan with the greedy scheduler, then search for a plan with less
+ * priority-weighted lateness
+ *
+ * Moves swap two tasks in the planning order, pull an overdue task forward,
+ * or steer a task to another employee who can take it. Worse candidates are
+ * accepted with a probability that falls as the time budget runs out. The
+ * greedy plan is returned when nothing better is found.
+ *
+ * @throws DependencyCycleError when dependencies among the tasks form a loop
+ */
+export function optimizeSchedule(
+  input: ScheduleInput,
+  options: OptimizeOptions = {}
+): OptimizeResult {
+  const startedAt = Date.now();
+  const budget = Math.min(
+    Math.max(options.timeBudgetMs ?? DEFAULT_OPTIMIZE_BUDGET_MS, 0),
+    MAX_OPTIMIZE_BUDGET_MS
+  );
+  const random = createRandom(options.seed ?? startedAt);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  const cost = (result: ScheduleResult) =>
+    getWeightedLateness(result.plans, input.tasks) +
+    result.diagnostics.skippedTasks.length * SKIPPED_TASK_PENALTY;
+
+  const baseline = planSchedule(input);
+  const baselineLateness = getWeightedLateness(baseline.plans, input.tasks);
+  const report = (result: ScheduleResult, iterations: number): OptimizeResult => ({
+    ...result,
+    optimization: {
+      baselineLateness,
+      optimizedLateness: getWeightedLateness(result.plans, input.tasks),
+      iterations,
+      elapsedMs: Date.now() - startedAt,
+    },
+  });
+
+  if (baselineLateness === 0 || input.tasks.length === 0) {
+    return report(baseline, 0);
+  }
+
+  // Employees each task could be steered to, beyond the one it got
+  const eligibleByTask = new Map(
+    input.tasks.map((task) => [
+      String(task.id),
+      input.employees
+        .filter((emp) => emp.active !== false && canWorkOn(emp, task))
+        .map((emp) => String(emp.id)),
+    ])
+  );
+  const reassignable = input.tasks
+    .map((task) => String(task.id))
+    .filter((id) => eligibleByTask.get(id)!.length > 1);
+
+  // Start from the order the greedy plan started its tasks in
+  const firstStart = new Map<string, string>();
+  baseline.plans.forEach((plan) => {
+    const taskId = String(plan.task_id);
+    const start = firstStart.get(taskId);
+    if (!start || plan.start_date < start) firstStart.set(taskId, plan.start_date);
+  });
+  let current: SearchState = {
+    order: input.tasks
+      .map((task) => String(task.id))
+      .sort((a, b) =>
+        (firstStart.get(a) ?? "9999").localeCompare(firstStart.get(b) ?? "9999")
+      ),
+    preferredAssignees: {},
+  };
+
+  // Candidates are planned without explanations, which only the kept plan needs
+  const evaluate = (state: SearchState, explain = false) =>
+    planSchedule({
+      ...input,
+      options: {
+        ...input.options,
+        taskOrder: state.order,
+        preferredAssignees: state.preferredAssignees,
+        explain,
+      },
+    });
+
+  let currentResult = evaluate(current);
+  let currentCost = cost(currentResult);
+  let bestState: SearchState | null =
+    cost(baseline) <= currentCost ? null : current;
+  let bestCost = Math.min(cost(baseline), currentCost);
+  const initialTemperature = Math.max(bestCost * 0.1, 1);
+
+  let iterations = 0;
+  while (
+    iterations < MAX_ITERATIONS &&
+    bestCost > 0 &&
+    Date.now() - startedAt < budget
+  ) {
+    iterations++;
+    const next: SearchState = {
+      order: [...current.order],
+      preferredAssignees: { ...current.preferredAssignees },
+    };
+
+    const move = random();
+    const lateTaskIds = [
+      ...new Set(
+        currentResult.plans
+          .filter((plan) => plan.days_overdue > 0)
+          .map((plan) => String(plan.task_id))
+      ),
+    ];
+    if (move < 0.4 && lateTaskIds.length > 0) {
+      // Pull an overdue task forward in the order
+      const from = next.order.indexOf(pick(lateTaskIds));
+      const to = Math.floor(random() * (from + 1));
+      next.order.splice(to, 0, ...next.order.splice(from, 1));
+    } else if (move < 0.7 && reassignable.length > 0) {
+      // Steer a task, preferably a late one, to another eligible employee
+      const pool = lateTaskIds.filter((id) => reassignable.includes(id));
+      const taskId = pick(pool.length > 0 ? pool : reassignable);
+      next.preferredAssignees[taskId] = pick(eligibleByTask.get(taskId)!);
+    } else if (next.order.length > 1) {
+      // Swap two tasks
+      const i = Math.floor(random() * next.order.length);
+      const j = Math.floor(random() * next.order.length);
+      [next.order[i], next.order[j]] = [next.order[j], next.order[i]];
+    }
+
+    const nextResult = evaluate(next);
+    const nextCost = cost(nextResult);
+    const temperature =
+      initialTemperature * Math.max(1 - (Date.now() - startedAt) / budget, 0.01);
+
+    if (
+      nextCost <= currentCost ||
+      random() < Math.exp((currentCost - nextCost) / temperature)
+    ) {
+      current = next;
+      currentResult = nextResult;
+      currentCost = nextCost;
+      if (nextCost < bestCost) {
+        bestState = next;
+        bestCost = nextCost;
+      }
+    }
+  }
+
+  return report(bestState ? evaluate(bestState, true) : baseline, iterations);
+}
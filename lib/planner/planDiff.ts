@@ -0,0 +1,129 @@
+/**
+ * Compare two sets of plans deliverable by deliverable
+ *
+ * Plans are grouped per task and role (the effort line), so a task split
+ * between several employees is compared as a whole. Pure, like the
+ * scheduler, so it works on saved, simulated and stored plans alike.
+ */
+
+import { differenceInCalendarDays } from "date-fns";
+import type { PlanResult } from "@/lib/planner/scheduler";
+
+/** The fields of a plan the comparison looks at; ids may be numbers or strings */
+export type ComparablePlan = Pick<
+  PlanResult,
+  "start_date" | "end_date" | "total_hours"
+> & {
+  task_id: string | number;
+  employee_id: string | number;
+  days_overdue?: number;
+  role?: string | null;
+};
+
+/** One task (and role) as planned: its dates, hours and assignees */
+export type DeliverableSummary = {
+  start_date: string;
+  end_date: string;
+  total_hours: number;
+  days_overdue: number;
+  employee_ids: string[];
+};
+
+export type PlanChange = {
+  task_id: string;
+  role: string | null;
+  kind: "added" | "removed" | "changed";
+  before: DeliverableSummary | null;
+  after: DeliverableSummary | null;
+  /** Calendar days the end date moved (positive is later); 0 unless changed */
+  end_shift_days: number;
+  assignees_changed: boolean;
+};
+
+// Parse YYYY-MM-DD as a local date (new Date("YYYY-MM-DD") would be UTC)
+const parseLocalDate = (value: string): Date => {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+function summarise(plans: ComparablePlan[]): Map<string, DeliverableSummary> {
+  const summaries = new Map<string, DeliverableSummary>();
+  plans.forEach((plan) => {
+    const key = `${plan.task_id}|${plan.role ?? ""}`;
+    const employeeId = String(plan.employee_id);
+    const summary = summaries.get(key);
+    if (!summary) {
+      summaries.set(key, {
+        start_date: plan.start_date,
+        end_date: plan.end_date,
+        total_hours: plan.total_hours,
+        days_overdue: plan.days_overdue || 0,
+        employee_ids: [employeeId],
+      });
+      return;
+    }
+    if (plan.start_date < summary.start_date) summary.start_date = plan.start_date;
+    if (plan.end_date > summary.end_date) summary.end_date = plan.end_date;
+    summary.total_hours += plan.total_hours;
+    summary.days_overdue = Math.max(summary.days_overdue, plan.days_overdue || 0);
+    if (!summary.employee_ids.includes(employeeId)) {
+      summary.employee_ids.push(employeeId);
+    }
+  });
+  summaries.forEach((summary) => summary.employee_ids.sort());
+  return summaries;
+}
+
+/**
+ * What changed from `before` to `after`: deliverables newly planned, no
+ * longer planned, or planned with other dates, hours or assignees. Unchanged
+ * deliverables are left out; changes come in order of the (new) end date.
+ */
+export function diffPlans(
+  before: ComparablePlan[],
+  after: ComparablePlan[]
+): PlanChange[] {
+  const beforeByKey = summarise(before);
+  const afterByKey = summarise(after);
+  const changes: PlanChange[] = [];
+
+  new Set([...beforeByKey.keys(), ...afterByKey.keys()]).forEach((key) => {
+    const [taskId, role] = key.split("|");
+    const old = beforeByKey.get(key) ?? null;
+    const next = afterByKey.get(key) ?? null;
+    const base = { task_id: taskId, role: role || null, before: old, after: next };
+
+    if (!old || !next) {
+      changes.push({
+        ...base,
+        kind: old ? "removed" : "added",
+        end_shift_days: 0,
+        assignees_changed: false,
+      });
+      return;
+    }
+
+    const assigneesChanged = old.employee_ids.join() !== next.employee_ids.join();
+    if (
+      old.start_date === next.start_date &&
+      old.end_date === next.end_date &&
+      old.total_hours === next.total_hours &&
+      !assigneesChanged
+    ) {
+      return;
+    }
+    changes.push({
+      ...base,
+      kind: "changed",
+      end_shift_days: differenceInCalendarDays(
+        parseLocalDate(next.end_date),
+        parseLocalDate(old.end_date)
+      ),
+      assignees_changed: assigneesChanged,
+    });
+  });
+
+  return changes.sort((a, b) =>
+    (a.after ?? a.before)!.end_date.localeCompare((b.after ?? b.before)!.end_date)
+  );
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  comparePlanVersions,
+  findNewlyOverdue,
+  type IncomingPlan,
+  type StoredPlan,
+} from "@/lib/planner/planVersions";
+
+const stored = (
+  id: number,
+  taskId: number,
+  employeeId: number,
+  endDate: string,
+  extra: Partial<StoredPlan> = {}
+): StoredPlan => ({
+  id,
+  task_id: taskId,
+  employee_id: employeeId,
+  start_date: "2030-01-07",
+  end_date: endDate,
+  ...extra,
+});
+
+const incoming = (
+  taskId: string,
+  employeeId: string,
+  endDate: string,
+  extra: Partial<IncomingPlan> = {}
+): IncomingPlan => ({
+  task_id: taskId,
+  employee_id: employeeId,
+  start_date: "2030-01-07",
+  end_date: endDate,
+  is_overdue: false,
+  days_overdue: 0,
+  ...extra,
+});
+
+describe("comparePlanVersions", () => {
+  it("records moved dates and skips unchanged plans", () => {
+    const changes = comparePlanVersions(
+      [stored(1, 10, 100, "2030-01-08"), stored(2, 11, 100, "2030-01-09")],
+      [incoming("10", "100", "2030-01-11"), incoming("11", "100", "2030-01-09")]
+    );
+
+    expect(changes).toEqual([
+      {
+        plan_id: "1",
+        task_id: "10",
+        employee_id: "100",
+        old_employee_id: "100",
+        reassigned: false,
+        old_start_date: "2030-01-07",
+        old_end_date: "2030-01-08",
+        new_start_date: "2030-01-07",
+        new_end_date: "2030-01-11",
+        delta_days: 3,
+      },
+    ]);
+  });
+
+  it("records a task given to another employee", () => {
+    const [change] = comparePlanVersions(
+      [stored(1, 10, 100, "2030-01-10")],
+      [incoming("10", "200", "2030-01-08")]
+    );
+
+    expect(change).toMatchObject({
+      plan_id: "1",
+      employee_id: "200",
+      old_employee_id: "100",
+      reassigned: true,
+      delta_days: -2,
+    });
+  });
+
+  it("matches multi-role plans by their role", () => {
+    const changes = comparePlanVersions(
+      [
+        stored(1, 10, 100, "2030-01-08", { role: "Developer" }),
+        stored(2, 10, 200, "2030-01-10", { role: "QA" }),
+      ],
+      [
+        incoming("10", "100", "2030-01-08", { role: "Developer" }),
+        incoming("10", "200", "2030-01-14", { role: "QA" }),
+      ]
+    );
+
+    expect(changes.map((c) => [c.plan_id, c.reassigned, c.delta_days])).toEqual([
+      ["2", false, 4],
+    ]);
+  });
+
+  it("skips plans that were never stored", () => {
+    expect(
+      comparePlanVersions(
+        [stored(1, 10, 100, "2030-01-08")],
+        [incoming("virtual-1", "100", "2030-01-09"), incoming("10", "virtual-2", "2030-01-09")]
+      )
+    ).toEqual([]);
+    expect(comparePlanVersions([], [incoming("10", "100", "2030-01-09")])).toEqual([]);
+  });
+});
+
+describe("findNewlyOverdue", () => {
+  it("lists tasks late only in the new plans, most overdue first", () => {
+    const result = findNewlyOverdue(
+      [stored(1, 10, 100, "2030-01-08", { is_overdue: true }), stored(2, 11, 100, "2030-01-08")],
+      [
+        incoming("10", "100", "2030-01-14", { is_overdue: true, days_overdue: 5 }),
+        incoming("11", "100", "2030-01-09", { is_overdue: true, days_overdue: 1 }),
+        incoming("12", "100", "2030-01-09", { is_overdue: true, days_overdue: 2 }),
+        incoming("12", "200", "2030-01-10", { is_overdue: true, days_overdue: 3 }),
+        incoming("13", "100", "2030-01-09"),
+      ]
+    );
+
+    expect(result).toEqual([
+      { task_id: "12", days_overdue: 3 },
+      { task_id: "11", days_overdue: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Old-versus-new comparison of stored plans and the plans replacing them
+ *
+ * This is what a plan version records: plans of the same task and employee
+ * whose dates moved, and tasks given to another employee. Saving a
+ * generated plan or applying a simulation stores it in plan_versions; the
+ * apply preview shows it first.
+ */
+
+/** A plan as stored in the plans table; ids are numbers */
+export type StoredPlan = {
+  id: string | number;
+  task_id: string | number;
+  employee_id: string | number;
+  role?: string | null;
+  start_date: string;
+  end_date: string;
+  is_overdue?: boolean | null;
+};
+
+/** A plan from the simulation engine; ids are strings */
+export type IncomingPlan = {
+  task_id: string;
+  employee_id: string;
+  role?: string | null;
+  start_date: string;
+  end_date: string;
+  is_overdue: boolean;
+  days_overdue: number;
+};
+
+export type PlanVersionChange = {
+  /** Stored plan the change replaces */
+  plan_id: string;
+  task_id: string;
+  employee_id: string;
+  /** Employee of the stored plan; differs from employee_id when reassigned */
+  old_employee_id: string;
+  reassigned: boolean;
+  old_start_date: string;
+  old_end_date: string;
+  new_start_date: string;
+  new_end_date: string;
+  /** Days the end date moved (positive is later) */
+  delta_days: number;
+};
+
+/** A task late in the new plans that was not late in the stored ones */
+export type NewlyOverdueTask = {
+  task_id: string;
+  days_overdue: number;
+};
+
+/** What applying a simulation would change, with names for display */
+export type SimulationPreview = {
+  changes: Array<
+    PlanVersionChange & {
+      task_title: string;
+      employee_name: string;
+      old_employee_name: string;
+    }
+  >;
+  newlyOverdue: Array<NewlyOverdueTask & { task_title: string }>;
+};
+
+// Multi-role tasks have one plan per role, so the role is part of each key
+const taskKey = (plan: { task_id: string | number; role?: string | null }) =>
+  plan.role ? `${plan.task_id}:${plan.role}` : String(plan.task_id);
+
+const daysBetween = (from: string, to: string) =>
+  Math.floor(
+    (new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24)
+  );
+
+/**
+ * Compare stored plans with the plans replacing them
+ *
+ * A new plan of the same task (and role) and employee as a stored one is a
+ * change when its dates differ; one of a task stored for someone else is a
+ * reassignment. New plans with ids that are not numbers (never stored) are
+ * skipped.
+ */
+export function comparePlanVersions(
+  existing: StoredPlan[],
+  incoming: IncomingPlan[]
+): PlanVersionChange[] {
+  const existingPlansMap = new Map<string, StoredPlan>();
+  const existingTasksMap = new Map<string, StoredPlan>();
+  existing.forEach((plan) => {
+    existingPlansMap.set(`${taskKey(plan)}-${plan.employee_id}`, plan);
+    if (!existingTasksMap.has(taskKey(plan))) {
+      existingTasksMap.set(taskKey(plan), plan);
+    }
+  });
+
+  const changes: PlanVersionChange[] = [];
+  incoming.forEach((newPlan) => {
+    const taskIdNum = parseInt(newPlan.task_id, 10);
+    const employeeIdNum = parseInt(newPlan.employee_id, 10);
+    if (isNaN(taskIdNum) || isNaN(employeeIdNum)) return;
+
+    const key = `${taskKey({ ...newPlan, task_id: taskIdNum })}-${employeeIdNum}`;
+    const samePlan = existingPlansMap.get(key);
+    const oldPlan = samePlan ?? existingTasksMap.get(taskKey(newPlan));
+    if (!oldPlan) return;
+
+    const reassigned = !samePlan;
+    if (
+      !reassigned &&
+      oldPlan.start_date === newPlan.start_date &&
+      oldPlan.end_date === newPlan.end_date
+    ) {
+      return;
+    }
+    if (reassigned && Number(oldPlan.employee_id) === employeeIdNum) return;
+
+    changes.push({
+      plan_id: String(oldPlan.id),
+      task_id: String(newPlan.task_id),
+      employee_id: String(newPlan.employee_id),
+      old_employee_id: String(oldPlan.employee_id),
+      reassigned,
+      old_start_date: oldPlan.start_date,
+      old_end_date: oldPlan.end_date,
+      new_start_date: newPlan.start_date,
+      new_end_date: newPlan.end_date,
+      delta_days: daysBetween(oldPlan.end_date, newPlan.end_date),
+    });
+  });
+  return changes;
+}
+
+/**
+ * Tasks overdue in the new plans but in none of the stored plans, most
+ * overdue first
+ */
+export function findNewlyOverdue(
+  existing: StoredPlan[],
+  incoming: IncomingPlan[]
+): NewlyOverdueTask[] {
+  const wasOverdue = new Set(
+    existing.filter((plan) => plan.is_overdue).map((plan) => String(plan.task_id))
+  );
+
+  const byTask = new Map<string, number>();
+  incoming.forEach((plan) => {
+    const taskId = String(plan.task_id);
+    if (!plan.is_overdue || wasOverdue.has(taskId)) return;
+    byTask.set(taskId, Math.max(byTask.get(taskId) || 0, plan.days_overdue || 0));
+  });
+
+  return [...byTask]
+    .map(([task_id, days_overdue]) => ({ task_id, days_overdue }))
+    .sort((a, b) => b.days_overdue - a.days_overdue);
+}
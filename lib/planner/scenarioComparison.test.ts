@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { ComparablePlan } from "@/lib/planner/planDiff";
+import { comparePlans } from "@/lib/planner/scenarioComparison";
+
+const plan = (
+  taskId: string | number,
+  employeeId: string | number,
+  endDate: string,
+  extra: Partial<ComparablePlan> = {}
+): ComparablePlan => ({
+  task_id: taskId,
+  employee_id: employeeId,
+  start_date: "2030-01-07",
+  end_date: endDate,
+  total_hours: 8,
+  ...extra,
+});
+
+const clientByTask = new Map([
+  ["1", "Acme"],
+  ["2", "Acme"],
+  ["3", "Globex"],
+]);
+
+describe("comparePlans", () => {
+  it("takes the latest end of each task and client", () => {
+    const result = comparePlans(
+      [
+        [plan(1, 10, "2030-01-08"), plan(1, 11, "2030-01-10"), plan(2, 10, "2030-01-09")],
+        [plan(1, 10, "2030-01-08"), plan(2, 10, "2030-01-14")],
+      ],
+      clientByTask
+    );
+
+    expect(result.taskEnd).toEqual([
+      { id: "1", values: ["2030-01-10", "2030-01-08"], differs: true },
+      { id: "2", values: ["2030-01-09", "2030-01-14"], differs: true },
+    ]);
+    expect(result.clientDelivery).toEqual([
+      { id: "Acme", values: ["2030-01-10", "2030-01-14"], differs: true },
+    ]);
+  });
+
+  it("leaves a gap where a plan does not schedule a task", () => {
+    const result = comparePlans(
+      [[plan(1, 10, "2030-01-08"), plan(3, 10, "2030-01-09")], [plan(1, 10, "2030-01-08")]],
+      clientByTask
+    );
+
+    expect(result.taskEnd).toEqual([
+      { id: "1", values: ["2030-01-08", "2030-01-08"], differs: false },
+      { id: "3", values: ["2030-01-09", null], differs: true },
+    ]);
+    expect(result.clientDelivery.map((row) => row.id)).toEqual(["Acme", "Globex"]);
+  });
+
+  it("skips tasks without a known client in the delivery rows", () => {
+    const result = comparePlans([[plan(9, 10, "2030-01-08")]], clientByTask);
+
+    expect(result.taskEnd.map((row) => row.id)).toEqual(["9"]);
+    expect(result.clientDelivery).toEqual([]);
+  });
+
+  it("counts each task's overdue days once, by its latest plan", () => {
+    const result = comparePlans(
+      [
+        [
+          plan(1, 10, "2030-01-08", { days_overdue: 1 }),
+          plan(1, 11, "2030-01-10", { days_overdue: 3 }),
+          plan(2, 10, "2030-01-09", { days_overdue: 2 }),
+        ],
+        [plan(1, 10, "2030-01-08")],
+      ],
+      clientByTask
+    );
+
+    expect(result.totalDaysOverdue).toEqual({ id: "total", values: [5, 0], differs: true });
+  });
+
+  it("sums hours per employee, busiest first", () => {
+    const result = comparePlans(
+      [
+        [plan(1, 10, "2030-01-08"), plan(2, 11, "2030-01-09", { total_hours: 24 })],
+        [plan(1, 10, "2030-01-08"), plan(2, 10, "2030-01-09", { total_hours: 4 })],
+      ],
+      clientByTask
+    );
+
+    expect(result.employeeHours).toEqual([
+      { id: "11", values: [24, null], differs: true },
+      { id: "10", values: [8, 12], differs: true },
+    ]);
+  });
+});
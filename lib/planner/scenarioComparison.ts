@@ -0,0 +1,104 @@
+/**
+ * Comparison matrix of several plans (saved scenarios and the live plan)
+ *
+ * Each row is one measure, with a value per plan: the end date of each
+ * task, the delivery date of each client (the end of its last task), the
+ * total days overdue and the hours booked per employee. Rows where the plans
+ * disagree are flagged so they can be highlighted.
+ */
+
+import type { ComparablePlan } from "@/lib/planner/planDiff";
+
+export type ComparisonRow<T> = {
+  /** Task id, client name or employee id */
+  id: string;
+  /** One value per plan, in column order; null where it plans nothing */
+  values: Array<T | null>;
+  differs: boolean;
+};
+
+export type PlanComparison = {
+  totalDaysOverdue: ComparisonRow<number>;
+  clientDelivery: ComparisonRow<string>[];
+  taskEnd: ComparisonRow<string>[];
+  employeeHours: ComparisonRow<number>[];
+};
+
+const makeRow = <T>(id: string, values: Array<T | null>): ComparisonRow<T> => ({
+  id,
+  values,
+  differs: values.some((value) => value !== values[0]),
+});
+
+// Latest end date per key, e.g. per task
+function latestEnd(
+  plans: ComparablePlan[],
+  getKey: (plan: ComparablePlan) => string | null
+): Map<string, string> {
+  const ends = new Map<string, string>();
+  plans.forEach((plan) => {
+    const key = getKey(plan);
+    if (key === null) return;
+    const end = ends.get(key);
+    if (!end || plan.end_date > end) ends.set(key, plan.end_date);
+  });
+  return ends;
+}
+
+/**
+ * Build the comparison of the given plans, one column each
+ *
+ * Tasks and clients come in order of their earliest end date across the
+ * plans; employees in order of their most hours in any plan.
+ */
+export function comparePlans(
+  columns: ComparablePlan[][],
+  clientByTask: Map<string, string>
+): PlanComparison {
+  const taskEnds = columns.map((plans) => latestEnd(plans, (plan) => String(plan.task_id)));
+  const clientEnds = columns.map((plans) =>
+    latestEnd(plans, (plan) => clientByTask.get(String(plan.task_id)) ?? null)
+  );
+
+  // A task is overdue by its latest-finishing plan
+  const daysOverdue = columns.map((plans) => {
+    const byTask = new Map<string, number>();
+    plans.forEach((plan) => {
+      const taskId = String(plan.task_id);
+      byTask.set(taskId, Math.max(byTask.get(taskId) || 0, plan.days_overdue || 0));
+    });
+    return [...byTask.values()].reduce((sum, days) => sum + days, 0);
+  });
+
+  const hours = columns.map((plans) => {
+    const byEmployee = new Map<string, number>();
+    plans.forEach((plan) => {
+      const employeeId = String(plan.employee_id);
+      byEmployee.set(employeeId, (byEmployee.get(employeeId) || 0) + plan.total_hours);
+    });
+    return byEmployee;
+  });
+
+  const dateRows = (ends: Map<string, string>[]) =>
+    [...new Set(ends.flatMap((map) => [...map.keys()]))]
+      .map((id) => makeRow(id, ends.map((map) => map.get(id) ?? null)))
+      .sort((a, b) => {
+        const first = (row: ComparisonRow<string>) =>
+          row.values.filter((v): v is string => v !== null).sort()[0];
+        return first(a).localeCompare(first(b)) || a.id.localeCompare(b.id);
+      });
+
+  const employeeHours = [...new Set(hours.flatMap((map) => [...map.keys()]))]
+    .map((id) => makeRow(id, hours.map((map) => map.get(id) ?? null)))
+    .sort(
+      (a, b) =>
+        Math.max(...b.values.map((v) => v ?? 0)) - Math.max(...a.values.map((v) => v ?? 0))
+    );
+
+  return {
+    totalDaysOverdue: makeRow("total", daysOverdue),
+    clientDelivery: dateRows(clientEnds),
+    taskEnd: dateRows(taskEnds),
+    employeeHours,
+  };
+}
@@ -0,0 +1,401 @@
+import { describe, expect, it } from "vitest";
+import {
+  DependencyCycleError,
+  isVirtualId,
+  planSchedule,
+  validateSimulationLevers,
+  type PlanResult,
+  type PlanningEmployee,
+  type PlanningTask,
+  type ScheduleInput,
+} from "@/lib/planner/scheduler";
+
+// 2030-01-07 is a Monday
+const MONDAY = "2030-01-07";
+
+const employee = (
+  id: string,
+  designation = "Developer",
+  extra: Partial<PlanningEmployee> = {}
+): PlanningEmployee => ({ id, name: `Employee ${id}`, designation, ...extra });
+
+const task = (
+  id: string,
+  effortHours: number,
+  extra: Partial<PlanningTask> = {}
+): PlanningTask => ({
+  id,
+  title: `Task ${id}`,
+  client: "Acme",
+  effort_hours: effortHours,
+  designation_required: "Developer",
+  ...extra,
+});
+
+const lockedPlan = (
+  extra: Partial<PlanResult> & Pick<PlanResult, "task_id" | "employee_id">
+): PlanResult => ({
+  start_date: MONDAY,
+  end_date: MONDAY,
+  total_hours: 8,
+  is_overdue: false,
+  days_overdue: 0,
+  daily_allocations: [],
+  ...extra,
+});
+
+const plan = (input: Partial<ScheduleInput> & Pick<ScheduleInput, "employees" | "tasks">) =>
+  planSchedule({
+    leaves: [],
+    ...input,
+    options: { startDate: MONDAY, ...input.options },
+  });
+
+const plansOf = (result: ReturnType<typeof plan>, taskId: string) =>
+  result.plans.filter((p) => p.task_id === taskId);
+
+describe("planSchedule", () => {
+  describe("dependencies", () => {
+    it("starts a task the workday after its predecessor ends", () => {
+      const result = plan({
+        employees: [employee("1"), employee("2")],
+        tasks: [task("a", 16), task("b", 8)],
+        dependencies: [{ task_id: "b", depends_on_task_id: "a" }],
+      });
+
+      expect(plansOf(result, "a")[0]).toMatchObject({
+        start_date: "2030-01-07",
+        end_date: "2030-01-08",
+      });
+      expect(plansOf(result, "b")[0].start_date).toBe("2030-01-09");
+    });
+
+    it("throws on a dependency cycle", () => {
+      expect(() =>
+        plan({
+          employees: [employee("1")],
+          tasks: [task("a", 8), task("b", 8)],
+          dependencies: [
+            { task_id: "a", depends_on_task_id: "b" },
+            { task_id: "b", depends_on_task_id: "a" },
+          ],
+        })
+      ).toThrow(DependencyCycleError);
+    });
+
+    it("skips the successors of a task that cannot be planned", () => {
+      const result = plan({
+        employees: [employee("1")],
+        tasks: [task("a", 8, { designation_required: "QA" }), task("b", 8)],
+        dependencies: [{ task_id: "b", depends_on_task_id: "a" }],
+      });
+
+      expect(result.plans).toHaveLength(0);
+      expect(result.diagnostics.skippedTasks).toEqual([
+        expect.objectContaining({ task_id: "a", reason: "no_matching_designation" }),
+        expect.objectContaining({ task_id: "b", reason: "unscheduled_dependency" }),
+      ]);
+    });
+  });
+
+  describe("capacity and leaves", () => {
+    it("fills eight-hour workdays and skips the weekend", () => {
+      const result = plan({ employees: [employee("1")], tasks: [task("a", 44)] });
+
+      const [only] = result.plans;
+      expect(only.end_date).toBe("2030-01-14");
+      expect(only.daily_allocations.map((a) => a.hours)).toEqual([8, 8, 8, 8, 8, 4]);
+      expect(only.daily_allocations.map((a) => a.date)).not.toContain("2030-01-12");
+    });
+
+    it("skips full-day leave and shrinks the day for a half-day leave", () => {
+      const result = plan({
+        employees: [employee("1")],
+        tasks: [task("a", 20)],
+        leaves: [
+          { employee_id: "1", leave_date: "2030-01-08" },
+          { employee_id: "1", leave_date: "2030-01-09", portion: "am" },
+        ],
+      });
+
+      expect(result.plans[0].daily_allocations).toEqual([
+        { date: "2030-01-07", hours: 8 },
+        { date: "2030-01-09", hours: 4 },
+        { date: "2030-01-10", hours: 8 },
+      ]);
+    });
+
+    it("reports a task no matching employee has working hours for", () => {
+      const result = plan({
+        employees: [
+          employee("1", "Developer", {
+            working_hours: { mon: 0, tue: 0, wed: 0, thu: 0, fri: 0 },
+          }),
+        ],
+        tasks: [task("a", 8)],
+      });
+
+      expect(result.plans).toHaveLength(0);
+      expect(result.diagnostics.skippedTasks[0]).toMatchObject({
+        task_id: "a",
+        reason: "no_capacity",
+      });
+    });
+  });
+
+  describe("multi-role tasks", () => {
+    const effortLines = (developer: number, qa: number) => ({
+      effort_hours: developer + qa,
+      effort_lines: [
+        { designation: "Developer", effort_hours: developer },
+        { designation: "QA", effort_hours: qa },
+      ],
+    });
+
+    it("plans each role after the previous one", () => {
+      const result = plan({
+        employees: [employee("1"), employee("2", "QA")],
+        tasks: [task("a", 24, effortLines(16, 8))],
+      });
+
+      const [developer, qa] = plansOf(result, "a");
+      expect(developer).toMatchObject({ role: "Developer", employee_id: "1", end_date: "2030-01-08" });
+      expect(qa).toMatchObject({ role: "QA", employee_id: "2", start_date: "2030-01-09" });
+    });
+
+    it("frees the earlier roles' hours when a later role cannot finish", () => {
+      const result = plan({
+        employees: [employee("1"), employee("2", "QA", { end_date: "2030-01-10" })],
+        tasks: [task("a", 96, effortLines(16, 80)), task("b", 8)],
+        options: { strategy: "smallest_effort" },
+      });
+
+      expect(plansOf(result, "a")).toHaveLength(0);
+      expect(result.diagnostics.skippedTasks).toEqual([
+        expect.objectContaining({ task_id: "a", reason: "leaves_before_finish", role: "QA" }),
+      ]);
+      expect(result.diagnostics.hoursByEmployee).toEqual({ "1": 8, "2": 0 });
+    });
+  });
+
+  describe("locks", () => {
+    it("keeps fully locked plans and plans around their hours", () => {
+      const result = plan({
+        employees: [employee("1")],
+        tasks: [task("locked", 8), task("b", 8)],
+        lockedPlans: [lockedPlan({ task_id: "locked", employee_id: "1", lock_type: "both" })],
+      });
+
+      expect(plansOf(result, "locked")).toHaveLength(0);
+      expect(plansOf(result, "b")[0].start_date).toBe("2030-01-08");
+    });
+
+    it("keeps the locked assignee even when someone else is less loaded", () => {
+      const result = plan({
+        employees: [employee("1"), employee("2")],
+        tasks: [task("b", 8)],
+        lockedPlans: [
+          lockedPlan({ task_id: "a", employee_id: "1", lock_type: "both" }),
+          lockedPlan({ task_id: "b", employee_id: "1", lock_type: "assignee" }),
+        ],
+      });
+
+      expect(plansOf(result, "b")[0]).toMatchObject({
+        employee_id: "1",
+        start_date: "2030-01-08",
+        lock_type: "assignee",
+      });
+    });
+
+    it("starts a dates lock no earlier than its predecessors end", () => {
+      const result = plan({
+        employees: [employee("1"), employee("2")],
+        tasks: [task("a", 24), task("b", 8)],
+        dependencies: [{ task_id: "b", depends_on_task_id: "a" }],
+        lockedPlans: [lockedPlan({ task_id: "b", employee_id: "2", lock_type: "dates" })],
+      });
+
+      expect(plansOf(result, "b")[0].start_date).toBe("2030-01-10");
+      expect(plansOf(result, "b")[0].explanation?.start).toContain("held back");
+    });
+
+    it("skips a locked assignee without working hours instead of waiting for them", () => {
+      const result = plan({
+        employees: [
+          employee("1", "Developer", {
+            working_hours: { mon: 0, tue: 0, wed: 0, thu: 0, fri: 0 },
+          }),
+        ],
+        tasks: [task("a", 8)],
+        lockedPlans: [lockedPlan({ task_id: "a", employee_id: "1", lock_type: "assignee" })],
+      });
+
+      expect(result.plans).toHaveLength(0);
+      expect(result.diagnostics.skippedTasks[0]).toMatchObject({ task_id: "a" });
+    });
+  });
+
+  describe("horizon", () => {
+    it("leaves out overflow and its successors without booking their hours", () => {
+      const result = plan({
+        employees: [employee("1")],
+        tasks: [
+          task("big", 80, { due_date: "2030-01-08" }),
+          task("small", 8, { due_date: "2030-01-09" }),
+          task("after-big", 8, { due_date: "2030-01-10" }),
+        ],
+        dependencies: [{ task_id: "after-big", depends_on_task_id: "big" }],
+        options: { strategy: "earliest_due_date", horizonEnd: "2030-01-10" },
+      });
+
+      expect(result.plans.map((p) => [p.task_id, p.start_date])).toEqual([
+        ["small", "2030-01-07"],
+      ]);
+      expect(result.diagnostics.skippedTasks).toEqual([
+        expect.objectContaining({ task_id: "big", reason: "beyond_horizon" }),
+        expect.objectContaining({ task_id: "after-big", reason: "beyond_horizon" }),
+      ]);
+      expect(result.diagnostics.hoursByEmployee["1"]).toBe(8);
+    });
+  });
+
+  describe("started work", () => {
+    it("plans only the remaining hours with the employee who started", () => {
+      const result = plan({
+        employees: [employee("1"), employee("2")],
+        tasks: [task("a", 16)],
+        startedPlans: [
+          lockedPlan({
+            task_id: "a",
+            employee_id: "2",
+            start_date: "2030-01-03",
+            end_date: "2030-01-04",
+            total_hours: 16,
+            hours_spent: 8,
+          }),
+        ],
+      });
+
+      expect(result.plans).toHaveLength(1);
+      expect(result.plans[0]).toMatchObject({
+        employee_id: "2",
+        start_date: "2030-01-03",
+        end_date: "2030-01-07",
+        total_hours: 16,
+        hours_spent: 8,
+      });
+    });
+
+    it("keeps the days worked on completed plans booked", () => {
+      const result = plan({
+        employees: [employee("1")],
+        tasks: [task("a", 8)],
+        workedPlans: [
+          lockedPlan({
+            task_id: "done",
+            employee_id: "1",
+            daily_allocations: [{ date: MONDAY, hours: 8 }],
+          }),
+        ],
+      });
+
+      expect(result.plans[0].start_date).toBe("2030-01-08");
+    });
+  });
+
+  describe("simulation levers", () => {
+    it("plans a virtual hire from their start date", () => {
+      const result = plan({
+        employees: [employee("1")],
+        tasks: [task("a", 40), task("b", 40)],
+        options: {
+          virtualEmployees: [employee("virtual-1", "Developer", { start_date: "2030-01-14" })],
+        },
+      });
+
+      expect(plansOf(result, "b")[0]).toMatchObject({
+        employee_id: "virtual-1",
+        start_date: "2030-01-14",
+      });
+    });
+
+    it("plans a virtual task like a real one", () => {
+      const result = plan({
+        employees: [employee("1")],
+        tasks: [],
+        options: { virtualTasks: [task("virtual-1", 16, { due_date: "2030-01-08" })] },
+      });
+
+      expect(plansOf(result, "virtual-1")[0]).toMatchObject({
+        start_date: MONDAY,
+        end_date: "2030-01-08",
+        total_hours: 16,
+      });
+    });
+
+    it("changes effort by hours or percent", () => {
+      const result = plan({
+        employees: [employee("1"), employee("2")],
+        tasks: [task("a", 16), task("b", 16)],
+        options: {
+          effortOverrides: [
+            { task_id: "a", change: -8, unit: "hours" },
+            { task_id: "b", change: 50, unit: "percent" },
+          ],
+        },
+      });
+
+      expect(plansOf(result, "a")[0].total_hours).toBe(8);
+      expect(plansOf(result, "b")[0].total_hours).toBe(24);
+    });
+
+    it("plans against an overridden due date", () => {
+      const result = plan({
+        employees: [employee("1")],
+        tasks: [task("a", 16, { due_date: "2030-01-31" })],
+        options: { dueDateOverrides: [{ task_id: "a", due_date: MONDAY }] },
+      });
+
+      expect(result.plans[0]).toMatchObject({ is_overdue: true, days_overdue: 1 });
+    });
+  });
+});
+
+describe("validateSimulationLevers", () => {
+  it("accepts no levers and valid ones", () => {
+    expect(validateSimulationLevers({})).toBeNull();
+    expect(
+      validateSimulationLevers({
+        virtualEmployees: [employee("virtual-1", "QA", { start_date: "2030-01-14" })],
+        virtualTasks: [task("virtual-2", 8)],
+        effortOverrides: [{ task_id: "a", change: -10, unit: "percent" }],
+        dueDateOverrides: [{ task_id: "a", due_date: null }],
+      })
+    ).toBeNull();
+  });
+
+  it("rejects real ids, missing names, bad effort and bad dates", () => {
+    expect(validateSimulationLevers({ virtualEmployees: [employee("7")] })).toBe(
+      "Virtual employees need a virtual id"
+    );
+    expect(
+      validateSimulationLevers({ virtualEmployees: [employee("virtual-1", " ")] })
+    ).toBe("Virtual employees need a name and a designation");
+    expect(validateSimulationLevers({ virtualTasks: [task("virtual-1", 0)] })).toBe(
+      "Effort of Task virtual-1 must be a positive number of hours"
+    );
+    expect(
+      validateSimulationLevers({
+        effortOverrides: [{ task_id: "a", change: Number.NaN, unit: "hours" }],
+      })
+    ).toBe("Effort changes must be numbers");
+    expect(
+      validateSimulationLevers({ dueDateOverrides: [{ task_id: "a", due_date: "2030-02-30" }] })
+    ).toBe("Due date overrides must be valid dates (YYYY-MM-DD)");
+  });
+
+  it("tells virtual ids from real ones", () => {
+    expect(isVirtualId("virtual-3")).toBe(true);
+    expect(isVirtualId(3)).toBe(false);
+  });
+});
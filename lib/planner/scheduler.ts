@@ -0,0 +1,1816 @@
+/**
+ * Pure planning core
+ *
+ * Contains the greedy scheduling algorithm shared by real plan generation
+ * and what-if simulations. Everything in here works on plain in-memory data:
+ * no Supabase access, no logging side effects, so it can run offline.
+ */
+
+import { addDays, startOfDay } from "date-fns";
+import { formatDateLocal } from "@/lib/utils";
+import { meetsSkillRequirements } from "@/lib/skills/matching";
+import type { EmployeeSkill, SkillRequirement } from "@/types/database";
+
+export type PlanningEmployee = {
+  id: string;
+  name: string;
+  designation: string;
+  skills?: EmployeeSkill[] | null;
+  /** Hours available per weekday (sun–sat keys); missing days default to 8 */
+  working_hours?: Partial<Record<string, number>> | null;
+  /** Days of the week the employee works (sun–sat keys); defaults to mon–fri */
+  work_days?: readonly string[] | null;
+  /** Holiday calendar whose holidays are days off for this employee */
+  holiday_calendar_id?: string | number | null;
+  /** Deactivated employees (active false) are never assigned new work */
+  active?: boolean | null;
+  /** First day of employment (YYYY-MM-DD); no work is planned before it */
+  start_date?: string | null;
+  /** Last day of employment (YYYY-MM-DD); no work is planned after it */
+  end_date?: string | null;
+};
+
+export type PlanningTask = {
+  id: string;
+  title: string;
+  client: string;
+  effort_hours: number;
+  designation_required: string;
+  /** Skills the assignee must hold; when empty, designation_required is matched */
+  required_skills?: SkillRequirement[] | null;
+  /**
+   * Per-role effort worked one after another; when set, effort_hours is
+   * their total and required_skills apply to the designation_required line
+   */
+  effort_lines?: Array<{ designation: string; effort_hours: number }> | null;
+  /** Most employees the task (each effort line) may be split across; 1 = not splittable */
+  max_parallelism?: number | null;
+  /** Best-case and worst-case effort; effort_hours is the likely one (see forecast) */
+  effort_optimistic?: number | null;
+  effort_pessimistic?: number | null;
+  due_date?: string | null;
+  priority?: string | null;
+};
+
+export type LeavePortion = "full_day" | "am" | "pm" | "hours";
+
+export type PlanningLeave = {
+  id?: string;
+  employee_id: string;
+  leave_date: string;
+  /** Part of the day taken off; missing means a full day */
+  portion?: LeavePortion | null;
+  /** Hours taken off when portion is "hours" */
+  hours?: number | null;
+};
+
+export type PlanningHoliday = {
+  calendar_id: string | number;
+  holiday_date: string;
+  name?: string;
+};
+
+export type PlanningDependency = {
+  task_id: string;
+  depends_on_task_id: string;
+};
+
+export type DailyAllocation = {
+  date: string;
+  hours: number;
+};
+
+/**
+ * What a locked plan pins: its employee, its start date, or the whole row
+ * (employee, dates and daily hours)
+ */
+export type PlanLockType = "assignee" | "dates" | "both";
+
+/** A day inside (or just before) a plan the assignee did not work on it */
+export type SkippedDay = {
+  date: string;
+  reason: "day_off" | "holiday" | "leave" | "booked" | "not_employed";
+};
+
+/** An employee considered for a plan, as they stood when it was assigned */
+export type PlanCandidate = {
+  employee_id: string;
+  name: string;
+  /** Hours already allocated to the employee */
+  load_hours: number;
+  earliest_start: string;
+  /** Day they would finish, rated in earliest-finish mode only */
+  projected_finish: string | null;
+  picked: boolean;
+};
+
+/**
+ * Why a plan got its assignee and dates
+ */
+export type PlanExplanation = {
+  /** How employees were matched: required skills or designation */
+  match: string;
+  candidates: PlanCandidate[];
+  /** Why the assignee was picked */
+  reason: string;
+  /** Why the plan starts when it does */
+  start: string;
+  skipped_days: SkippedDay[];
+};
+
+export type PlanResult = {
+  task_id: string;
+  employee_id: string;
+  start_date: string;
+  end_date: string;
+  total_hours: number;
+  is_overdue: boolean;
+  days_overdue: number;
+  daily_allocations: DailyAllocation[];
+  /** Role of the effort line this plan covers; null for single-role tasks */
+  role?: string | null;
+  /** Set when the plan is locked against regeneration */
+  lock_type?: PlanLockType | null;
+  /** Hours logged against the plan so far; part of total_hours */
+  hours_spent?: number;
+  explanation?: PlanExplanation | null;
+};
+
+export type OrderingStrategy =
+  | "smallest_effort"
+  | "earliest_due_date"
+  | "priority_then_due"
+  | "wsjf";
+
+export const DEFAULT_ORDERING_STRATEGY: OrderingStrategy = "smallest_effort";
+
+export const ORDERING_STRATEGIES: Array<{
+  value: OrderingStrategy;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: "smallest_effort",
+    label: "Smallest effort first",
+    description: "Short tasks first for an even distribution of work",
+  },
+  {
+    value: "earliest_due_date",
+    label: "Earliest due date",
+    description: "Tasks with the nearest due date first; undated tasks last",
+  },
+  {
+    value: "priority_then_due",
+    label: "Priority, then due date",
+    description: "Highest priority first, nearest due date breaks ties",
+  },
+  {
+    value: "wsjf",
+    label: "Weighted shortest job first",
+    description: "Highest cost of delay (priority + urgency) per effort hour first",
+  },
+];
+
+export function isOrderingStrategy(value: unknown): value is OrderingStrategy {
+  return ORDERING_STRATEGIES.some((s) => s.value === value);
+}
+
+export function getOrderingStrategyLabel(value: string | null | undefined): string {
+  return (
+    ORDERING_STRATEGIES.find((s) => s.value === value)?.label ??
+    ORDERING_STRATEGIES.find((s) => s.value === DEFAULT_ORDERING_STRATEGY)!.label
+  );
+}
+
+/**
+ * How the assignee of a task is chosen among matching employees
+ */
+export type AssignmentMode = "least_loaded" | "earliest_finish";
+
+export const DEFAULT_ASSIGNMENT_MODE: AssignmentMode = "least_loaded";
+
+export const ASSIGNMENT_MODES: Array<{
+  value: AssignmentMode;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: "least_loaded",
+    label: "Least loaded",
+    description: "Employee with the fewest hours assigned so far",
+  },
+  {
+    value: "earliest_finish",
+    label: "Earliest finish",
+    description:
+      "Employee who would finish the task soonest given leaves and bookings; load breaks ties",
+  },
+];
+
+export function isAssignmentMode(value: unknown): value is AssignmentMode {
+  return ASSIGNMENT_MODES.some((m) => m.value === value);
+}
+
+export function getAssignmentModeLabel(value: string | null | undefined): string {
+  return (
+    ASSIGNMENT_MODES.find((m) => m.value === value)?.label ??
+    ASSIGNMENT_MODES.find((m) => m.value === DEFAULT_ASSIGNMENT_MODE)!.label
+  );
+}
+
+// Parse YYYY-MM-DD strictly; other strings are not dates
+const isValidDay = (value: unknown): value is string => {
+  const match = typeof value === "string" && value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return false;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getDate() === Number(match[3]);
+};
+
+/**
+ * Validate a plan start date and horizon end
+ *
+ * @returns an error message, or null when each is missing or a real
+ * YYYY-MM-DD date and the horizon does not end before the start
+ */
+export function validatePlanWindow(
+  startDate: unknown,
+  horizonEnd: unknown
+): string | null {
+  if (startDate != null && !isValidDay(startDate)) {
+    return "Plan start must be a valid date (YYYY-MM-DD)";
+  }
+  if (horizonEnd != null) {
+    if (!isValidDay(horizonEnd)) {
+      return "Horizon end must be a valid date (YYYY-MM-DD)";
+    }
+    const start =
+      typeof startDate === "string" ? startDate : formatDateLocal(new Date());
+    if (horizonEnd < start) {
+      return "Horizon end must be on or after the plan start";
+    }
+  }
+  return null;
+}
+
+export type SimulationOptions = {
+  strategy?: OrderingStrategy;
+  assignment?: AssignmentMode;
+  /** First day the plan may use (YYYY-MM-DD); defaults to today */
+  startDate?: string;
+  /** Last day of the plan (YYYY-MM-DD); tasks finishing later are overflow */
+  horizonEnd?: string;
+  delayedTasks?: Array<{ task_id: string; delay_days: number }>;
+  blockedEmployees?: Array<{ employee_id: string; from: string; to: string }>;
+  /** Hypothetical hires, planned like real employees from their start date */
+  virtualEmployees?: PlanningEmployee[];
+  /** Hypothetical tasks, planned like real ones */
+  virtualTasks?: PlanningTask[];
+  /** Effort added to (or, when negative, taken off) tasks */
+  effortOverrides?: EffortOverride[];
+  /** Due dates to plan tasks against instead of their own; null for none */
+  dueDateOverrides?: Array<{ task_id: string; due_date: string | null }>;
+};
+
+/** A change of a task's effort, in hours or percent of its effort */
+export type EffortOverride = {
+  task_id: string;
+  change: number;
+  unit: "hours" | "percent";
+};
+
+/** Prefix of the ids of virtual employees and tasks, which never clash with real ones */
+export const VIRTUAL_ID_PREFIX = "virtual-";
+
+/** Whether an employee or task id is one of a simulation's virtual ones */
+export const isVirtualId = (id: string | number): boolean =>
+  String(id).startsWith(VIRTUAL_ID_PREFIX);
+
+/**
+ * Validate a simulation's virtual employees and tasks and its overrides
+ *
+ * @returns an error message, or null when virtual ids carry the virtual
+ * prefix, names and dates are set and valid, and changes are numbers
+ */
+export function validateSimulationLevers(options: SimulationOptions): string | null {
+  for (const emp of options.virtualEmployees || []) {
+    if (!isVirtualId(emp.id)) return "Virtual employees need a virtual id";
+    if (!emp.name?.trim() || !emp.designation?.trim()) {
+      return "Virtual employees need a name and a designation";
+    }
+    if (emp.start_date != null && !isValidDay(emp.start_date)) {
+      return `Start date of ${emp.name} must be a valid date (YYYY-MM-DD)`;
+    }
+  }
+  for (const task of options.virtualTasks || []) {
+    if (!isVirtualId(task.id)) return "Virtual tasks need a virtual id";
+    if (!task.title?.trim() || !task.designation_required?.trim()) {
+      return "Virtual tasks need a title and a designation";
+    }
+    if (!Number.isFinite(task.effort_hours) || task.effort_hours <= 0) {
+      return `Effort of ${task.title} must be a positive number of hours`;
+    }
+    if (task.due_date != null && !isValidDay(task.due_date)) {
+      return `Due date of ${task.title} must be a valid date (YYYY-MM-DD)`;
+    }
+  }
+  for (const override of options.effortOverrides || []) {
+    if (!Number.isFinite(override.change)) {
+      return "Effort changes must be numbers";
+    }
+    if (override.unit !== "hours" && override.unit !== "percent") {
+      return "Effort changes must be in hours or percent";
+    }
+  }
+  for (const override of options.dueDateOverrides || []) {
+    if (override.due_date !== null && !isValidDay(override.due_date)) {
+      return "Due date overrides must be valid dates (YYYY-MM-DD)";
+    }
+  }
+  return null;
+}
+
+export type ScheduleOptions = SimulationOptions & {
+  /**
+   * Task ids in the order to plan them, overriding the strategy; unlisted
+   * tasks follow in strategy order. Locks and dependencies still come first.
+   */
+  taskOrder?: string[];
+  /** Employee to put on a task's team first, by task id, when they can take it */
+  preferredAssignees?: Record<string, string>;
+  /** Attach an explanation to every plan (default true) */
+  explain?: boolean;
+};
+
+export type ScheduleInput = {
+  employees: PlanningEmployee[];
+  tasks: PlanningTask[];
+  leaves: PlanningLeave[];
+  /** Calendar holidays; they apply to employees assigned to that calendar */
+  holidays?: PlanningHoliday[];
+  /** Finish-to-start links; links to tasks not in `tasks` count as satisfied */
+  dependencies?: PlanningDependency[];
+  /**
+   * Plans locked by the user. "both" locks stay as they are and their hours
+   * are booked before anything else; "assignee" and "dates" locks constrain
+   * how their task is planned again.
+   */
+  lockedPlans?: PlanResult[];
+  /**
+   * Open plans with hours logged against them. Only the effort not yet spent
+   * is planned; it stays with the same employees when they can still work,
+   * and their plans keep their original start date.
+   */
+  startedPlans?: PlanResult[];
+  /**
+   * Hours already worked on plans completed since the plan start; their
+   * daily allocations are booked like those of fully locked plans
+   */
+  workedPlans?: PlanResult[];
+  options?: ScheduleOptions;
+};
+
+export type SkippedTask = {
+  task_id: string;
+  reason:
+    | "no_matching_designation"
+    | "no_matching_skills"
+    | "inactive_candidates"
+    | "no_capacity"
+    | "leaves_before_finish"
+    | "zero_effort"
+    | "unscheduled_dependency"
+    | "beyond_horizon";
+  /** Effort line that could not be staffed, for multi-role tasks */
+  role?: string | null;
+};
+
+/** Why a task was left unscheduled, in words for the planner */
+export const UNSCHEDULED_REASONS: Record<SkippedTask["reason"], string> = {
+  no_matching_designation: "No employee has the required designation",
+  no_matching_skills: "No employee has the required skills",
+  inactive_candidates: "Every matching employee is inactive or has left",
+  no_capacity: "No matching employee has working hours",
+  leaves_before_finish: "Every matching employee leaves before they could finish it",
+  zero_effort: "The task has no effort to plan",
+  unscheduled_dependency: "A task it depends on could not be planned",
+  beyond_horizon: "It would finish after the planning horizon",
+};
+
+export type ScheduleDiagnostics = {
+  strategy: OrderingStrategy;
+  assignment: AssignmentMode;
+  tasksConsidered: number;
+  tasksPlanned: number;
+  skippedTasks: SkippedTask[];
+  hoursByEmployee: Record<string, number>;
+};
+
+export type ScheduleResult = {
+  plans: PlanResult[];
+  diagnostics: ScheduleDiagnostics;
+};
+
+export const DEFAULT_DAILY_HOURS = 8;
+
+// Keys of working_hours and work_days, indexed by Date.getDay()
+const WEEKDAY_KEYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/** All days of the week in display order (Monday first) */
+export const WEEKDAYS = [
+  { key: "mon", label: "Mon" },
+  { key: "tue", label: "Tue" },
+  { key: "wed", label: "Wed" },
+  { key: "thu", label: "Thu" },
+  { key: "fri", label: "Fri" },
+  { key: "sat", label: "Sat" },
+  { key: "sun", label: "Sun" },
+] as const;
+
+/** Work week used when neither the employee nor their calendar sets one */
+export const DEFAULT_WORK_DAYS: readonly string[] = [
+  "mon",
+  "tue",
+  "wed",
+  "thu",
+  "fri",
+];
+
+export function isWeekdayKey(value: unknown): boolean {
+  return typeof value === "string" && WEEKDAY_KEYS.includes(value);
+}
+
+/**
+ * Whether a value is a usable work week: at least one distinct weekday key
+ */
+export function isValidWorkWeek(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(isWeekdayKey) &&
+    new Set(value).size === value.length
+  );
+}
+
+/**
+ * Days of the week an employee works
+ * A missing or empty pattern falls back to Monday–Friday.
+ */
+export function getWorkDays(
+  employee: Pick<PlanningEmployee, "work_days">
+): readonly string[] {
+  const days = employee.work_days?.filter(isWeekdayKey);
+  return days && days.length > 0 ? days : DEFAULT_WORK_DAYS;
+}
+
+/**
+ * Whether the date falls on one of the given work days
+ */
+export function isWorkDay(workDays: readonly string[], date: Date): boolean {
+  return workDays.includes(WEEKDAY_KEYS[date.getDay()]);
+}
+
+/**
+ * Whether a date falls within an employee's employment
+ * Both dates are inclusive; a missing one leaves that end open.
+ */
+export function isEmployedOn(
+  employee: Pick<PlanningEmployee, "start_date" | "end_date">,
+  date: Date
+): boolean {
+  const dateStr = formatDateLocal(date);
+  return (
+    (!employee.start_date || dateStr >= employee.start_date) &&
+    (!employee.end_date || dateStr <= employee.end_date)
+  );
+}
+
+/**
+ * Why an existing plan needs another assignee, or null when its employee is
+ * active and employed for the whole plan
+ */
+export function getReassignmentReason(
+  employee: Pick<PlanningEmployee, "active" | "start_date" | "end_date">,
+  plan: Pick<PlanResult, "start_date" | "end_date">
+): string | null {
+  if (employee.active === false) return "Employee is inactive";
+  if (employee.end_date && plan.end_date > employee.end_date) {
+    return `Employee leaves on ${employee.end_date}`;
+  }
+  if (employee.start_date && plan.start_date < employee.start_date) {
+    return `Employee joins on ${employee.start_date}`;
+  }
+  return null;
+}
+
+/**
+ * Hours an employee can work on a given date, before leaves
+ * Days outside the employee's work week have no capacity; work days use
+ * working_hours or the 8h default.
+ */
+export function getDailyCapacity(
+  employee: Pick<PlanningEmployee, "working_hours" | "work_days">,
+  date: Date
+): number {
+  if (!isWorkDay(getWorkDays(employee), date)) return 0;
+  const hours = employee.working_hours?.[WEEKDAY_KEYS[date.getDay()]];
+  return typeof hours === "number" && hours >= 0 ? hours : DEFAULT_DAILY_HOURS;
+}
+
+/**
+ * Hours a single leave takes out of a day with the given capacity
+ * Half days take half the capacity; hourly leave never exceeds the capacity.
+ */
+export function getLeaveHours(
+  leave: Pick<PlanningLeave, "portion" | "hours">,
+  capacity: number
+): number {
+  switch (leave.portion) {
+    case "am":
+    case "pm":
+      return capacity / 2;
+    case "hours":
+      return Math.min(Math.max(leave.hours ?? 0, 0), capacity);
+    default:
+      return capacity;
+  }
+}
+
+/**
+ * Capacity left on a day after all of the employee's leaves on that day
+ */
+export function getCapacityAfterLeave(
+  capacity: number,
+  leaves: Array<Pick<PlanningLeave, "portion" | "hours">>
+): number {
+  const leaveHours = leaves.reduce(
+    (sum, leave) => sum + getLeaveHours(leave, capacity),
+    0
+  );
+  return Math.max(capacity - leaveHours, 0);
+}
+
+// Weekly capacity, used to exclude employees who can never take work
+const getWeeklyCapacity = (employee: PlanningEmployee): number =>
+  [1, 2, 3, 4, 5, 6, 7].reduce(
+    (sum, offset) =>
+      // 2024-01-01 was a Monday; any seven consecutive days work
+      sum + getDailyCapacity(employee, new Date(2024, 0, offset)),
+    0
+  );
+
+/**
+ * Whether an employee can take a task
+ * Tasks with required skills need an employee holding all of them at the
+ * required level; tasks without fall back to the designation.
+ */
+export function canWorkOn(
+  employee: Pick<PlanningEmployee, "designation" | "skills">,
+  task: Pick<PlanningTask, "designation_required" | "required_skills">
+): boolean {
+  return task.required_skills && task.required_skills.length > 0
+    ? meetsSkillRequirements(employee.skills, task.required_skills)
+    : employee.designation === task.designation_required;
+}
+
+// Weight of each priority level; unknown or missing priority counts as Medium
+const PRIORITY_WEIGHTS: Record<string, number> = {
+  Low: 1,
+  Medium: 2,
+  High: 3,
+  Critical: 5,
+};
+
+export const priorityWeight = (task: Pick<PlanningTask, "priority">): number =>
+  PRIORITY_WEIGHTS[task.priority ?? ""] ?? PRIORITY_WEIGHTS.Medium;
+
+// Time criticality for WSJF: the closer the due date, the higher the score
+const timeCriticality = (task: PlanningTask, today: Date): number => {
+  if (!task.due_date) return 0;
+  const daysUntilDue =
+    (new Date(task.due_date).getTime() - today.getTime()) / (1000 * 60 * 60 * 24);
+  if (daysUntilDue <= 7) return 5;
+  if (daysUntilDue <= 14) return 3;
+  if (daysUntilDue <= 28) return 2;
+  return 1;
+};
+
+// Compare due dates, placing tasks without a due date last
+const compareDueDates = (a: PlanningTask, b: PlanningTask): number => {
+  if (a.due_date && b.due_date) return a.due_date.localeCompare(b.due_date);
+  if (a.due_date) return -1;
+  if (b.due_date) return 1;
+  return 0;
+};
+
+/**
+ * Build the comparator that decides in which order tasks are scheduled
+ * Every strategy falls back to smallest effort to keep the order stable.
+ */
+function getTaskComparator(
+  strategy: OrderingStrategy,
+  today: Date
+): (a: PlanningTask, b: PlanningTask) => number {
+  const byEffort = (a: PlanningTask, b: PlanningTask) =>
+    a.effort_hours - b.effort_hours;
+
+  switch (strategy) {
+    case "earliest_due_date":
+      return (a, b) => compareDueDates(a, b) || byEffort(a, b);
+    case "priority_then_due":
+      return (a, b) =>
+        priorityWeight(b) - priorityWeight(a) ||
+        compareDueDates(a, b) ||
+        byEffort(a, b);
+    case "wsjf": {
+      const score = (t: PlanningTask) =>
+        (priorityWeight(t) + timeCriticality(t, today)) /
+        Math.max(t.effort_hours, 1);
+      return (a, b) => score(b) - score(a) || byEffort(a, b);
+    }
+    case "smallest_effort":
+    default:
+      return byEffort;
+  }
+}
+
+/**
+ * Raised when task dependencies form a loop and no valid order exists
+ */
+export class DependencyCycleError extends Error {
+  constructor(public readonly cycle: Array<{ id: string; title: string }>) {
+    const path = [...cycle, cycle[0]].map((t) => t.title).join(" → ");
+    super(`Task dependencies contain a cycle: ${path}`);
+    this.name = "DependencyCycleError";
+  }
+}
+
+/**
+ * Find a dependency cycle, if any
+ *
+ * Returns the task IDs forming the loop (in dependency order), or null
+ * when the dependency graph is acyclic.
+ */
+export function findDependencyCycle(
+  dependencies: PlanningDependency[]
+): string[] | null {
+  const predecessors = new Map<string, string[]>();
+  dependencies.forEach((d) => {
+    const taskId = String(d.task_id);
+    if (!predecessors.has(taskId)) predecessors.set(taskId, []);
+    predecessors.get(taskId)!.push(String(d.depends_on_task_id));
+  });
+
+  // Depth-first search, tracking the current path to report the loop
+  const visited = new Set<string>();
+  const onPath: string[] = [];
+
+  const visit = (taskId: string): string[] | null => {
+    const pathIndex = onPath.indexOf(taskId);
+    if (pathIndex !== -1) return onPath.slice(pathIndex);
+    if (visited.has(taskId)) return null;
+
+    visited.add(taskId);
+    onPath.push(taskId);
+    for (const predecessorId of predecessors.get(taskId) || []) {
+      const cycle = visit(predecessorId);
+      if (cycle) return cycle;
+    }
+    onPath.pop();
+    return null;
+  };
+
+  for (const taskId of predecessors.keys()) {
+    const cycle = visit(taskId);
+    if (cycle) return cycle.reverse();
+  }
+  return null;
+}
+
+/**
+ * Expand blocked date ranges into per-day leave entries
+ */
+function expandBlockedRanges(
+  blockedEmployees: SimulationOptions["blockedEmployees"]
+): PlanningLeave[] {
+  const blockedLeaves: PlanningLeave[] = [];
+  blockedEmployees?.forEach((be) => {
+    const toDate = new Date(be.to);
+    let current = new Date(be.from);
+
+    while (current <= toDate) {
+      const dateStr = formatDateLocal(current);
+      blockedLeaves.push({
+        id: `sim-${be.employee_id}-${dateStr}`,
+        employee_id: be.employee_id,
+        leave_date: dateStr,
+      });
+      current = addDays(current, 1);
+    }
+  });
+  return blockedLeaves;
+}
+
+/**
+ * Add a simulation's virtual employees and tasks to the real ones and apply
+ * its effort and due-date overrides, on copies; a multi-role task's effort
+ * lines are scaled together
+ */
+function applySimulationLevers(
+  employees: PlanningEmployee[],
+  tasks: PlanningTask[],
+  options: SimulationOptions
+): { employees: PlanningEmployee[]; tasks: PlanningTask[] } {
+  const effortOverrides = new Map(
+    (options.effortOverrides || []).map((o) => [String(o.task_id), o])
+  );
+  const dueDateOverrides = new Map(
+    (options.dueDateOverrides || []).map((o) => [String(o.task_id), o.due_date])
+  );
+
+  return {
+    employees: [...employees, ...(options.virtualEmployees || [])],
+    tasks: [...tasks, ...(options.virtualTasks || [])].map((task) => {
+      const override = effortOverrides.get(String(task.id));
+      const dueDate = dueDateOverrides.get(String(task.id));
+      if (!override && dueDate === undefined) return task;
+
+      const changed = { ...task };
+      if (dueDate !== undefined) changed.due_date = dueDate;
+      if (override) {
+        const effort = Math.max(
+          override.unit === "percent"
+            ? task.effort_hours * (1 + override.change / 100)
+            : task.effort_hours + override.change,
+          0
+        );
+        const scale = task.effort_hours > 0 ? effort / task.effort_hours : 0;
+        changed.effort_hours = Math.round(effort * 100) / 100;
+        changed.effort_lines = task.effort_lines?.map((line) => ({
+          ...line,
+          effort_hours: Math.round(line.effort_hours * scale * 100) / 100,
+        }));
+      }
+      return changed;
+    }),
+  };
+}
+
+type EffortLine = {
+  role: string | null;
+  designation: string;
+  effort_hours: number;
+};
+
+/**
+ * Split a task into the effort lines to schedule, in working order
+ * Tasks without effort lines are a single line for designation_required.
+ */
+function getEffortLines(task: PlanningTask): EffortLine[] {
+  const lines = (task.effort_lines || []).filter((l) => l.effort_hours > 0);
+  if (lines.length === 0) {
+    return [
+      {
+        role: null,
+        designation: task.designation_required,
+        effort_hours: task.effort_hours,
+      },
+    ];
+  }
+  return lines.map((l) => ({ role: l.designation, ...l }));
+}
+
+/**
+ * Calculate overdue status of a task finishing on endDate
+ */
+function calculateOverdue(
+  dueDate: string | null | undefined,
+  endDate: string
+): { is_overdue: boolean; days_overdue: number } {
+  if (!dueDate) return { is_overdue: false, days_overdue: 0 };
+
+  const due = new Date(dueDate);
+  const calculatedEndDate = new Date(endDate);
+
+  if (calculatedEndDate <= due) return { is_overdue: false, days_overdue: 0 };
+
+  const diffTime = calculatedEndDate.getTime() - due.getTime();
+  return {
+    is_overdue: true,
+    days_overdue: Math.ceil(diffTime / (1000 * 60 * 60 * 24)),
+  };
+}
+
+// Longest stretch a manually placed plan may be laid out over
+const MAX_PLACEMENT_DAYS = 366;
+
+// Furthest the planner looks ahead for free capacity, so an employee who can
+// never work (e.g. on leave indefinitely) cannot stall it
+const MAX_LOOKAHEAD_DAYS = 366 * 10;
+
+export type PlacementInput = {
+  employee: PlanningEmployee;
+  hours: number;
+  startDate: Date;
+  /** Leaves of this employee */
+  leaves: PlanningLeave[];
+  holidays: PlanningHoliday[];
+  /** Hours other plans already book for the employee, keyed by date */
+  bookedHours?: Map<string, number>;
+  dueDate?: string | null;
+};
+
+export type Placement = Pick<
+  PlanResult,
+  "start_date" | "end_date" | "daily_allocations" | "is_overdue" | "days_overdue"
+>;
+
+/**
+ * Lay a plan's hours out for one employee from a chosen start date
+ * Used when a plan is moved by hand. The start date must be a day the
+ * employee can work; later days outside their work week, holidays and
+ * leaves are skipped, and hours other plans book are left free. All hours
+ * must fit within the employee's employment.
+ *
+ * @returns the placement, or an error message when it cannot be placed
+ */
+export function placeHours(
+  input: PlacementInput
+): { placement: Placement } | { error: string } {
+  const { employee, startDate, bookedHours } = input;
+  const startKey = formatDateLocal(startDate);
+  const holidayKeys = new Set(
+    input.holidays
+      .filter((h) => String(h.calendar_id) === String(employee.holiday_calendar_id))
+      .map((h) => h.holiday_date)
+  );
+  const leavesOn = (dateStr: string) =>
+    input.leaves.filter((l) => l.leave_date === dateStr);
+
+  if (!isEmployedOn(employee, startDate)) {
+    return { error: `${employee.name} is not employed on ${startKey}` };
+  }
+  if (!isWorkDay(getWorkDays(employee), startDate)) {
+    return { error: `${employee.name} does not work on that day of the week` };
+  }
+  if (holidayKeys.has(startKey)) {
+    return { error: `${startKey} is a holiday for ${employee.name}` };
+  }
+  if (
+    getCapacityAfterLeave(getDailyCapacity(employee, startDate), leavesOn(startKey)) === 0
+  ) {
+    return { error: `${employee.name} is on leave on ${startKey}` };
+  }
+
+  const dailyAllocations: DailyAllocation[] = [];
+  let remaining = input.hours;
+  for (
+    let day = 0, current = startOfDay(startDate);
+    remaining > 0 && day < MAX_PLACEMENT_DAYS;
+    day++, current = addDays(current, 1)
+  ) {
+    const dateStr = formatDateLocal(current);
+    if (employee.end_date && dateStr > employee.end_date) break;
+    if (holidayKeys.has(dateStr)) continue;
+    const free =
+      getCapacityAfterLeave(getDailyCapacity(employee, current), leavesOn(dateStr)) -
+      (bookedHours?.get(dateStr) || 0);
+    if (free <= 0) continue;
+
+    const hours = Math.min(free, remaining);
+    dailyAllocations.push({ date: dateStr, hours });
+    remaining -= hours;
+  }
+
+  if (remaining > 0 && employee.end_date) {
+    return {
+      error: `${employee.name} leaves on ${employee.end_date}, before ${input.hours}h from ${startKey} could be done`,
+    };
+  }
+  if (remaining > 0 || dailyAllocations.length === 0) {
+    return {
+      error: `${employee.name} has no room for ${input.hours}h within a year of ${startKey}`,
+    };
+  }
+
+  const endDate = dailyAllocations[dailyAllocations.length - 1].date;
+  return {
+    placement: {
+      start_date: dailyAllocations[0].date,
+      end_date: endDate,
+      daily_allocations: dailyAllocations,
+      ...calculateOverdue(input.dueDate, endDate),
+    },
+  };
+}
+
+/**
+ * Schedule tasks onto employees
+ *
+ * Tasks are processed in the order of the selected strategy (smallest effort
+ * first by default), but never before all of their predecessors. Each task
+ * goes to the employee with the least allocated hours among those holding its
+ * required skills (or its designation, for tasks without skills), or in
+ * earliest-finish mode to the one who would complete it soonest, and is laid
+ * out sequentially over the employee's daily capacity, skipping days outside
+ * their work week, calendar holidays, full-day leaves and blocked days;
+ * half-day and hourly leaves shrink the day instead. Small tasks can share a
+ * day until its capacity is used up. A task starts no earlier than the
+ * workday after its latest predecessor ends. Multi-role tasks schedule each
+ * effort line to an employee with that role, one line after the other, and
+ * produce one plan per line. Splittable tasks spread each line over up to
+ * max_parallelism of the least-loaded matching employees working in
+ * parallel, with one plan per assignee. Fully locked plans are kept as they
+ * are and their days count as occupied; assignee and date locks pin the
+ * employee or start date of the plan they are regenerated into. With a
+ * horizon, tasks finishing after it are left out and reported as overflow.
+ * Simulation options can add virtual employees and tasks and override task
+ * efforts and due dates before anything is scheduled.
+ *
+ * @throws DependencyCycleError when dependencies among `tasks` form a loop
+ */
+export function planSchedule(input: ScheduleInput): ScheduleResult {
+  const { options = {} } = input;
+  const { employees, tasks } = applySimulationLevers(
+    input.employees,
+    input.tasks,
+    options
+  );
+  const assignmentMode = options.assignment ?? DEFAULT_ASSIGNMENT_MODE;
+  const explain = options.explain ?? true;
+  let planStart = startOfDay(new Date());
+  if (options.startDate) {
+    const [year, month, day] = options.startDate.split("-").map(Number);
+    planStart = new Date(year, month - 1, day);
+  }
+
+  // Only dependencies between tasks being planned constrain the schedule
+  const tasksById = new Map(tasks.map((t) => [String(t.id), t]));
+  const dependencies = (input.dependencies || []).filter(
+    (d) =>
+      tasksById.has(String(d.task_id)) &&
+      tasksById.has(String(d.depends_on_task_id))
+  );
+
+  const cycle = findDependencyCycle(dependencies);
+  if (cycle) {
+    throw new DependencyCycleError(
+      cycle.map((id) => ({ id, title: tasksById.get(id)!.title }))
+    );
+  }
+
+  const predecessorsByTask = new Map<string, string[]>();
+  dependencies.forEach((d) => {
+    const taskId = String(d.task_id);
+    if (!predecessorsByTask.has(taskId)) predecessorsByTask.set(taskId, []);
+    predecessorsByTask.get(taskId)!.push(String(d.depends_on_task_id));
+  });
+
+  // Index leaves (real + simulated blocks) by employee/date for fast lookup
+  const leavesByDay = new Map<string, PlanningLeave[]>();
+  [...input.leaves, ...expandBlockedRanges(options.blockedEmployees)].forEach(
+    (l) => {
+      const key = `${l.employee_id}|${l.leave_date}`;
+      if (!leavesByDay.has(key)) {
+        leavesByDay.set(key, []);
+      }
+      leavesByDay.get(key)!.push(l);
+    }
+  );
+
+  // Index holidays by calendar/date
+  const holidayKeys = new Set(
+    (input.holidays || []).map((h) => `${h.calendar_id}|${h.holiday_date}`)
+  );
+
+  const delayedTasksMap = new Map<string, number>();
+  options.delayedTasks?.forEach((dt) => {
+    delayedTasksMap.set(String(dt.task_id), dt.delay_days);
+  });
+
+  // Index locked plans by task and role (effort line)
+  const locksByLine = new Map<string, PlanResult[]>();
+  (input.lockedPlans || []).forEach((lock) => {
+    const key = `${lock.task_id}|${lock.role ?? ""}`;
+    if (!locksByLine.has(key)) {
+      locksByLine.set(key, []);
+    }
+    locksByLine.get(key)!.push(lock);
+  });
+  const lockedTaskIds = new Set(
+    (input.lockedPlans || []).map((lock) => String(lock.task_id))
+  );
+
+  // Index started plans the same way; fully locked ones are kept as they are
+  const startedByLine = new Map<string, PlanResult[]>();
+  (input.startedPlans || [])
+    .filter((plan) => plan.lock_type !== "both" && (plan.hours_spent || 0) > 0)
+    .forEach((plan) => {
+      const key = `${plan.task_id}|${plan.role ?? ""}`;
+      if (!startedByLine.has(key)) {
+        startedByLine.set(key, []);
+      }
+      startedByLine.get(key)!.push(plan);
+    });
+
+  // Sort tasks by the selected ordering strategy, locked tasks first so
+  // their agreed assignee and dates are honoured before others take the time
+  const compareTasks = getTaskComparator(
+    options.strategy ?? DEFAULT_ORDERING_STRATEGY,
+    planStart
+  );
+  const orderRank = new Map(
+    (options.taskOrder || []).map((id, index) => [String(id), index])
+  );
+  const rankOf = (task: PlanningTask) =>
+    orderRank.get(String(task.id)) ?? Number.MAX_SAFE_INTEGER;
+  const sortedTasks = [...tasks].sort(
+    (a, b) =>
+      Number(lockedTaskIds.has(String(b.id))) -
+        Number(lockedTaskIds.has(String(a.id))) ||
+      rankOf(a) - rankOf(b) ||
+      compareTasks(a, b)
+  );
+
+  // Keep the strategy order, but hold each task back until its predecessors
+  // have been processed (the graph is acyclic, so this always terminates)
+  const orderedTasks: PlanningTask[] = [];
+  const processed = new Set<string>();
+  while (orderedTasks.length < sortedTasks.length) {
+    const next = sortedTasks.find(
+      (t) =>
+        !processed.has(String(t.id)) &&
+        (predecessorsByTask.get(String(t.id)) || []).every((id) =>
+          processed.has(id)
+        )
+    )!;
+    orderedTasks.push(next);
+    processed.add(String(next.id));
+  }
+
+  const plans: PlanResult[] = [];
+  const plansByTask = new Map<string, PlanResult>();
+  const skippedTasks: SkippedTask[] = [];
+  const employeeWorkload: Map<string, Date> = new Map(); // Track when each employee is next available
+  const workload: Record<string, number> = {}; // Track total hours allocated per employee
+  const usedHours: Map<string, number> = new Map(); // Hours booked per employee per day
+  const employeesById = new Map<string, PlanningEmployee>();
+
+  employees.forEach((emp) => {
+    employeeWorkload.set(String(emp.id), new Date(planStart));
+    workload[String(emp.id)] = 0;
+    employeesById.set(String(emp.id), emp);
+  });
+
+  // Helper: check if the employee's holiday calendar has a holiday that day
+  const isHoliday = (empId: string, date: Date): boolean => {
+    const calendarId = employeesById.get(empId)!.holiday_calendar_id;
+    return (
+      calendarId != null &&
+      holidayKeys.has(`${calendarId}|${formatDateLocal(date)}`)
+    );
+  };
+
+  // Helper: whether the employee's employment ended before that day
+  const hasLeft = (empId: string, date: Date): boolean => {
+    const endDate = employeesById.get(empId)!.end_date;
+    return !!endDate && formatDateLocal(date) > endDate;
+  };
+
+  // Helper: whether an employee can be given new work at all
+  const isAvailable = (emp: PlanningEmployee): boolean =>
+    emp.active !== false && !hasLeft(String(emp.id), planStart);
+
+  // Helper: hours the employee could work that day, less any (partial) leave
+  const getCapacity = (empId: string, date: Date): number =>
+    isHoliday(empId, date) || !isEmployedOn(employeesById.get(empId)!, date)
+      ? 0
+      : getCapacityAfterLeave(
+          getDailyCapacity(employeesById.get(empId)!, date),
+          leavesByDay.get(`${empId}|${formatDateLocal(date)}`) || []
+        );
+
+  // Helper: capacity not yet booked by earlier tasks
+  const getAvailableHours = (empId: string, date: Date): number =>
+    getCapacity(empId, date) -
+    (usedHours.get(`${empId}|${formatDateLocal(date)}`) || 0);
+
+  // Helper: get next day with free capacity (skip days off, leave and full
+  // days); the day after the employee leaves when there is none
+  const getNextWorkday = (empId: string, startDate: Date): Date => {
+    let current = new Date(startDate);
+    for (
+      let day = 0;
+      day < MAX_LOOKAHEAD_DAYS &&
+      getAvailableHours(empId, current) <= 0 &&
+      !hasLeft(empId, current);
+      day++
+    ) {
+      current = addDays(current, 1);
+    }
+    return current;
+  };
+
+  // Book the hours of fully locked plans before planning anything else;
+  // rows saved without daily hours occupy their whole date range
+  (input.lockedPlans || [])
+    .filter((lock) => lock.lock_type === "both")
+    .forEach((lock) => {
+      const empId = String(lock.employee_id);
+      if (!employeesById.has(empId)) return;
+
+      let allocations = lock.daily_allocations || [];
+      if (allocations.length === 0) {
+        allocations = [];
+        const [year, month, day] = lock.start_date.split("-").map(Number);
+        for (
+          let current = new Date(year, month - 1, day);
+          formatDateLocal(current) <= lock.end_date;
+          current = addDays(current, 1)
+        ) {
+          allocations.push({
+            date: formatDateLocal(current),
+            hours: getCapacity(empId, current),
+          });
+        }
+      }
+
+      allocations.forEach(({ date, hours }) => {
+        usedHours.set(
+          `${empId}|${date}`,
+          (usedHours.get(`${empId}|${date}`) || 0) + hours
+        );
+      });
+      workload[empId] += lock.total_hours;
+    });
+
+  // Hours worked on plans completed within the plan are not free either
+  (input.workedPlans || []).forEach((plan) => {
+    const empId = String(plan.employee_id);
+    if (!employeesById.has(empId)) return;
+    (plan.daily_allocations || []).forEach(({ date, hours }) => {
+      usedHours.set(
+        `${empId}|${date}`,
+        (usedHours.get(`${empId}|${date}`) || 0) + hours
+      );
+    });
+  });
+
+  // Helper: pick up to `count` employees with the least total allocated hours
+  const pickLeastLoadedEmployees = (
+    candidates: PlanningEmployee[],
+    count: number
+  ): PlanningEmployee[] =>
+    [...candidates]
+      .sort(
+        (a, b) => (workload[String(a.id)] || 0) - (workload[String(b.id)] || 0)
+      )
+      .slice(0, count);
+
+  // Helper: day an employee would finish the given hours when starting on
+  // `from`, without booking them; a day after they leave when they cannot,
+  // or the end of the lookahead when they never would
+  const projectFinish = (empId: string, from: Date, hours: number): Date => {
+    let remaining = hours;
+    let current = new Date(from);
+    for (let day = 0; day < MAX_LOOKAHEAD_DAYS; day++) {
+      if (hasLeft(empId, current)) return current;
+      remaining -= Math.max(getAvailableHours(empId, current), 0);
+      if (remaining <= 0) return current;
+      current = addDays(current, 1);
+    }
+    return current;
+  };
+
+  // Helper: pick up to `count` employees who would finish the given hours
+  // soonest from their own earliest start; fewer allocated hours break ties
+  const pickEarliestFinishingEmployees = (
+    candidates: PlanningEmployee[],
+    count: number,
+    hours: number,
+    getStart: (emp: PlanningEmployee) => Date
+  ): PlanningEmployee[] =>
+    candidates
+      .map((emp) => ({
+        emp,
+        finish: projectFinish(String(emp.id), getStart(emp), hours).getTime(),
+        load: workload[String(emp.id)] || 0,
+      }))
+      .sort((a, b) => a.finish - b.finish || a.load - b.load)
+      .slice(0, count)
+      .map(({ emp }) => emp);
+
+  // Helper: first day an employee can start work that must wait for the given
+  // end dates (finish-to-start), pushed back by a delay in workdays
+  const getEarliestStart = (
+    empId: string,
+    startAfter: string[],
+    delayDays: number
+  ): Date => {
+    let earliestDate = getNextWorkday(empId, employeeWorkload.get(empId)!);
+
+    startAfter.forEach((endDate) => {
+      const [year, month, day] = endDate.split("-").map(Number);
+      const dayAfterEnd = new Date(year, month - 1, day + 1);
+      if (dayAfterEnd > earliestDate) {
+        earliestDate = getNextWorkday(empId, dayAfterEnd);
+      }
+    });
+
+    if (delayDays > 0) {
+      let delayCount = 0;
+      let delayDate = new Date(earliestDate);
+      const delayLimit = addDays(earliestDate, MAX_LOOKAHEAD_DAYS);
+      while (
+        delayCount < delayDays &&
+        !hasLeft(empId, delayDate) &&
+        delayDate < delayLimit
+      ) {
+        delayDate = addDays(delayDate, 1);
+        if (getCapacity(empId, delayDate) > 0) {
+          delayCount++;
+        }
+      }
+      earliestDate = delayDate;
+    }
+    return earliestDate;
+  };
+
+  // Helper: why an employee had no hours for a task on a day
+  const getSkipReason = (empId: string, date: Date): SkippedDay["reason"] => {
+    const employee = employeesById.get(empId)!;
+    if (!isEmployedOn(employee, date)) return "not_employed";
+    if (!isWorkDay(getWorkDays(employee), date)) return "day_off";
+    if (isHoliday(empId, date)) return "holiday";
+    if (getCapacity(empId, date) <= 0) return "leave";
+    return "booked";
+  };
+
+  // Helper: how employees were matched to an effort line, for explanations
+  const describeMatch = (task: PlanningTask, line: EffortLine): string =>
+    line.designation === task.designation_required &&
+    task.required_skills &&
+    task.required_skills.length > 0
+      ? `Employees holding ${task.required_skills
+          .map((skill) => `${skill.name} (level ${skill.min_level}+)`)
+          .join(", ")}`
+      : `Employees with the ${line.designation} designation`;
+
+  // Helper: explain one plan of an effort line
+  const explainPlan = (trace: {
+    task: PlanningTask;
+    line: EffortLine & { lockedEmployee: PlanningEmployee | null; candidates: PlanningEmployee[] };
+    employee: PlanningEmployee;
+    candidates: PlanCandidate[];
+    teamSize: number;
+    isPreferred: boolean;
+    /** Start of the employee's started plan and the hours they logged on it */
+    startedOn: string | null;
+    spentHours: number;
+    startDate: string;
+    endDate: string;
+    dailyAllocations: DailyAllocation[];
+    lockedStart: Date | null;
+    startAfter: string[];
+    delayDays: number;
+    previousRole: string | null;
+  }): PlanExplanation => {
+    const { task, line, employee, startDate } = trace;
+    const empId = String(employee.id);
+    const self = trace.candidates.find((c) => c.employee_id === empId);
+
+    const match = describeMatch(task, line);
+
+    let reason: string;
+    if (employee === line.lockedEmployee) {
+      reason = "The assignee is locked on this plan";
+    } else if (trace.startedOn) {
+      reason = `Continues the work ${employee.name} started on ${trace.startedOn} (${trace.spentHours}h already spent)`;
+    } else if (trace.isPreferred) {
+      reason = "Picked by the lateness optimizer to reduce days overdue";
+    } else if (trace.candidates.length <= 1) {
+      reason = "The only matching employee who can take work";
+    } else if (assignmentMode === "earliest_finish") {
+      reason = `Earliest projected finish (${self?.projected_finish}) of ${trace.candidates.length} matching employees; fewer allocated hours break ties`;
+    } else {
+      reason = `Fewest hours already allocated (${self?.load_hours ?? 0}h) of ${trace.candidates.length} matching employees`;
+    }
+    if (trace.teamSize > 1) {
+      reason += `; one of ${trace.teamSize} employees sharing this splittable task`;
+    }
+
+    // Starts on the first workday after everything it waits for, unless the
+    // employee was busy or away then
+    const waitEnd = [...trace.startAfter].sort().pop();
+    let start: string;
+    if (trace.lockedStart && waitEnd && waitEnd >= formatDateLocal(trace.lockedStart)) {
+      start = trace.previousRole
+        ? `Start date locked on this plan, but held back until the ${trace.previousRole} part ends on ${waitEnd}`
+        : `Start date locked on this plan, but held back until its predecessors end, the last on ${waitEnd}`;
+    } else if (trace.lockedStart) {
+      start = `Start date locked on this plan (${formatDateLocal(trace.lockedStart)} or the next day ${employee.name} can work)`;
+    } else if (waitEnd && self?.earliest_start === startDate) {
+      start = trace.previousRole
+        ? `Starts after the ${trace.previousRole} part ends on ${waitEnd}`
+        : `Waits for its predecessors, the last ending on ${waitEnd}`;
+    } else if (startDate === formatDateLocal(planStart)) {
+      start = "Starts on the first day of the plan";
+    } else {
+      start = `Starts on the first day ${employee.name} has free capacity`;
+    }
+    if (trace.delayDays > 0) {
+      start += `; delayed by ${trace.delayDays} workdays in the simulation`;
+    }
+    if (trace.startedOn) {
+      start = `Started on ${trace.startedOn}. Remaining hours: ${start.charAt(0).toLowerCase()}${start.slice(1)}`;
+    }
+
+    // Days off inside the plan, and the ones right before it that pushed it back
+    const worked = new Set(trace.dailyAllocations.map((a) => a.date));
+    const skippedDays: SkippedDay[] = [];
+    const [year, month, day] = startDate.split("-").map(Number);
+    for (
+      let current = addDays(new Date(year, month - 1, day), -1);
+      current >= planStart && getSkipReason(empId, current) !== "booked";
+      current = addDays(current, -1)
+    ) {
+      skippedDays.unshift({
+        date: formatDateLocal(current),
+        reason: getSkipReason(empId, current),
+      });
+    }
+    for (
+      let current = new Date(year, month - 1, day);
+      formatDateLocal(current) <= trace.endDate;
+      current = addDays(current, 1)
+    ) {
+      const dateStr = formatDateLocal(current);
+      if (!worked.has(dateStr)) {
+        skippedDays.push({ date: dateStr, reason: getSkipReason(empId, current) });
+      }
+    }
+
+    return {
+      match,
+      candidates: trace.candidates,
+      reason,
+      start,
+      skipped_days: skippedDays,
+    };
+  };
+
+  // Tasks finishing after the horizon are overflow: none of their hours are
+  // booked, and their successors, which can only finish later, are overflow too
+  const { horizonEnd } = options;
+  const overflow = new Set<string>();
+
+  for (const task of orderedTasks) {
+    // A task whose predecessor could not be planned cannot be placed either
+    const predecessorIds = predecessorsByTask.get(String(task.id)) || [];
+    const predecessorPlans = predecessorIds.map((id) => plansByTask.get(id));
+    if (predecessorIds.some((id) => overflow.has(id))) {
+      skippedTasks.push({ task_id: task.id, reason: "beyond_horizon" });
+      overflow.add(String(task.id));
+      continue;
+    }
+    if (predecessorPlans.some((p) => !p)) {
+      skippedTasks.push({ task_id: task.id, reason: "unscheduled_dependency" });
+      continue;
+    }
+
+    // Find the candidates of every effort line up front, so a multi-role
+    // task is either planned completely or skipped. Splittable tasks get up
+    // to max_parallelism assignees per line. Fully locked plans and hours
+    // logged on started plans already cover part of a line's effort; an
+    // assignee lock puts its employee on the team, and so does started work.
+    const parallelism = Math.max(1, Math.floor(task.max_parallelism ?? 1));
+    const lines = getEffortLines(task).map((line) => {
+      const locks = locksByLine.get(`${task.id}|${line.role ?? ""}`) || [];
+      const pinned = locks.filter((l) => l.lock_type === "both");
+      const started = (startedByLine.get(`${task.id}|${line.role ?? ""}`) || []).filter(
+        (plan) => employeesById.has(String(plan.employee_id))
+      );
+      // A locked assignee who is inactive, has left or has no working hours
+      // no longer holds the plan
+      const assigneeLock = locks.find(
+        (l) =>
+          l.lock_type === "assignee" &&
+          employeesById.has(String(l.employee_id)) &&
+          isAvailable(employeesById.get(String(l.employee_id))!) &&
+          getWeeklyCapacity(employeesById.get(String(l.employee_id))!) > 0
+      );
+      const datesLock = locks.find((l) => l.lock_type === "dates");
+      const effort =
+        line.effort_hours -
+        pinned.reduce((sum, l) => sum + l.total_hours, 0) -
+        started.reduce((sum, plan) => sum + (plan.hours_spent || 0), 0);
+
+      const lockedEmployee = assigneeLock
+        ? employeesById.get(String(assigneeLock.employee_id))!
+        : null;
+      // Whoever started the work carries on with it, if they still can
+      const continuing =
+        effort <= 0
+          ? []
+          : [...new Set(started.map((plan) => employeesById.get(String(plan.employee_id))!))]
+              .filter(
+                (emp) =>
+                  emp !== lockedEmployee && isAvailable(emp) && getWeeklyCapacity(emp) > 0
+              )
+              .slice(0, parallelism - (lockedEmployee ? 1 : 0));
+      const matching =
+        effort <= 0
+          ? []
+          : employees.filter(
+              (emp) =>
+                emp !== lockedEmployee &&
+                !continuing.includes(emp) &&
+                (line.designation === task.designation_required
+                  ? canWorkOn(emp, task)
+                  : emp.designation === line.designation)
+            );
+      const active = matching.filter(isAvailable);
+      const candidates = active.filter((emp) => getWeeklyCapacity(emp) > 0);
+      return {
+        ...line,
+        effort,
+        pinned,
+        started,
+        lockedEmployee,
+        continuing,
+        datesLock,
+        matching,
+        active,
+        candidates,
+      };
+    });
+
+    // A task with nothing to do would silently produce no plans (and block
+    // its successors), so it is reported instead
+    if (
+      lines.every(
+        (line) =>
+          line.effort <= 0 && line.pinned.length === 0 && line.started.length === 0
+      )
+    ) {
+      skippedTasks.push({ task_id: task.id, reason: "zero_effort" });
+      continue;
+    }
+
+    const unstaffed = lines.find(
+      (line) =>
+        line.effort > 0 &&
+        !line.lockedEmployee &&
+        line.continuing.length === 0 &&
+        line.candidates.length === 0
+    );
+    if (unstaffed) {
+      skippedTasks.push({
+        task_id: task.id,
+        reason:
+          unstaffed.active.length > 0
+            ? "no_capacity"
+            : unstaffed.matching.length > 0
+              ? "inactive_candidates"
+              : unstaffed.designation === task.designation_required &&
+                  task.required_skills &&
+                  task.required_skills.length > 0
+                ? "no_matching_skills"
+                : "no_matching_designation",
+        role: unstaffed.role,
+      });
+      continue;
+    }
+
+    // Each line starts after the previous one ends (QA after Developer);
+    // the first waits for the task's predecessors
+    let startAfter = predecessorPlans.map((p) => p!.end_date);
+
+    // The task's plans are kept back until every line is planned; the hours
+    // its lines book are journaled so they can be freed again
+    const taskPlans: PlanResult[] = [];
+    const bookedHours: Array<{ key: string; hours: number }> = [];
+    const bookedWorkload: Array<{ empId: string; hours: number }> = [];
+    const previousFreeDates = new Map<string, Date>();
+    const bookHours = (key: string, hours: number) => {
+      usedHours.set(key, (usedHours.get(key) || 0) + hours);
+      bookedHours.push({ key, hours });
+    };
+
+    // Set once a line cannot be finished; later lines are not planned and
+    // the earlier ones are given up too
+    let abandoned = false;
+    const abandon = (
+      role: string | null,
+      reason: SkippedTask["reason"] = "leaves_before_finish"
+    ) => {
+      skippedTasks.push({ task_id: task.id, reason, role });
+      plansByTask.delete(String(task.id));
+      bookedHours.forEach(({ key, hours }) => {
+        usedHours.set(key, (usedHours.get(key) || 0) - hours);
+      });
+      bookedWorkload.forEach(({ empId, hours }) => {
+        workload[empId] -= hours;
+      });
+      previousFreeDates.forEach((date, empId) => employeeWorkload.set(empId, date));
+      abandoned = true;
+    };
+
+    lines.forEach((line, index) => {
+      if (abandoned) return;
+
+      // Apply delay if this task is delayed (delay counts workdays only);
+      // later lines follow the delayed first one
+      const delayDays =
+        index === 0 ? delayedTasksMap.get(String(task.id)) || 0 : 0;
+
+      // A dates lock keeps the agreed start (if still ahead) regardless of
+      // delays, but still waits for its predecessors and the previous line
+      let lockedStart: Date | null = null;
+      let lockedFrom: Date | null = null;
+      if (line.datesLock) {
+        const [year, month, day] = line.datesLock.start_date.split("-").map(Number);
+        const agreedStart = new Date(year, month - 1, day);
+        lockedStart = agreedStart > planStart ? agreedStart : planStart;
+        lockedFrom = startAfter.reduce((from, endDate) => {
+          const [endYear, endMonth, endDay] = endDate.split("-").map(Number);
+          const dayAfterEnd = new Date(endYear, endMonth - 1, endDay + 1);
+          return dayAfterEnd > from ? dayAfterEnd : from;
+        }, lockedStart);
+      }
+
+      const getStart = (emp: PlanningEmployee): Date =>
+        lockedFrom
+          ? getNextWorkday(String(emp.id), lockedFrom)
+          : getEarliestStart(String(emp.id), startAfter, delayDays);
+
+      // Only employees who would finish an even share of the line before
+      // their employment ends stay on it, the locked assignee included
+      const canFinish = (emp: PlanningEmployee): boolean =>
+        !emp.end_date ||
+        formatDateLocal(
+          projectFinish(String(emp.id), getStart(emp), line.effort / parallelism)
+        ) <= emp.end_date;
+      if (line.effort > 0) {
+        line.candidates = line.candidates.filter(canFinish);
+        line.continuing = line.continuing.filter(canFinish);
+        if (line.lockedEmployee && !canFinish(line.lockedEmployee)) {
+          line.lockedEmployee = null;
+        }
+        if (
+          !line.lockedEmployee &&
+          line.continuing.length === 0 &&
+          line.candidates.length === 0
+        ) {
+          abandon(line.role);
+          return;
+        }
+      }
+
+      // Fill the team up to the parallelism, next to any locked assignee and
+      // those continuing started work; in earliest-finish mode each candidate
+      // is rated on finishing an even share of the line
+      const kept = [
+        ...(line.lockedEmployee ? [line.lockedEmployee] : []),
+        ...line.continuing,
+      ];
+      const openSeats = Math.max(parallelism - kept.length, 0);
+      const picked =
+        line.effort <= 0
+          ? []
+          : assignmentMode === "earliest_finish"
+            ? pickEarliestFinishingEmployees(
+                line.candidates,
+                openSeats,
+                line.effort / parallelism,
+                getStart
+              )
+            : pickLeastLoadedEmployees(line.candidates, openSeats);
+      const preferred = line.candidates.find(
+        (emp) => String(emp.id) === options.preferredAssignees?.[String(task.id)]
+      );
+      if (preferred && line.effort > 0 && openSeats > 0 && !picked.includes(preferred)) {
+        picked.splice(openSeats - 1, 1);
+        picked.unshift(preferred);
+      }
+      const team = [...(line.effort > 0 ? kept : []), ...picked].map((emp) => ({
+        employee: emp,
+        empId: String(emp.id),
+        earliestDate: getStart(emp),
+        dailyAllocations: [] as DailyAllocation[],
+      }));
+
+      // Snapshot the candidates before this line books any hours
+      const candidates: PlanCandidate[] =
+        explain && line.effort > 0
+          ? [...kept, ...line.candidates].map((emp) => {
+              const empId = String(emp.id);
+              const start = getStart(emp);
+              return {
+                employee_id: empId,
+                name: emp.name,
+                load_hours: workload[empId] || 0,
+                earliest_start: formatDateLocal(start),
+                projected_finish:
+                  assignmentMode === "earliest_finish"
+                    ? formatDateLocal(
+                        projectFinish(empId, start, line.effort / parallelism)
+                      )
+                    : null,
+                picked: team.some((member) => member.employee === emp),
+              };
+            })
+          : [];
+
+      // Allocate the line day by day, filling each team member's free
+      // capacity in turn until the effort is used up
+      let remaining = line.effort;
+      let current = new Date(
+        Math.min(...team.map((m) => m.earliestDate.getTime()))
+      );
+      const lookaheadEnd = addDays(current, MAX_LOOKAHEAD_DAYS);
+
+      while (remaining > 0) {
+        const dateStr = formatDateLocal(current);
+        for (const member of team) {
+          if (remaining <= 0) break;
+          if (current < member.earliestDate) continue;
+
+          const available = getAvailableHours(member.empId, current);
+          if (available <= 0) continue;
+
+          const hours = Math.min(available, remaining);
+          bookHours(`${member.empId}|${dateStr}`, hours);
+          member.dailyAllocations.push({ date: dateStr, hours });
+          remaining -= hours;
+        }
+        // Stop once the whole team has left, or nobody found time within
+        // the lookahead; the line is reported below
+        if (team.every((member) => hasLeft(member.empId, current))) break;
+        if (current >= lookaheadEnd) break;
+        if (remaining > 0) {
+          current = addDays(current, 1);
+        }
+      }
+
+      // Hours each employee logged on the line, and when they started it
+      const getStartedWork = (empId: string) => {
+        const own = line.started.filter((plan) => String(plan.employee_id) === empId);
+        return {
+          spentHours: own.reduce((sum, plan) => sum + (plan.hours_spent || 0), 0),
+          startedOn:
+            own.length > 0
+              ? own.map((plan) => plan.start_date).sort()[0]
+              : null,
+        };
+      };
+
+      // One plan per team member who got any hours; locks carry over, and
+      // started work keeps its start date and the hours already spent
+      const linePlans: PlanResult[] = [];
+      team.forEach(({ employee, empId, dailyAllocations }) => {
+        if (dailyAllocations.length === 0) return;
+
+        const startDate = dailyAllocations[0].date;
+        const endDate = dailyAllocations[dailyAllocations.length - 1].date;
+        const totalHours = dailyAllocations.reduce((sum, a) => sum + a.hours, 0);
+        const { spentHours, startedOn } = getStartedWork(empId);
+
+        // The next task may continue on the last day if capacity is left
+        const [year, month, day] = endDate.split("-").map(Number);
+        if (!previousFreeDates.has(empId)) {
+          previousFreeDates.set(empId, employeeWorkload.get(empId)!);
+        }
+        employeeWorkload.set(empId, new Date(year, month - 1, day));
+        workload[empId] += totalHours;
+        bookedWorkload.push({ empId, hours: totalHours });
+
+        const isLockedAssignee = employee === line.lockedEmployee;
+        const explanation = explain
+          ? explainPlan({
+              task,
+              line,
+              employee,
+              candidates,
+              teamSize: team.length,
+              isPreferred: employee === preferred,
+              startedOn,
+              spentHours,
+              startDate,
+              endDate,
+              dailyAllocations,
+              lockedStart,
+              startAfter,
+              delayDays,
+              previousRole: index > 0 ? lines[index - 1].role : null,
+            })
+          : null;
+        linePlans.push({
+          task_id: task.id,
+          employee_id: employee.id,
+          start_date: startedOn && startedOn < startDate ? startedOn : startDate,
+          end_date: endDate,
+          total_hours: totalHours + spentHours,
+          ...(spentHours > 0 ? { hours_spent: spentHours } : {}),
+          ...calculateOverdue(task.due_date, endDate),
+          daily_allocations: dailyAllocations,
+          role: line.role,
+          lock_type:
+            isLockedAssignee && line.datesLock
+              ? "both"
+              : isLockedAssignee
+                ? "assignee"
+                : line.datesLock
+                  ? "dates"
+                  : null,
+          ...(explain ? { explanation } : {}),
+        });
+      });
+
+      // Employees who logged hours but take no more of the line (it is all
+      // spent, or they can no longer work) keep a plan of the hours they spent
+      const dayBeforeStart = formatDateLocal(addDays(planStart, -1));
+      new Set(line.started.map((plan) => String(plan.employee_id))).forEach((empId) => {
+        if (linePlans.some((plan) => String(plan.employee_id) === empId)) return;
+
+        const employee = employeesById.get(empId)!;
+        const { spentHours, startedOn } = getStartedWork(empId);
+        const lastEnd = line.started
+          .filter((plan) => String(plan.employee_id) === empId)
+          .map((plan) => plan.end_date)
+          .sort()
+          .pop()!;
+        const endDate = [startedOn!, lastEnd < dayBeforeStart ? lastEnd : dayBeforeStart]
+          .sort()
+          .pop()!;
+        linePlans.push({
+          task_id: task.id,
+          employee_id: employee.id,
+          start_date: startedOn!,
+          end_date: endDate,
+          total_hours: spentHours,
+          hours_spent: spentHours,
+          ...calculateOverdue(task.due_date, endDate),
+          daily_allocations: [],
+          role: line.role,
+          lock_type: null,
+          ...(explain
+            ? {
+                explanation: {
+                  match: describeMatch(task, line),
+                  candidates: [],
+                  reason:
+                    line.effort > 0
+                      ? `Keeps the ${spentHours}h ${employee.name} already spent; the remaining hours are planned for others`
+                      : `Keeps the ${spentHours}h ${employee.name} already spent; no effort is left to plan`,
+                  start: `Started on ${startedOn}`,
+                  skipped_days: [],
+                },
+              }
+            : {}),
+        });
+      });
+      taskPlans.push(...linePlans);
+      if (remaining > 0) {
+        abandon(
+          line.role,
+          team.every((member) => hasLeft(member.empId, current))
+            ? "leaves_before_finish"
+            : "no_capacity"
+        );
+        return;
+      }
+
+      // Successors wait for the last line, i.e. the whole deliverable,
+      // including its locked plans
+      const linePlansWithLocks = [...linePlans, ...line.pinned];
+      if (linePlansWithLocks.length === 0) return; // no effort to schedule
+
+      const lastPlan = linePlansWithLocks.reduce((latest, plan) =>
+        plan.end_date > latest.end_date ? plan : latest
+      );
+      startAfter = [lastPlan.end_date];
+      plansByTask.set(String(task.id), lastPlan);
+    });
+
+    // Overflow frees its hours for the tasks after it
+    const lastPlan = plansByTask.get(String(task.id));
+    if (!abandoned && horizonEnd && lastPlan && lastPlan.end_date > horizonEnd) {
+      abandon(null, "beyond_horizon");
+      overflow.add(String(task.id));
+    }
+
+    if (!abandoned) plans.push(...taskPlans);
+  }
+
+  return {
+    plans,
+    diagnostics: {
+      strategy: options.strategy ?? DEFAULT_ORDERING_STRATEGY,
+      assignment: assignmentMode,
+      tasksConsidered: orderedTasks.length,
+      tasksPlanned: plansByTask.size,
+      skippedTasks,
+      hoursByEmployee: workload,
+    },
+  };
+}
@@ -5,6 +5,12 @@
  */
 
 import { createServerSupabaseClient } from "@/lib/supabase/server";
+import type { UnscheduledTask } from "@/lib/planningEngine";
+import type {
+  DailyAllocation,
+  PlanExplanation,
+  PlanLockType,
+} from "@/lib/planner/scheduler";
 
 export type Plan = {
   id: number;
@@ -18,6 +24,14 @@ export type Plan = {
   is_completed?: boolean;
   completed_at?: string | null;
   completion_type?: "on_time" | "late" | null;
+  daily_allocations?: DailyAllocation[] | null;
+  /** Role this plan covers when the task is split between roles */
+  role?: string | null;
+  lock_type?: PlanLockType | null;
+  /** Hours logged against the plan so far */
+  hours_spent?: number;
+  /** Why the planner chose the assignee and dates; null for older plans */
+  explanation?: PlanExplanation | null;
 };
 
 export type PlanWithDetails = Plan & {
@@ -79,6 +93,11 @@ export async function fetchPlans(): Promise<PlanWithDetails[]> {
     is_completed: plan.is_completed || false,
     completed_at: plan.completed_at || null,
     completion_type: plan.completion_type || null,
+    daily_allocations: plan.daily_allocations || null,
+    role: plan.role || null,
+    lock_type: plan.lock_type || null,
+    hours_spent: Number(plan.hours_spent) || 0,
+    explanation: plan.explanation || null,
     task_title: plan.task?.title || "Unknown Task",
     task_client: plan.task?.client || "Unknown Client",
     employee_name: plan.employee?.name || "Unknown Employee",
@@ -98,34 +117,45 @@ export async function checkRecalculationNeeded(): Promise<RecalculationStatus> {
 
   try {
     // Get max last_updated from master data tables
-    const [employeesResult, tasksResult, leavesResult, plansResult] =
-      await Promise.all([
-        supabase
-          .from("employees")
-          .select("last_updated")
-          .order("last_updated", { ascending: false })
-          .limit(1),
-        supabase
-          .from("tasks")
-          .select("last_updated")
-          .order("last_updated", { ascending: false })
-          .limit(1),
-        supabase
-          .from("leaves")
-          .select("last_updated")
-          .order("last_updated", { ascending: false })
-          .limit(1),
-        supabase
-          .from("plans")
-          .select("last_updated")
-          .order("last_updated", { ascending: false })
-          .limit(1),
-      ]);
+    const [
+      employeesResult,
+      tasksResult,
+      leavesResult,
+      holidaysResult,
+      plansResult,
+    ] = await Promise.all([
+      supabase
+        .from("employees")
+        .select("last_updated")
+        .order("last_updated", { ascending: false })
+        .limit(1),
+      supabase
+        .from("tasks")
+        .select("last_updated")
+        .order("last_updated", { ascending: false })
+        .limit(1),
+      supabase
+        .from("leaves")
+        .select("last_updated")
+        .order("last_updated", { ascending: false })
+        .limit(1),
+      supabase
+        .from("holidays")
+        .select("last_updated")
+        .order("last_updated", { ascending: false })
+        .limit(1),
+      supabase
+        .from("plans")
+        .select("last_updated")
+        .order("last_updated", { ascending: false })
+        .limit(1),
+    ]);
 
     const employeesMax =
       employeesResult.data?.[0]?.last_updated || null;
     const tasksMax = tasksResult.data?.[0]?.last_updated || null;
     const leavesMax = leavesResult.data?.[0]?.last_updated || null;
+    const holidaysMax = holidaysResult.data?.[0]?.last_updated || null;
     const plansMax = plansResult.data?.[0]?.last_updated || null;
 
     // Find the latest master data update
@@ -133,6 +163,7 @@ export async function checkRecalculationNeeded(): Promise<RecalculationStatus> {
       employeesMax,
       tasksMax,
       leavesMax,
+      holidaysMax,
     ].filter(Boolean) as string[];
 
     if (masterDates.length === 0) {
@@ -173,3 +204,32 @@ export async function checkRecalculationNeeded(): Promise<RecalculationStatus> {
     return { needsRecalculation: false };
   }
 }
+
+/**
+ * Fetch the tasks the latest generated plan left unscheduled
+ * Manual moves are skipped, as they do not re-plan any task.
+ */
+export async function fetchUnscheduledTasks(): Promise<UnscheduledTask[]> {
+  console.log("[PLANNER:BE] fetchUnscheduledTasks - Fetching latest generation");
+  const supabase = createServerSupabaseClient();
+
+  const { data, error } = await supabase
+    .from("plan_generations")
+    .select("unscheduled_tasks")
+    .neq("source", "manual")
+    .order("created_at", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error("[PLANNER:BE] fetchUnscheduledTasks - Error fetching generation", {
+      error: error.message,
+    });
+    return [];
+  }
+
+  const unscheduled = (data?.[0]?.unscheduled_tasks || []) as UnscheduledTask[];
+  console.log("[PLANNER:BE] fetchUnscheduledTasks - Success", {
+    unscheduledCount: unscheduled.length,
+  });
+  return unscheduled;
+}
@@ -5,6 +5,8 @@
  */
 
 import { createServerSupabaseClient } from "@/lib/supabase/server";
+import type { SimulationOptions, UnscheduledTask } from "@/lib/planningEngine";
+import type { PlanResult } from "@/lib/planner/scheduler";
 
 export type Task = {
   id: string; // String to match simulation engine
@@ -20,6 +22,19 @@ export type Employee = {
   designation: string;
 };
 
+/** A saved what-if scenario: its options and the plans they produced */
+export type Scenario = {
+  id: number;
+  name: string;
+  description: string | null;
+  author: string | null;
+  options: SimulationOptions;
+  plans: PlanResult[];
+  unscheduled_tasks: UnscheduledTask[];
+  created_at: string;
+  last_updated: string;
+};
+
 /**
  * Fetch all tasks for simulator
  */
@@ -68,3 +83,32 @@ export async function fetchEmployeesForSimulator(): Promise<Employee[]> {
     designation: emp.designation,
   }));
 }
+
+/**
+ * Fetch all saved scenarios, most recently saved first
+ */
+export async function fetchScenarios(): Promise<Scenario[]> {
+  const supabase = createServerSupabaseClient();
+
+  const { data, error } = await supabase
+    .from("scenarios")
+    .select("*")
+    .order("last_updated", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching scenarios:", error);
+    return [];
+  }
+
+  return (data || []).map((scenario: Scenario) => ({
+    id: scenario.id,
+    name: scenario.name,
+    description: scenario.description || null,
+    author: scenario.author || null,
+    options: scenario.options || {},
+    plans: scenario.plans || [],
+    unscheduled_tasks: scenario.unscheduled_tasks || [],
+    created_at: scenario.created_at,
+    last_updated: scenario.last_updated,
+  }));
+}
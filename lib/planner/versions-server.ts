@@ -20,6 +20,12 @@ export type PlanVersion = {
   delta_days: number;
   generation_id?: string;
   generation_timestamp?: string;
+  generation_source?: "generate" | "simulation" | "manual" | null;
+  ordering_strategy?: string | null;
+  assignment_mode?: string | null;
+  /** First day the generation planned from, and its horizon end if any */
+  plan_start_date?: string | null;
+  horizon_end?: string | null;
   plan?: {
     task_id: string;
     employee_id: string;
@@ -118,8 +124,16 @@ export async function fetchPlanVersions(): Promise<PlanVersionWithDetails[]> {
       uniqueEmployeeIds: employeeIds.length,
     });
 
-    // Fetch tasks and employees in parallel
-    const [tasksResult, employeesResult] = await Promise.all([
+    const generationIds = [
+      ...new Set(
+        versions
+          .map((v: { generation_id: string | null }) => v.generation_id)
+          .filter(Boolean)
+      ),
+    ];
+
+    // Fetch tasks, employees and generation settings in parallel
+    const [tasksResult, employeesResult, generationsResult] = await Promise.all([
       taskIds.length > 0
         ? supabase
             .from("tasks")
@@ -132,6 +146,14 @@ export async function fetchPlanVersions(): Promise<PlanVersionWithDetails[]> {
             .select("id, name")
             .in("id", employeeIds)
         : Promise.resolve({ data: [], error: null }),
+      generationIds.length > 0
+        ? supabase
+            .from("plan_generations")
+            .select(
+              "id, source, ordering_strategy, assignment_mode, plan_start_date, horizon_end"
+            )
+            .in("id", generationIds)
+        : Promise.resolve({ data: [], error: null }),
     ]);
 
     // Create maps for quick lookup
@@ -145,7 +167,21 @@ export async function fetchPlanVersions(): Promise<PlanVersionWithDetails[]> {
       employeesMap.set(employee.id, employee);
     });
 
-    // Combine versions with task and employee data
+    const generationsMap = new Map<
+      string,
+      {
+        source: "generate" | "simulation" | "manual";
+        ordering_strategy: string;
+        assignment_mode?: string | null;
+        plan_start_date?: string | null;
+        horizon_end?: string | null;
+      }
+    >();
+    generationsResult.data?.forEach((generation) => {
+      generationsMap.set(generation.id, generation);
+    });
+
+    // Combine versions with task, employee and generation data
     const versionsWithDetails: PlanVersionWithDetails[] = versions.map(
       (version: any) => {
         const taskId = version.task_id;
@@ -166,6 +202,16 @@ export async function fetchPlanVersions(): Promise<PlanVersionWithDetails[]> {
           employee_id: employeeId,
           task_title: taskTitle,
           employee_name: employeeName,
+          generation_source:
+            generationsMap.get(version.generation_id)?.source || null,
+          ordering_strategy:
+            generationsMap.get(version.generation_id)?.ordering_strategy || null,
+          assignment_mode:
+            generationsMap.get(version.generation_id)?.assignment_mode || null,
+          plan_start_date:
+            generationsMap.get(version.generation_id)?.plan_start_date || null,
+          horizon_end:
+            generationsMap.get(version.generation_id)?.horizon_end || null,
           plan: {
             task_id: taskId,
             employee_id: employeeId,
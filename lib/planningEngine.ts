@@ -1,431 +1,354 @@
-import { addDays, isWeekend } from "date-fns";
 import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  DEFAULT_ASSIGNMENT_MODE,
+  DEFAULT_ORDERING_STRATEGY,
+  planSchedule,
+  type AssignmentMode,
+  type PlanningDependency,
+  type PlanningEmployee,
+  type PlanningHoliday,
+  type PlanningLeave,
+  type PlanningTask,
+  type OrderingStrategy,
+  type PlanResult,
+  type ScheduleOptions,
+  type SimulationOptions,
+  type SkippedTask,
+} from "@/lib/planner/scheduler";
+import {
+  optimizeSchedule,
+  type OptimizationReport,
+  type OptimizeOptions,
+} from "@/lib/planner/optimizer";
+import {
+  forecastDeliveryDates,
+  type DeliveryForecast,
+  type ForecastOptions,
+} from "@/lib/planner/forecast";
+import { comparePlanVersions } from "@/lib/planner/planVersions";
 import { formatDateLocal } from "@/lib/utils";
 
-type Employee = {
-  id: string;
-  name: string;
-  designation: string;
+export {
+  DependencyCycleError,
+  type OrderingStrategy,
+  type PlanResult,
+  type SimulationOptions,
+} from "@/lib/planner/scheduler";
+
+// Settings a plan generation was produced with, stored in plan_generations
+export type GenerationSettings = {
+  source?: "generate" | "simulation" | "manual";
+  ordering_strategy?: OrderingStrategy;
+  assignment_mode?: AssignmentMode;
+  /** First day the plan could use (YYYY-MM-DD) */
+  plan_start_date?: string;
+  /** Last day of the plan (YYYY-MM-DD); null when unbounded */
+  horizon_end?: string | null;
+  unscheduled_tasks?: UnscheduledTask[];
 };
 
-type Task = {
-  id: string;
-  title: string;
-  client: string;
-  effort_hours: number;
-  designation_required: string;
-  due_date?: string | null;
-};
+/** A task the planner could not place, with its title for display */
+export type UnscheduledTask = SkippedTask & { title: string };
 
-type Leave = {
-  id: string;
-  employee_id: string;
-  leave_date: string;
+export type GeneratedPlan = {
+  plans: PlanResult[];
+  /** Set when the plan was optimised for lateness */
+  optimization: OptimizationReport | null;
+  /** Tasks left out of the plan and why */
+  unscheduled: UnscheduledTask[];
 };
 
-export type PlanResult = {
-  task_id: string;
-  employee_id: string;
-  start_date: string;
-  end_date: string;
-  total_hours: number;
-  is_overdue: boolean;
-  days_overdue: number;
+export type SimulatedPlan = {
+  plans: PlanResult[];
+  unscheduled: UnscheduledTask[];
 };
 
-export async function generatePlan(
-  supabase: SupabaseClient,
-  excludeCompleted: boolean = false
-): Promise<PlanResult[]> {
-  // 1. Fetch all master data
-  const { data: employees, error: empError } = await supabase
-    .from("employees")
-    .select("*");
-
-  const { data: tasks, error: taskError } = await supabase
-    .from("tasks")
-    .select("*");
-
-  // If excluding completed plans, fetch completed plan task IDs
-  let completedTaskIds: Set<string> = new Set();
-  if (excludeCompleted) {
-    const { data: completedPlans } = await supabase
-      .from("plans")
-      .select("task_id")
-      .eq("is_completed", true);
-    
-    if (completedPlans) {
-      completedTaskIds = new Set(completedPlans.map((p: any) => String(p.task_id)));
-    }
-  }
-
-  const { data: leaves, error: leaveError } = await supabase
-    .from("leaves")
-    .select("*");
-
-  if (empError || taskError || leaveError) {
-    console.error("Error fetching data:", { empError, taskError, leaveError });
-    return [];
-  }
-
-  if (!employees || !tasks) return [];
+// Attach task titles to the tasks the scheduler skipped
+const withTitles = (
+  skippedTasks: SkippedTask[],
+  tasks: PlanningTask[]
+): UnscheduledTask[] => {
+  const titles = new Map(tasks.map((task) => [String(task.id), task.title]));
+  return skippedTasks.map((skipped) => ({
+    ...skipped,
+    title: titles.get(String(skipped.task_id)) ?? `Task ${skipped.task_id}`,
+  }));
+};
 
-  // Filter out tasks with completed plans if excludeCompleted is true
-  const tasksToPlan = excludeCompleted
-    ? tasks.filter((task) => !completedTaskIds.has(String(task.id)))
-    : tasks;
+type MasterData = {
+  employees: PlanningEmployee[];
+  tasks: PlanningTask[];
+  leaves: PlanningLeave[];
+  holidays: PlanningHoliday[];
+  dependencies: PlanningDependency[];
+  lockedPlans: PlanResult[];
+};
 
-  if (tasksToPlan.length === 0) {
-    console.log("No tasks to plan (all tasks are completed)");
-    return [];
+// Fetch employees, tasks, leaves, holidays, task dependencies and locked plans needed by the scheduler
+async function fetchMasterData(
+  supabase: SupabaseClient
+): Promise<MasterData | null> {
+  const [
+    { data: employees, error: empError },
+    { data: tasks, error: taskError },
+    { data: leaves, error: leaveError },
+    { data: holidays, error: holidayError },
+    { data: dependencies, error: depError },
+    { data: lockedPlans, error: lockError },
+  ] = await Promise.all([
+    supabase.from("employees").select("*, holiday_calendars(work_days)"),
+    supabase.from("tasks").select("*"),
+    supabase.from("leaves").select("*"),
+    supabase.from("holidays").select("calendar_id, holiday_date, name"),
+    supabase.from("task_dependencies").select("task_id, depends_on_task_id"),
+    supabase
+      .from("plans")
+      .select("*")
+      .not("lock_type", "is", null)
+      .eq("is_completed", false),
+  ]);
+
+  if (empError || taskError || leaveError || holidayError || depError || lockError) {
+    console.error("Error fetching data:", {
+      empError,
+      taskError,
+      leaveError,
+      holidayError,
+      depError,
+      lockError,
+    });
+    return null;
   }
 
-  // Sort tasks by effort (smallest first for better distribution)
-  tasksToPlan.sort((a, b) => a.effort_hours - b.effort_hours);
-
-  const plans: PlanResult[] = [];
-  const employeeWorkload: Map<string, Date> = new Map(); // Track when each employee is next available
-  const workload: Record<string, number> = {}; // Track total hours allocated per employee
-
-  // Initialize all employees to start from today and zero workload
-  employees.forEach((emp) => {
-    employeeWorkload.set(emp.id, new Date());
-    workload[emp.id] = 0;
-  });
-
-  // Helper: check if employee is on leave on a specific day
-  const isOnLeave = (empId: string, date: Date): boolean => {
-    if (!leaves) return false;
-    const dateStr = formatDateLocal(date);
-    return leaves.some(
-      (l) => l.employee_id === empId && l.leave_date === dateStr
-    );
-  };
-
-  // Helper: get next available workday (skip weekends and leave days)
-  const getNextWorkday = (empId: string, startDate: Date): Date => {
-    let current = new Date(startDate);
-    while (isWeekend(current) || isOnLeave(empId, current)) {
-      current = addDays(current, 1);
-    }
-    return current;
+  if (!employees || !tasks) return null;
+
+  return {
+    // An employee's own work week wins over the one of their holiday calendar
+    employees: employees.map(({ holiday_calendars, ...emp }) => ({
+      ...emp,
+      work_days: emp.work_days ?? holiday_calendars?.work_days ?? null,
+    })),
+    tasks,
+    leaves: leaves || [],
+    holidays: holidays || [],
+    dependencies: dependencies || [],
+    lockedPlans: lockedPlans || [],
   };
+}
 
-  // Helper: pick the employee with the least total allocated hours
-  const pickLeastLoadedEmployee = (
-    candidates: Employee[],
-    workloadMap: Record<string, number>
-  ): Employee | null => {
-    if (candidates.length === 0) return null;
-
-    return candidates.reduce((minEmp, emp) => {
-      const minWorkload = workloadMap[minEmp.id] || 0;
-      const empWorkload = workloadMap[emp.id] || 0;
-      return empWorkload < minWorkload ? emp : minEmp;
-    });
-  };
+type OpenWork = {
+  /** Tasks with their completed hours taken off; fully completed ones dropped */
+  tasks: PlanningTask[];
+  /** Open plans with logged hours, replanned for their remaining effort */
+  startedPlans: PlanResult[];
+  /** Completed plans, whose worked days stay booked */
+  workedPlans: PlanResult[];
+};
 
-  // 2. For each task, assign to the least loaded matching employee
-  for (const task of tasksToPlan) {
-    // Find employees with matching designation
-    const candidates = employees.filter(
-      (emp) => emp.designation === task.designation_required
-    );
+// Open plans with hours logged against them
+async function fetchStartedPlans(supabase: SupabaseClient): Promise<PlanResult[]> {
+  const { data } = await supabase
+    .from("plans")
+    .select("*")
+    .eq("is_completed", false)
+    .gt("hours_spent", 0);
+  return data || [];
+}
 
-    if (candidates.length === 0) {
-      // No matching employee found, skip this task
-      continue;
+// Total the completed hours per task (and role, for multi-role tasks) and
+// leave only the open work to plan; split tasks can be partly completed.
+// Open plans with logged hours are replanned for their remaining effort
+// only, and the days worked on completed plans stay booked.
+async function excludeLoggedWork(
+  supabase: SupabaseClient,
+  tasks: PlanningTask[]
+): Promise<OpenWork> {
+  const completedHours: Map<string, number> = new Map();
+  const [{ data: completedPlans }, startedPlans] = await Promise.all([
+    supabase
+      .from("plans")
+      .select("*")
+      .eq("is_completed", true),
+    fetchStartedPlans(supabase),
+  ]);
+
+  completedPlans?.forEach(
+    (p: { task_id: string | number; role: string | null; total_hours: number }) => {
+      const key = `${p.task_id}:${p.role ?? ""}`;
+      completedHours.set(key, (completedHours.get(key) || 0) + p.total_hours);
+    }
+  );
+
+  // A completed plan's end date is the day it was completed; the days it
+  // had planned after that are free again
+  const workedPlans = (completedPlans || []).map((p: PlanResult) => ({
+    ...p,
+    daily_allocations: (p.daily_allocations || []).filter(
+      (allocation) => allocation.date <= p.end_date
+    ),
+  }));
+
+  // Fully completed tasks are dropped, partly completed ones keep only
+  // their open hours
+  const openTasks = tasks.flatMap((task) => {
+    if (!task.effort_lines || task.effort_lines.length === 0) {
+      const openHours =
+        task.effort_hours - (completedHours.get(`${task.id}:`) || 0);
+      return openHours > 0 ? [{ ...task, effort_hours: openHours }] : [];
     }
 
-    // Select the employee with the least total allocated hours
-    const selectedEmployee = pickLeastLoadedEmployee(candidates, workload);
-
-    if (!selectedEmployee) continue;
-
-    // Get the employee's next available date and find the next workday
-    const nextAvailable = employeeWorkload.get(selectedEmployee.id);
-    if (!nextAvailable) continue;
-
-    const earliestDate = getNextWorkday(selectedEmployee.id, nextAvailable);
-
-    // 3. Allocate task sequentially using 8 hours per day
-    let remaining = task.effort_hours;
-    let current = new Date(earliestDate);
-    let startDate = "";
-    let endDate = "";
-
-    while (remaining > 0) {
-      // Skip weekends and leave days
-      if (isWeekend(current) || isOnLeave(selectedEmployee.id, current)) {
-        current = addDays(current, 1);
-        continue;
-      }
-
-      if (!startDate) {
-        startDate = formatDateLocal(current);
-      }
+    const openLines = task.effort_lines
+      .map((line) => ({
+        ...line,
+        effort_hours:
+          line.effort_hours -
+          (completedHours.get(`${task.id}:${line.designation}`) || 0),
+      }))
+      .filter((line) => line.effort_hours > 0);
+    return openLines.length > 0 ? [{ ...task, effort_lines: openLines }] : [];
+  });
 
-      // Allocate 8 hours for this day
-      remaining -= 8;
-      endDate = formatDateLocal(current);
-      current = addDays(current, 1);
-    }
+  return {
+    tasks: openTasks,
+    startedPlans,
+    workedPlans,
+  };
+}
 
-    // Update employee's next available date
-    employeeWorkload.set(selectedEmployee.id, current);
+/**
+ * Generate a plan from the current data, optionally searching for one with
+ * less lateness than the greedy pass (see optimizeSchedule)
+ */
+export async function generatePlan(
+  supabase: SupabaseClient,
+  excludeCompleted: boolean = false,
+  options: ScheduleOptions = {},
+  optimize: OptimizeOptions | null = null
+): Promise<GeneratedPlan> {
+  const masterData = await fetchMasterData(supabase);
+  if (!masterData) return { plans: [], optimization: null, unscheduled: [] };
+
+  // A full regeneration replans completed tasks too, but hours logged on
+  // open plans are never thrown away: only their remaining effort is planned
+  const { tasks: tasksToPlan, startedPlans, workedPlans } = excludeCompleted
+    ? await excludeLoggedWork(supabase, masterData.tasks)
+    : {
+        tasks: masterData.tasks,
+        startedPlans: await fetchStartedPlans(supabase),
+        workedPlans: [],
+      };
 
-    // Update employee's total workload (for load balancing)
-    workload[selectedEmployee.id] += task.effort_hours;
+  if (tasksToPlan.length === 0) {
+    console.log("No tasks to plan (all tasks are completed)");
+    return { plans: [], optimization: null, unscheduled: [] };
+  }
 
-    // Calculate overdue status
-    let is_overdue = false;
-    let days_overdue = 0;
-    
-    if (task.due_date) {
-      const dueDate = new Date(task.due_date);
-      const calculatedEndDate = new Date(endDate);
-      
-      if (calculatedEndDate > dueDate) {
-        is_overdue = true;
-        // Calculate days overdue (difference in days)
-        const diffTime = calculatedEndDate.getTime() - dueDate.getTime();
-        days_overdue = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-      }
-    }
+  const input = {
+    employees: masterData.employees,
+    tasks: tasksToPlan,
+    leaves: masterData.leaves,
+    holidays: masterData.holidays,
+    dependencies: masterData.dependencies,
+    lockedPlans: masterData.lockedPlans,
+    startedPlans,
+    workedPlans,
+    options,
+  };
 
-    plans.push({
-      task_id: task.id,
-      employee_id: selectedEmployee.id,
-      start_date: startDate,
-      end_date: endDate,
-      total_hours: task.effort_hours,
-      is_overdue,
-      days_overdue,
-    });
+  if (optimize) {
+    const { plans, optimization, diagnostics } = optimizeSchedule(input, optimize);
+    return {
+      plans,
+      optimization,
+      unscheduled: withTitles(diagnostics.skippedTasks, tasksToPlan),
+    };
   }
 
-  return plans;
+  const { plans, diagnostics } = planSchedule(input);
+  return {
+    plans,
+    optimization: null,
+    unscheduled: withTitles(diagnostics.skippedTasks, tasksToPlan),
+  };
 }
 
-// Simulation types
-export type SimulationOptions = {
-  delayedTasks?: Array<{ task_id: string; delay_days: number }>;
-  blockedEmployees?: Array<{ employee_id: string; from: string; to: string }>;
-};
-
-// Generate plan with simulation overrides (does NOT save to DB)
+// Generate plan with simulation overrides (does NOT save to DB); like the
+// live plan, completed work is kept and logged progress is built on
 export async function generatePlanSimulation(
   supabase: SupabaseClient,
   options: SimulationOptions = {}
-): Promise<PlanResult[]> {
-  // 1. Fetch all master data
-  const { data: employees, error: empError } = await supabase
-    .from("employees")
-    .select("*");
-
-  const { data: tasks, error: taskError } = await supabase
-    .from("tasks")
-    .select("*");
-
-  const { data: leaves, error: leaveError } = await supabase
-    .from("leaves")
-    .select("*");
-
-  if (empError || taskError || leaveError) {
-    console.error("Error fetching data:", { empError, taskError, leaveError });
-    return [];
-  }
-
-  if (!employees || !tasks) return [];
-
-  // 2. Apply simulation overrides
-  // Create a map of delayed tasks
-  const delayedTasksMap = new Map<string, number>();
-  options.delayedTasks?.forEach((dt) => {
-    delayedTasksMap.set(dt.task_id, dt.delay_days);
-  });
-
-  // Create blocked date ranges for employees
-  const blockedRanges = new Map<string, Array<{ from: Date; to: Date }>>();
-  options.blockedEmployees?.forEach((be) => {
-    if (!blockedRanges.has(be.employee_id)) {
-      blockedRanges.set(be.employee_id, []);
-    }
-    blockedRanges.get(be.employee_id)?.push({
-      from: new Date(be.from),
-      to: new Date(be.to),
-    });
-  });
-
-  // Merge blocked ranges with existing leaves
-  const extendedLeaves = leaves ? [...leaves] : [];
-  options.blockedEmployees?.forEach((be) => {
-    const fromDate = new Date(be.from);
-    const toDate = new Date(be.to);
-    let current = new Date(fromDate);
-    
-    while (current <= toDate) {
-      const dateStr = formatDateLocal(current);
-      // Only add if not already a leave
-      if (!extendedLeaves.some(l => l.employee_id === be.employee_id && l.leave_date === dateStr)) {
-        extendedLeaves.push({
-          id: `sim-${be.employee_id}-${dateStr}`,
-          employee_id: be.employee_id,
-          leave_date: dateStr,
-        });
-      }
-      current = addDays(current, 1);
-    }
-  });
-
-  // Sort tasks by effort (smallest first for better distribution)
-  tasks.sort((a, b) => a.effort_hours - b.effort_hours);
-
-  const plans: PlanResult[] = [];
-  const employeeWorkload: Map<string, Date> = new Map();
-  const workload: Record<string, number> = {};
-
-  // Initialize all employees to start from today and zero workload
-  employees.forEach((emp) => {
-    employeeWorkload.set(emp.id, new Date());
-    workload[emp.id] = 0;
-  });
-
-  // Helper: check if employee is on leave or blocked on a specific day
-  const isOnLeave = (empId: string, date: Date): boolean => {
-    if (!extendedLeaves) return false;
-    const dateStr = formatDateLocal(date);
-    return extendedLeaves.some(
-      (l) => l.employee_id === empId && l.leave_date === dateStr
-    );
-  };
-
-  // Helper: get next available workday (skip weekends and leave/blocked days)
-  const getNextWorkday = (empId: string, startDate: Date): Date => {
-    let current = new Date(startDate);
-    while (isWeekend(current) || isOnLeave(empId, current)) {
-      current = addDays(current, 1);
-    }
-    return current;
+): Promise<SimulatedPlan> {
+  const masterData = await fetchMasterData(supabase);
+  if (!masterData) return { plans: [], unscheduled: [] };
+
+  const openWork = await excludeLoggedWork(supabase, masterData.tasks);
+  const { plans, diagnostics } = planSchedule({ ...masterData, ...openWork, options });
+  return {
+    plans,
+    unscheduled: withTitles(diagnostics.skippedTasks, [
+      ...openWork.tasks,
+      ...(options.virtualTasks || []),
+    ]),
   };
+}
 
-  // Helper: pick the employee with the least total allocated hours
-  const pickLeastLoadedEmployee = (
-    candidates: Employee[],
-    workloadMap: Record<string, number>
-  ): Employee | null => {
-    if (candidates.length === 0) return null;
-
-    return candidates.reduce((minEmp, emp) => {
-      const minWorkload = workloadMap[minEmp.id] || 0;
-      const empWorkload = workloadMap[emp.id] || 0;
-      return empWorkload < minWorkload ? emp : minEmp;
-    });
-  };
-
-  // 3. For each task, assign to the least loaded matching employee
-  for (const task of tasks) {
-    // Find employees with matching designation
-    const candidates = employees.filter(
-      (emp) => emp.designation === task.designation_required
-    );
-
-    if (candidates.length === 0) {
-      continue;
-    }
-
-    // Select the employee with the least total allocated hours
-    const selectedEmployee = pickLeastLoadedEmployee(candidates, workload);
-
-    if (!selectedEmployee) continue;
-
-    // Get the employee's next available date and find the next workday
-    const nextAvailable = employeeWorkload.get(selectedEmployee.id);
-    if (!nextAvailable) continue;
-
-    let earliestDate = getNextWorkday(selectedEmployee.id, nextAvailable);
-
-    // Apply delay if this task is delayed
-    const delayDays = delayedTasksMap.get(task.id) || 0;
-    if (delayDays > 0) {
-      // Add delay days (skip weekends in delay calculation)
-      let delayCount = 0;
-      let delayDate = new Date(earliestDate);
-      while (delayCount < delayDays) {
-        delayDate = addDays(delayDate, 1);
-        if (!isWeekend(delayDate) && !isOnLeave(selectedEmployee.id, delayDate)) {
-          delayCount++;
-        }
-      }
-      earliestDate = delayDate;
-    }
-
-    // 4. Allocate task sequentially using 8 hours per day
-    let remaining = task.effort_hours;
-    let current = new Date(earliestDate);
-    let startDate = "";
-    let endDate = "";
-
-    while (remaining > 0) {
-      // Skip weekends and leave/blocked days
-      if (isWeekend(current) || isOnLeave(selectedEmployee.id, current)) {
-        current = addDays(current, 1);
-        continue;
-      }
-
-      if (!startDate) {
-        startDate = formatDateLocal(current);
-      }
-
-      // Allocate 8 hours for this day
-      remaining -= 8;
-      endDate = formatDateLocal(current);
-      current = addDays(current, 1);
-    }
-
-    // Update employee's next available date
-    employeeWorkload.set(selectedEmployee.id, current);
+// Forecast delivery dates with sampled efforts (does NOT save to DB)
+export async function generateDeliveryForecast(
+  supabase: SupabaseClient,
+  options: SimulationOptions = {},
+  forecast: ForecastOptions = {}
+): Promise<DeliveryForecast> {
+  const masterData = await fetchMasterData(supabase);
+  if (!masterData) {
+    return { runs: 0, uncertainTaskCount: 0, tasks: [], clients: [] };
+  }
 
-    // Update employee's total workload (for load balancing)
-    workload[selectedEmployee.id] += task.effort_hours;
+  const openWork = await excludeLoggedWork(supabase, masterData.tasks);
+  return forecastDeliveryDates({ ...masterData, ...openWork, options }, forecast);
+}
 
-    // Calculate overdue status
-    let is_overdue = false;
-    let days_overdue = 0;
-    
-    if (task.due_date) {
-      const dueDate = new Date(task.due_date);
-      const calculatedEndDate = new Date(endDate);
-      
-      if (calculatedEndDate > dueDate) {
-        is_overdue = true;
-        const diffTime = calculatedEndDate.getTime() - dueDate.getTime();
-        days_overdue = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-      }
-    }
+/**
+ * Record how a plan generation was produced
+ * Failures are logged but not fatal, like version tracking.
+ */
+export async function recordPlanGeneration(
+  supabase: SupabaseClient,
+  generationId: string,
+  generationTimestamp: string,
+  planCount: number,
+  settings: GenerationSettings = {}
+): Promise<void> {
+  const { error } = await supabase.from("plan_generations").insert({
+    id: generationId,
+    created_at: generationTimestamp,
+    source: settings.source ?? "generate",
+    ordering_strategy: settings.ordering_strategy ?? DEFAULT_ORDERING_STRATEGY,
+    assignment_mode: settings.assignment_mode ?? DEFAULT_ASSIGNMENT_MODE,
+    plan_count: planCount,
+    plan_start_date:
+      settings.plan_start_date ?? formatDateLocal(new Date(generationTimestamp)),
+    horizon_end: settings.horizon_end ?? null,
+    unscheduled_tasks: settings.unscheduled_tasks ?? [],
+  });
 
-    plans.push({
-      task_id: task.id,
-      employee_id: selectedEmployee.id,
-      start_date: startDate,
-      end_date: endDate,
-      total_hours: task.effort_hours,
-      is_overdue,
-      days_overdue,
+  if (error) {
+    console.error("[VERSIONS:BE] recordPlanGeneration - Error inserting generation", {
+      error: error.message,
+      generationId,
     });
   }
-
-  return plans;
 }
 
 export async function savePlanToDB(
   supabase: SupabaseClient,
   plans: PlanResult[],
-  excludeCompleted: boolean = false
+  excludeCompleted: boolean = false,
+  settings: GenerationSettings = {}
 ): Promise<boolean> {
   console.log("[PLANNER:BE] savePlanToDB - Starting plan save", {
     planCount: plans.length,
     excludeCompleted,
+    settings,
   });
   try {
     // Generate a unique generation ID for this plan generation run
@@ -438,6 +361,14 @@ export async function savePlanToDB(
       generationTimestamp,
     });
 
+    await recordPlanGeneration(
+      supabase,
+      generationId,
+      generationTimestamp,
+      plans.length,
+      settings
+    );
+
     // 1. Fetch existing plans for comparison
     console.log("[PLANNER:BE] savePlanToDB - Fetching existing plans for comparison");
     const { data: existingPlans, error: fetchError } = await supabase
@@ -483,12 +414,12 @@ export async function savePlanToDB(
     // Create maps for quick lookup
     const employeesMap = new Map<string, string>();
     employees?.forEach((emp: any) => {
-      employeesMap.set(emp.id, emp.name);
+      employeesMap.set(String(emp.id), emp.name);
     });
 
     const tasksMap = new Map<string, string>();
     tasks?.forEach((task: any) => {
-      tasksMap.set(task.id, task.title);
+      tasksMap.set(String(task.id), task.title);
     });
 
     // Debug: Log what we're comparing
@@ -498,140 +429,30 @@ export async function savePlanToDB(
       generationId,
     });
 
-    // 2. Compare old and new plans and create version records
-    const versionRecords: Array<{
-      plan_id: string | null;
-      task_id: string;
-      employee_id: string;
-      employee_name: string;
-      task_title: string;
-      old_start_date: string;
-      old_end_date: string;
-      new_start_date: string;
-      new_end_date: string;
-      delta_days: number;
-      generation_id: string;
-      generation_timestamp: string;
-    }> = [];
-
-    if (existingPlans && existingPlans.length > 0) {
-      console.log("[PLANNER:BE] savePlanToDB - Comparing plans for version tracking", {
-        existingPlanCount: existingPlans.length,
-        newPlanCount: plans.length,
-        generationId,
-      });
-      
-      // Create maps for different lookups
-      const existingPlansMap = new Map<string, any>(); // By task_id-employee_id
-      const existingTasksMap = new Map<string, any>(); // By task_id only (to find reassignments - keep first occurrence)
-      
-      existingPlans.forEach((plan: any) => {
-        const key = `${plan.task_id}-${plan.employee_id}`;
-        existingPlansMap.set(key, plan);
-        
-        // Track tasks by task_id to detect reassignments (keep the first occurrence)
-        // This helps identify when a task moves from one employee to another
-        if (!existingTasksMap.has(plan.task_id)) {
-          existingTasksMap.set(plan.task_id, plan);
-        }
-      });
-
-      let dateChanges = 0;
-      let reassignments = 0;
-      let newTasks = 0;
-
-      // Compare with new plans
-      plans.forEach((newPlan) => {
-        const key = `${newPlan.task_id}-${newPlan.employee_id}`;
-        const oldPlan = existingPlansMap.get(key);
-        const oldTaskPlan = existingTasksMap.get(newPlan.task_id);
-
-        if (oldPlan) {
-          // Same task + same employee: check if dates changed
-          if (
-            oldPlan.start_date !== newPlan.start_date ||
-            oldPlan.end_date !== newPlan.end_date
-          ) {
-            dateChanges++;
-            // Calculate delta_days (difference in end dates)
-            const oldEndDate = new Date(oldPlan.end_date);
-            const newEndDate = new Date(newPlan.end_date);
-            const deltaDays =
-              Math.floor(
-                (newEndDate.getTime() - oldEndDate.getTime()) /
-                  (1000 * 60 * 60 * 24)
-              );
-
-            versionRecords.push({
-              plan_id: oldPlan.id,
-              task_id: newPlan.task_id,
-              employee_id: newPlan.employee_id,
-              employee_name: employeesMap.get(newPlan.employee_id) || "Unknown Employee",
-              task_title: tasksMap.get(newPlan.task_id) || "Unknown Task",
-              old_start_date: oldPlan.start_date,
-              old_end_date: oldPlan.end_date,
-              new_start_date: newPlan.start_date,
-              new_end_date: newPlan.end_date,
-              delta_days: deltaDays,
-              generation_id: generationId,
-              generation_timestamp: generationTimestamp,
-            });
-          }
-        } else if (oldTaskPlan && oldTaskPlan.employee_id !== newPlan.employee_id) {
-          // Task reassigned to different employee
-          reassignments++;
-          const oldEndDate = new Date(oldTaskPlan.end_date);
-          const newEndDate = new Date(newPlan.end_date);
-          const deltaDays =
-            Math.floor(
-              (newEndDate.getTime() - oldEndDate.getTime()) /
-                (1000 * 60 * 60 * 24)
-            );
-
-          versionRecords.push({
-            plan_id: oldTaskPlan.id,
-            task_id: newPlan.task_id,
-            employee_id: newPlan.employee_id,
-            employee_name: employeesMap.get(newPlan.employee_id) || "Unknown Employee",
-            task_title: tasksMap.get(newPlan.task_id) || "Unknown Task",
-            old_start_date: oldTaskPlan.start_date,
-            old_end_date: oldTaskPlan.end_date,
-            new_start_date: newPlan.start_date,
-            new_end_date: newPlan.end_date,
-            delta_days: deltaDays,
-            generation_id: generationId,
-            generation_timestamp: generationTimestamp,
-          });
-        } else if (!oldTaskPlan) {
-          // Completely new task - no old plan exists
-          newTasks++;
-          // Note: New tasks cannot be tracked in version history because:
-          // 1. There's no old plan_id to reference (required by schema)
-          // 2. There's no "old" state to compare against
-          // They will appear in version history on the NEXT generation if dates change
-        }
-      });
-      
-      console.log("[PLANNER:BE] savePlanToDB - Version tracking summary", {
-        dateChanges,
-        reassignments,
-        newTasks,
-        totalVersionRecords: versionRecords.length,
-        generationId,
-      });
-      
-      // Debug: Log sample version records
-      if (versionRecords.length > 0) {
-        console.log("[PLANNER:BE] savePlanToDB - Sample version record", {
-          sample: versionRecords[0],
-          generationId,
-        });
-      }
-    } else {
-      console.log("[PLANNER:BE] savePlanToDB - No existing plans found, first generation", {
-        generationId,
-      });
-    }
+    // 2. Compare old and new plans and create version records; tasks new
+    // to the plan have no old plan to reference and are not recorded
+    const changes = comparePlanVersions(existingPlans || [], plans);
+    const versionRecords = changes.map((change) => ({
+      plan_id: change.plan_id,
+      task_id: change.task_id,
+      employee_id: change.employee_id,
+      employee_name: employeesMap.get(change.employee_id) || "Unknown Employee",
+      task_title: tasksMap.get(change.task_id) || "Unknown Task",
+      old_start_date: change.old_start_date,
+      old_end_date: change.old_end_date,
+      new_start_date: change.new_start_date,
+      new_end_date: change.new_end_date,
+      delta_days: change.delta_days,
+      generation_id: generationId,
+      generation_timestamp: generationTimestamp,
+    }));
+
+    console.log("[PLANNER:BE] savePlanToDB - Version tracking summary", {
+      dateChanges: changes.filter((change) => !change.reassigned).length,
+      reassignments: changes.filter((change) => change.reassigned).length,
+      totalVersionRecords: versionRecords.length,
+      generationId,
+    });
 
     // Insert version records if any changes detected
     // IMPORTANT: Insert BEFORE deleting plans, otherwise cascade delete will remove versions
@@ -667,6 +488,7 @@ export async function savePlanToDB(
     }
 
     // 3. Delete old plans (excluding completed ones if excludeCompleted is true)
+    // Fully locked plans are always kept; the engine planned around them
     // NOTE: If plan_versions has "on delete cascade", versions will be deleted too
     // Solution: Make plan_id nullable or change to "on delete set null"
     console.log("[PLANNER:BE] savePlanToDB - Deleting old plans", {
@@ -676,18 +498,19 @@ export async function savePlanToDB(
     
     let deleteError;
     if (excludeCompleted) {
-      // Only delete non-completed plans
+      // Only delete non-completed, not fully locked plans
       const { error } = await supabase
         .from("plans")
         .delete()
-        .eq("is_completed", false);
+        .eq("is_completed", false)
+        .or("lock_type.is.null,lock_type.neq.both");
       deleteError = error;
     } else {
-      // Delete all plans
+      // Delete all plans except the fully locked open ones
       const { error } = await supabase
         .from("plans")
         .delete()
-        .neq("id", "00000000-0000-0000-0000-000000000000");
+        .or("lock_type.is.null,lock_type.neq.both,is_completed.eq.true");
       deleteError = error;
     }
 
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  collectSkillNames,
+  formatSkillList,
+  meetsSkillRequirements,
+  parseSkillList,
+  validateSkills,
+} from "@/lib/skills/matching";
+
+describe("validateSkills", () => {
+  it("accepts a missing list and valid skills", () => {
+    expect(validateSkills(null)).toBeNull();
+    expect(validateSkills([{ name: "React", level: 3 }, { name: "SQL", min_level: 1 }])).toBeNull();
+  });
+
+  it("rejects unnamed skills, invalid levels and duplicates", () => {
+    expect(validateSkills([{ name: " ", level: 2 }])).toBe("Every skill needs a name");
+    expect(validateSkills([{ name: "React", level: 5 }])).toBe(
+      'Skill "React" has an invalid level'
+    );
+    expect(validateSkills([{ name: "React", level: 2 }, { name: " react ", level: 3 }])).toBe(
+      'Skill "react" is listed twice'
+    );
+  });
+});
+
+describe("parseSkillList", () => {
+  it("reads names with and without levels", () => {
+    expect(parseSkillList("React:3; SQL ;")).toEqual({
+      skills: [
+        { name: "React", level: 3 },
+        { name: "SQL", level: 2 },
+      ],
+    });
+    expect(parseSkillList("")).toEqual({ skills: [] });
+  });
+
+  it("rejects levels outside 1-4", () => {
+    expect(parseSkillList("React:7")).toEqual({
+      error: 'Invalid skill "React:7". Use name or name:level (1-4)',
+    });
+  });
+
+  it("reads back what formatSkillList writes", () => {
+    const skills = [
+      { name: "React", level: 3 },
+      { name: "SQL", level: 1 },
+    ];
+    expect(parseSkillList(formatSkillList(skills))).toEqual({ skills });
+  });
+});
+
+describe("meetsSkillRequirements", () => {
+  const skills = [
+    { name: "React", level: 3 as const },
+    { name: "SQL", level: 1 as const },
+  ];
+
+  it("matches names case-insensitively at or above the required level", () => {
+    expect(meetsSkillRequirements(skills, [{ name: " react", min_level: 3 }])).toBe(true);
+    expect(meetsSkillRequirements(skills, [{ name: "SQL", min_level: 2 }])).toBe(false);
+  });
+
+  it("fails on a skill the employee does not hold", () => {
+    expect(meetsSkillRequirements(skills, [{ name: "Go", min_level: 1 }])).toBe(false);
+    expect(meetsSkillRequirements(null, [])).toBe(true);
+  });
+});
+
+describe("collectSkillNames", () => {
+  it("lists each skill once, sorted, in its first spelling", () => {
+    expect(
+      collectSkillNames([[{ name: "sql" }, { name: "React" }], null, [{ name: "SQL " }]])
+    ).toEqual(["React", "sql"]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Skill levels, skill list parsing and skill matching
+ *
+ * Shared by the employee and task forms, the CSV importers, the actions and
+ * the scheduler. Pure helpers only, safe to import from client components.
+ */
+
+import type {
+  EmployeeSkill,
+  SkillLevel,
+  SkillRequirement,
+} from "@/types/database";
+
+export const SKILL_LEVELS: Array<{ value: SkillLevel; label: string }> = [
+  { value: 1, label: "Beginner" },
+  { value: 2, label: "Intermediate" },
+  { value: 3, label: "Advanced" },
+  { value: 4, label: "Expert" },
+];
+
+/** Level given to a skill listed without one in a CSV import */
+export const DEFAULT_SKILL_LEVEL: SkillLevel = 2;
+
+export const isSkillLevel = (value: unknown): value is SkillLevel =>
+  SKILL_LEVELS.some((l) => l.value === value);
+
+export const getSkillLevelLabel = (level: number): string =>
+  SKILL_LEVELS.find((l) => l.value === level)?.label ?? String(level);
+
+// Skill names match case-insensitively, ignoring surrounding spaces
+const normalizeSkillName = (name: string): string => name.trim().toLowerCase();
+
+/**
+ * Validate a list of skills or requirements
+ *
+ * @returns an error message, or null when every entry has a name and a valid
+ * level and no skill is listed twice
+ */
+export function validateSkills(
+  skills: Array<{ name: string; level?: number; min_level?: number }> | null | undefined
+): string | null {
+  if (!skills) return null;
+  if (!Array.isArray(skills)) return "Skills must be a list";
+
+  const seen = new Set<string>();
+  for (const skill of skills) {
+    if (!skill?.name?.trim()) return "Every skill needs a name";
+    if (!isSkillLevel(skill.level ?? skill.min_level)) {
+      return `Skill "${skill.name}" has an invalid level`;
+    }
+    const key = normalizeSkillName(skill.name);
+    if (seen.has(key)) return `Skill "${skill.name.trim()}" is listed twice`;
+    seen.add(key);
+  }
+  return null;
+}
+
+/**
+ * Parse a CSV cell like "React:3; SQL" into skill names and levels
+ * Entries are separated by ";" and a missing level falls back to
+ * `defaultLevel`.
+ */
+export function parseSkillList(
+  text: string | null | undefined,
+  defaultLevel: SkillLevel = DEFAULT_SKILL_LEVEL
+): { skills: Array<{ name: string; level: SkillLevel }> } | { error: string } {
+  const skills: Array<{ name: string; level: SkillLevel }> = [];
+  for (const entry of (text || "").split(";")) {
+    if (!entry.trim()) continue;
+    const [name, levelText] = entry.split(":").map((part) => part.trim());
+    const level = levelText === undefined ? defaultLevel : Number(levelText);
+    if (!name || !isSkillLevel(level)) {
+      return { error: `Invalid skill "${entry.trim()}". Use name or name:level (1-4)` };
+    }
+    skills.push({ name, level });
+  }
+  return { skills };
+}
+
+/**
+ * Format skills as "React:3; SQL:2", the format parseSkillList reads
+ */
+export function formatSkillList(
+  skills: Array<{ name: string; level?: number; min_level?: number }> | null | undefined
+): string {
+  return (skills || [])
+    .map((s) => `${s.name}:${s.level ?? s.min_level}`)
+    .join("; ");
+}
+
+/**
+ * Whether an employee holds every required skill at or above its level
+ */
+export function meetsSkillRequirements(
+  skills: EmployeeSkill[] | null | undefined,
+  requirements: SkillRequirement[]
+): boolean {
+  const levels = new Map(
+    (skills || []).map((s) => [normalizeSkillName(s.name), s.level])
+  );
+  return requirements.every(
+    (r) => (levels.get(normalizeSkillName(r.name)) ?? 0) >= r.min_level
+  );
+}
+
+/**
+ * All distinct skill names in use, for suggestions in the forms
+ */
+export function collectSkillNames(
+  lists: Array<Array<{ name: string }> | null | undefined>
+): string[] {
+  const names = new Map<string, string>();
+  lists.forEach((list) =>
+    list?.forEach((s) => {
+      const key = normalizeSkillName(s.name);
+      if (key && !names.has(key)) names.set(key, s.name.trim());
+    })
+  );
+  return Array.from(names.values()).sort((a, b) => a.localeCompare(b));
+}
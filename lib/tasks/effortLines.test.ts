@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_PARALLELISM,
+  formatEffortLines,
+  getEffortLinesTotal,
+  parseEffortLines,
+  sortEffortLines,
+  validateEffortLines,
+  validateEffortRange,
+  validateMaxParallelism,
+} from "@/lib/tasks/effortLines";
+
+describe("validateEffortLines", () => {
+  it("accepts no lines and two roles with hours", () => {
+    expect(validateEffortLines(null)).toBeNull();
+    expect(validateEffortLines([])).toBeNull();
+    expect(
+      validateEffortLines([
+        { designation: "Developer", effort_hours: 24 },
+        { designation: "QA", effort_hours: 8 },
+      ])
+    ).toBeNull();
+  });
+
+  it("rejects unknown roles, empty hours, repeats and a single role", () => {
+    expect(
+      validateEffortLines([{ designation: "Designer" as "QA", effort_hours: 8 }])
+    ).toBe('Invalid role "Designer". Must be Developer or QA');
+    expect(validateEffortLines([{ designation: "QA", effort_hours: 0 }])).toBe(
+      "QA effort must be greater than 0"
+    );
+    expect(
+      validateEffortLines([
+        { designation: "QA", effort_hours: 4 },
+        { designation: "QA", effort_hours: 4 },
+      ])
+    ).toBe("QA effort is listed twice");
+    expect(validateEffortLines([{ designation: "Developer", effort_hours: 8 }])).toBe(
+      "A multi-role task needs effort for at least two roles"
+    );
+  });
+});
+
+describe("parseEffortLines", () => {
+  it("reads role:hours entries in the order roles are worked", () => {
+    expect(parseEffortLines("QA:8; Developer:24")).toEqual({
+      lines: [
+        { designation: "Developer", effort_hours: 24 },
+        { designation: "QA", effort_hours: 8 },
+      ],
+    });
+    expect(parseEffortLines("")).toEqual({ lines: [] });
+  });
+
+  it("rejects entries without a known role or positive hours", () => {
+    expect(parseEffortLines("Developer:0")).toEqual({
+      error: 'Invalid effort line "Developer:0". Use role:hours, e.g. Developer:24; QA:8',
+    });
+    expect("error" in parseEffortLines("Tester:8")).toBe(true);
+  });
+});
+
+describe("effort line helpers", () => {
+  const lines = [
+    { designation: "QA" as const, effort_hours: 8 },
+    { designation: "Developer" as const, effort_hours: 24 },
+  ];
+
+  it("sorts, totals and formats lines", () => {
+    expect(sortEffortLines(lines).map((l) => l.designation)).toEqual(["Developer", "QA"]);
+    expect(getEffortLinesTotal(lines)).toBe(32);
+    expect(formatEffortLines(sortEffortLines(lines))).toBe("Developer 24h → QA 8h");
+  });
+});
+
+describe("validateMaxParallelism", () => {
+  it("accepts a missing limit and whole numbers up to the maximum", () => {
+    expect(validateMaxParallelism(null)).toBeNull();
+    expect(validateMaxParallelism(1)).toBeNull();
+    expect(validateMaxParallelism(MAX_PARALLELISM)).toBeNull();
+  });
+
+  it("rejects zero, fractions and more than the maximum", () => {
+    const error = `Split across must be a whole number from 1 to ${MAX_PARALLELISM}`;
+    expect(validateMaxParallelism(0)).toBe(error);
+    expect(validateMaxParallelism(1.5)).toBe(error);
+    expect(validateMaxParallelism(MAX_PARALLELISM + 1)).toBe(error);
+  });
+});
+
+describe("validateEffortRange", () => {
+  it("accepts missing estimates and ones around the likely effort", () => {
+    expect(validateEffortRange({ effort_hours: 16 })).toBeNull();
+    expect(
+      validateEffortRange({ effort_hours: 16, effort_optimistic: 16, effort_pessimistic: 40 })
+    ).toBeNull();
+  });
+
+  it("rejects estimates on the wrong side of the likely effort", () => {
+    expect(validateEffortRange({ effort_hours: 16, effort_optimistic: 0 })).toBe(
+      "Optimistic effort must be greater than 0"
+    );
+    expect(validateEffortRange({ effort_hours: 16, effort_optimistic: 20 })).toBe(
+      "Optimistic effort cannot be more than the likely effort"
+    );
+    expect(validateEffortRange({ effort_hours: 16, effort_pessimistic: 8 })).toBe(
+      "Pessimistic effort cannot be less than the likely effort"
+    );
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * How a task's effort is divided
+ *
+ * A task that needs both development and QA carries one effort line per
+ * role; the planner works them in order. A splittable task may also spread
+ * its effort over several employees in parallel. Pure helpers shared by the
+ * task form, the CSV importer and the actions, safe to import from client
+ * components.
+ */
+
+import type { TaskEffortLine, TaskInsert } from "@/types/database";
+
+/** Roles a task can be split between, in the order they are worked */
+export const EFFORT_LINE_ROLES: Array<TaskEffortLine["designation"]> = [
+  "Developer",
+  "QA",
+];
+
+/** Most employees a splittable task can be spread across */
+export const MAX_PARALLELISM = 10;
+
+/**
+ * Validate how many employees a task may be split across
+ *
+ * @returns an error message, or null for a whole number from 1 (not
+ * splittable) to MAX_PARALLELISM
+ */
+export function validateMaxParallelism(
+  value: number | null | undefined
+): string | null {
+  if (value == null) return null;
+  if (!Number.isInteger(value) || value < 1 || value > MAX_PARALLELISM) {
+    return `Split across must be a whole number from 1 to ${MAX_PARALLELISM}`;
+  }
+  return null;
+}
+
+/**
+ * Validate a task's optimistic and pessimistic effort estimates, around
+ * its likely effort (effort_hours)
+ *
+ * @returns an error message, or null when each is missing or a positive
+ * number of hours, the optimistic one at most and the pessimistic one at
+ * least the likely effort
+ */
+export function validateEffortRange(
+  task: Pick<TaskInsert, "effort_hours" | "effort_optimistic" | "effort_pessimistic">
+): string | null {
+  const { effort_hours, effort_optimistic, effort_pessimistic } = task;
+  if (effort_optimistic != null) {
+    if (!Number.isFinite(effort_optimistic) || effort_optimistic <= 0) {
+      return "Optimistic effort must be greater than 0";
+    }
+    if (effort_optimistic > effort_hours) {
+      return "Optimistic effort cannot be more than the likely effort";
+    }
+  }
+  if (effort_pessimistic != null) {
+    if (!Number.isFinite(effort_pessimistic)) {
+      return "Pessimistic effort must be a number";
+    }
+    if (effort_pessimistic < effort_hours) {
+      return "Pessimistic effort cannot be less than the likely effort";
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate the effort lines of a task
+ *
+ * @returns an error message, or null when the lines are empty or name at
+ * least two different roles with positive hours each
+ */
+export function validateEffortLines(
+  lines: TaskEffortLine[] | null | undefined
+): string | null {
+  if (!lines || (Array.isArray(lines) && lines.length === 0)) return null;
+  if (!Array.isArray(lines)) return "Effort lines must be a list";
+
+  const seen = new Set<string>();
+  for (const line of lines) {
+    if (!EFFORT_LINE_ROLES.includes(line?.designation)) {
+      return `Invalid role "${line?.designation}". Must be Developer or QA`;
+    }
+    if (!(line.effort_hours > 0)) {
+      return `${line.designation} effort must be greater than 0`;
+    }
+    if (seen.has(line.designation)) {
+      return `${line.designation} effort is listed twice`;
+    }
+    seen.add(line.designation);
+  }
+  if (lines.length < 2) {
+    return "A multi-role task needs effort for at least two roles";
+  }
+  return null;
+}
+
+/**
+ * Put effort lines into the order their roles are worked
+ */
+export function sortEffortLines(lines: TaskEffortLine[]): TaskEffortLine[] {
+  return [...lines].sort(
+    (a, b) =>
+      EFFORT_LINE_ROLES.indexOf(a.designation) -
+      EFFORT_LINE_ROLES.indexOf(b.designation)
+  );
+}
+
+/** Total effort of all lines */
+export const getEffortLinesTotal = (lines: TaskEffortLine[]): number =>
+  lines.reduce((sum, line) => sum + line.effort_hours, 0);
+
+/**
+ * Parse a CSV cell like "Developer:24; QA:8" into effort lines
+ * An empty cell gives no lines (a single-role task).
+ */
+export function parseEffortLines(
+  text: string | null | undefined
+): { lines: TaskEffortLine[] } | { error: string } {
+  const lines: TaskEffortLine[] = [];
+  for (const entry of (text || "").split(";")) {
+    if (!entry.trim()) continue;
+    const [role, hoursText] = entry.split(":").map((part) => part.trim());
+    const hours = Number(hoursText);
+    if (
+      !EFFORT_LINE_ROLES.includes(role as TaskEffortLine["designation"]) ||
+      !(hours > 0)
+    ) {
+      return {
+        error: `Invalid effort line "${entry.trim()}". Use role:hours, e.g. Developer:24; QA:8`,
+      };
+    }
+    lines.push({
+      designation: role as TaskEffortLine["designation"],
+      effort_hours: hours,
+    });
+  }
+  return { lines: sortEffortLines(lines) };
+}
+
+/**
+ * Format effort lines for display, e.g. "Developer 24h → QA 8h"
+ */
+export function formatEffortLines(
+  lines: TaskEffortLine[] | null | undefined
+): string {
+  return (lines || [])
+    .map((line) => `${line.designation} ${line.effort_hours}h`)
+    .join(" → ");
+}
@@ -5,7 +5,7 @@
  */
 
 import { createServerSupabaseClient } from "@/lib/supabase/server";
-import type { Task } from "@/types/database";
+import type { Task, TaskDependency } from "@/types/database";
 
 /**
  * Fetch all tasks from the database
@@ -29,3 +29,25 @@ export async function fetchTasks(): Promise<Task[]> {
   console.log(`[TASKS:FETCH] Successfully fetched ${count} tasks`);
   return data || [];
 }
+
+/**
+ * Fetch all task dependencies (finish-to-start links)
+ */
+export async function fetchTaskDependencies(): Promise<TaskDependency[]> {
+  console.log("[TASKS:FETCH] Starting fetchTaskDependencies()");
+  const supabase = createServerSupabaseClient();
+
+  const { data, error } = await supabase
+    .from("task_dependencies")
+    .select("*");
+
+  if (error) {
+    console.error("[TASKS:FETCH] Error fetching task dependencies:", error);
+    // Return empty array on error to prevent page crash
+    return [];
+  }
+
+  const count = data?.length || 0;
+  console.log(`[TASKS:FETCH] Successfully fetched ${count} task dependencies`);
+  return data || [];
+}
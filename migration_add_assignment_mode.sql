@@ -0,0 +1,7 @@
+-- Migration: Record the assignment mode each plan generation used
+-- Run this SQL in your Supabase SQL Editor
+
+-- least_loaded picks the employee with the fewest allocated hours,
+-- earliest_finish the one who would complete each task soonest
+ALTER TABLE plan_generations
+ADD COLUMN IF NOT EXISTS assignment_mode VARCHAR(20) NOT NULL DEFAULT 'least_loaded' CHECK (assignment_mode IN ('least_loaded', 'earliest_finish'));
@@ -0,0 +1,20 @@
+-- Migration: Add optimistic and pessimistic effort estimates to tasks
+-- Run this SQL in your Supabase SQL Editor
+
+-- effort_hours stays the likely estimate; the simulator's delivery forecast
+-- samples efforts between these bounds. A missing bound means no uncertainty
+-- on that side.
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS effort_optimistic NUMERIC NULL;
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS effort_pessimistic NUMERIC NULL;
+
+ALTER TABLE tasks
+DROP CONSTRAINT IF EXISTS tasks_effort_range_check;
+
+ALTER TABLE tasks
+ADD CONSTRAINT tasks_effort_range_check CHECK (
+  (effort_optimistic IS NULL OR (effort_optimistic > 0 AND effort_optimistic <= effort_hours))
+  AND (effort_pessimistic IS NULL OR effort_pessimistic >= effort_hours)
+);
@@ -0,0 +1,13 @@
+-- Migration: Add per-role effort lines to tasks and plans
+-- Run this SQL in your Supabase SQL Editor
+
+-- Effort per role for tasks that need more than one, worked in order,
+-- e.g. [{"designation": "Developer", "effort_hours": 24}, {"designation": "QA", "effort_hours": 8}]
+-- Empty for single-role tasks, which keep using effort_hours and designation_required
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS effort_lines JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Role a plan row covers for a multi-role task (NULL for single-role tasks)
+-- A multi-role task gets one plan row per role
+ALTER TABLE plans
+ADD COLUMN IF NOT EXISTS role TEXT;
@@ -0,0 +1,15 @@
+-- Migration: Add employment start and end dates to employees
+-- Run this SQL in your Supabase SQL Editor
+
+-- The planner schedules nobody before their start date or after their end
+-- date; both are optional and inclusive
+ALTER TABLE employees
+ADD COLUMN IF NOT EXISTS start_date DATE,
+ADD COLUMN IF NOT EXISTS end_date DATE;
+
+ALTER TABLE employees
+DROP CONSTRAINT IF EXISTS employees_employment_dates_check;
+
+ALTER TABLE employees
+ADD CONSTRAINT employees_employment_dates_check
+CHECK (start_date IS NULL OR end_date IS NULL OR end_date >= start_date);
@@ -0,0 +1,29 @@
+-- Migration: Add holiday calendars shared by groups of employees
+-- Run this SQL in your Supabase SQL Editor
+
+-- Named calendars, e.g. per country or office
+CREATE TABLE IF NOT EXISTS holiday_calendars (
+  id BIGSERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL UNIQUE,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_updated TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Holidays belong to one calendar; deleting a calendar deletes its holidays
+CREATE TABLE IF NOT EXISTS holidays (
+  id BIGSERIAL PRIMARY KEY,
+  calendar_id BIGINT NOT NULL REFERENCES holiday_calendars(id) ON DELETE CASCADE,
+  holiday_date DATE NOT NULL,
+  name VARCHAR(200) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_updated TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (calendar_id, holiday_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_holidays_calendar_id ON holidays(calendar_id);
+CREATE INDEX IF NOT EXISTS idx_holidays_last_updated ON holidays(last_updated);
+
+-- Each employee follows at most one calendar
+ALTER TABLE employees 
+ADD COLUMN IF NOT EXISTS holiday_calendar_id BIGINT REFERENCES holiday_calendars(id) ON DELETE SET NULL;
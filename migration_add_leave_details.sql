@@ -0,0 +1,15 @@
+-- Migration: Add leave type and partial-day leaves
+-- Run this SQL in your Supabase SQL Editor
+
+-- Kind of leave (reporting only, does not affect scheduling)
+ALTER TABLE leaves 
+ADD COLUMN IF NOT EXISTS leave_type VARCHAR(20) DEFAULT 'Vacation' CHECK (leave_type IN ('Vacation', 'Sick', 'Personal', 'Medical', 'Other'));
+
+-- Part of the day taken off; existing rows stay full days
+ALTER TABLE leaves 
+ADD COLUMN IF NOT EXISTS portion VARCHAR(10) DEFAULT 'full_day' CHECK (portion IN ('full_day', 'am', 'pm', 'hours'));
+
+-- Hours taken off, only used when portion = 'hours'
+ALTER TABLE leaves 
+ADD COLUMN IF NOT EXISTS hours NUMERIC(4, 2) CHECK (hours IS NULL OR (hours > 0 AND hours <= 24));
+
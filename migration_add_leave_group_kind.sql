@@ -0,0 +1,13 @@
+-- Migration: Remember how a grouped leave booking was made
+-- Run this SQL in your Supabase SQL Editor
+
+-- 'range' or 'weekly' on every day of a grouped booking; NULL for single-day
+-- leaves. Bookings skip holidays and days can be deleted one by one, so the
+-- kind cannot be told from the remaining dates.
+ALTER TABLE leaves
+ADD COLUMN IF NOT EXISTS group_kind TEXT
+CHECK (group_kind IN ('range', 'weekly'));
+
+-- Weekdays (0 = Sunday) a weekly booking repeats on; NULL otherwise
+ALTER TABLE leaves
+ADD COLUMN IF NOT EXISTS group_weekdays SMALLINT[];
@@ -0,0 +1,8 @@
+-- Migration: Group leave days booked as a range or recurring pattern
+-- Run this SQL in your Supabase SQL Editor
+
+-- Shared by every day of one booking; NULL for single-day leaves
+ALTER TABLE leaves 
+ADD COLUMN IF NOT EXISTS group_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_leaves_group_id ON leaves(group_id);
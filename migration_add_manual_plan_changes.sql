@@ -0,0 +1,10 @@
+-- Migration: Allow manual plan changes (drag-and-drop on the timeline) in plan_generations
+-- Run this SQL in your Supabase SQL Editor
+
+-- A manual move is recorded as its own generation so its plan_versions row
+-- can be told apart from generated and simulated changes
+ALTER TABLE plan_generations
+DROP CONSTRAINT IF EXISTS plan_generations_source_check;
+
+ALTER TABLE plan_generations
+ADD CONSTRAINT plan_generations_source_check CHECK (source IN ('generate', 'simulation', 'manual'));
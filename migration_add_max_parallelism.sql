@@ -0,0 +1,8 @@
+-- Migration: Allow splitting a task across several employees in parallel
+-- Run this SQL in your Supabase SQL Editor
+
+-- Most employees a task's effort may be spread across at the same time
+-- 1 keeps the task with a single assignee; each assignee gets their own plan row
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS max_parallelism INTEGER NOT NULL DEFAULT 1
+CHECK (max_parallelism >= 1);
@@ -0,0 +1,7 @@
+-- Migration: Store why each plan got its assignee and dates
+-- Run this SQL in your Supabase SQL Editor
+
+-- Trace written by the planner: candidates and their loads, the reason the
+-- assignee was picked, why the plan starts when it does and the days skipped
+ALTER TABLE plans
+ADD COLUMN IF NOT EXISTS explanation JSONB;
@@ -0,0 +1,13 @@
+-- Migration: Add locks to plans so regeneration respects manual agreements
+-- Run this SQL in your Supabase SQL Editor
+
+-- What a locked plan pins when the plan is generated again:
+--   'assignee' - the same employee keeps the task, dates are recalculated
+--   'dates'    - the task keeps its start date, the employee may change
+--   'both'     - the row is kept as it is and its days count as occupied
+-- NULL means the plan is not locked
+ALTER TABLE plans
+ADD COLUMN IF NOT EXISTS lock_type VARCHAR(10) CHECK (lock_type IN ('assignee', 'dates', 'both'));
+
+-- Create index for loading locked plans before generation
+CREATE INDEX IF NOT EXISTS idx_plans_lock_type ON plans(lock_type);
@@ -0,0 +1,13 @@
+-- Migration: Log the hours spent on a plan
+-- Run this SQL in your Supabase SQL Editor
+
+-- Hours actually worked on the plan so far, part of its total_hours;
+-- regenerating with "Exclude completed" plans only the rest
+ALTER TABLE plans
+ADD COLUMN IF NOT EXISTS hours_spent NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE plans
+DROP CONSTRAINT IF EXISTS plans_hours_spent_check;
+
+ALTER TABLE plans
+ADD CONSTRAINT plans_hours_spent_check CHECK (hours_spent >= 0);
@@ -0,0 +1,13 @@
+-- Migration: Record the start date and horizon of each plan generation
+-- Run this SQL in your Supabase SQL Editor
+
+-- The first day the plan could use and, when set, the last day it covers;
+-- tasks finishing after the horizon were reported as overflow
+ALTER TABLE plan_generations
+ADD COLUMN IF NOT EXISTS plan_start_date DATE,
+ADD COLUMN IF NOT EXISTS horizon_end DATE;
+
+-- Earlier generations planned from the day they were created
+UPDATE plan_generations
+SET plan_start_date = created_at::date
+WHERE plan_start_date IS NULL;
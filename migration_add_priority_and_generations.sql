@@ -0,0 +1,18 @@
+-- Migration: Add task priority and plan generation settings
+-- Run this SQL in your Supabase SQL Editor
+
+-- Add priority to tasks table (used by priority-based ordering strategies)
+ALTER TABLE tasks 
+ADD COLUMN IF NOT EXISTS priority VARCHAR(10) DEFAULT 'Medium' CHECK (priority IN ('Low', 'Medium', 'High', 'Critical'));
+
+-- Record how each plan generation was produced
+-- id matches plan_versions.generation_id
+CREATE TABLE IF NOT EXISTS plan_generations (
+  id UUID PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  source VARCHAR(20) NOT NULL DEFAULT 'generate' CHECK (source IN ('generate', 'simulation')),
+  ordering_strategy VARCHAR(30) NOT NULL DEFAULT 'smallest_effort',
+  plan_count INTEGER DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_plan_generations_created_at ON plan_generations(created_at);
@@ -0,0 +1,19 @@
+-- Migration: Save named what-if scenarios from the simulator
+-- Run this SQL in your Supabase SQL Editor
+
+-- A scenario keeps the simulation options (strategy, planning window,
+-- delayed tasks, blocked employees) and the plans they produced when saved,
+-- so it can be reloaded, shared and re-run against newer data
+CREATE TABLE IF NOT EXISTS scenarios (
+  id BIGSERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL UNIQUE,
+  description TEXT,
+  author VARCHAR(100),
+  options JSONB NOT NULL DEFAULT '{}',
+  plans JSONB NOT NULL DEFAULT '[]',
+  unscheduled_tasks JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_updated TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scenarios_last_updated ON scenarios(last_updated);
@@ -0,0 +1,15 @@
+-- Migration: Add skills to employees and required skills to tasks
+-- Run this SQL in your Supabase SQL Editor
+
+-- Skills an employee holds, e.g. [{"name": "React", "level": 3}]
+-- Levels: 1 Beginner, 2 Intermediate, 3 Advanced, 4 Expert
+ALTER TABLE employees
+ADD COLUMN IF NOT EXISTS skills JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Skills a task needs, e.g. [{"name": "React", "min_level": 2}]
+-- Tasks without required skills keep matching on designation_required
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS required_skills JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Support lookups of employees by skill name
+CREATE INDEX IF NOT EXISTS idx_employees_skills ON employees USING GIN (skills);
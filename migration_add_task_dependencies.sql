@@ -0,0 +1,16 @@
+-- Migration: Add finish-to-start task dependencies
+-- Run this SQL in your Supabase SQL Editor
+
+-- A row means: task_id cannot start before depends_on_task_id has finished
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  id BIGSERIAL PRIMARY KEY,
+  task_id BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  depends_on_task_id BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT task_dependencies_unique UNIQUE (task_id, depends_on_task_id),
+  CONSTRAINT task_dependencies_not_self CHECK (task_id <> depends_on_task_id)
+);
+
+-- Create indexes for faster lookups in both directions
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_task_id ON task_dependencies(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_depends_on ON task_dependencies(depends_on_task_id);
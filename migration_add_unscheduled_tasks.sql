@@ -0,0 +1,7 @@
+-- Migration: Record the tasks each plan generation could not schedule
+-- Run this SQL in your Supabase SQL Editor
+
+-- A list of { task_id, title, reason, role } entries, shown in the
+-- planner's Unscheduled panel for the latest generation
+ALTER TABLE plan_generations
+ADD COLUMN IF NOT EXISTS unscheduled_tasks JSONB NOT NULL DEFAULT '[]'::jsonb;
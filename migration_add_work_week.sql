@@ -0,0 +1,13 @@
+-- Migration: Add configurable work weeks to employees and holiday calendars
+-- Run this SQL in your Supabase SQL Editor
+
+-- Days of the week worked, as weekday keys ('mon' … 'sun').
+-- NULL on an employee falls back to their holiday calendar, then to Mon–Fri.
+ALTER TABLE employees
+ADD COLUMN IF NOT EXISTS work_days TEXT[];
+
+ALTER TABLE holiday_calendars
+ADD COLUMN IF NOT EXISTS work_days TEXT[];
+
+COMMENT ON COLUMN employees.work_days IS 'Weekday keys the employee works (e.g. {sun,mon,tue,wed,thu}); NULL uses the holiday calendar work week';
+COMMENT ON COLUMN holiday_calendars.work_days IS 'Weekday keys worked by employees on this calendar; NULL means Mon–Fri';
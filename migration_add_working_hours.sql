@@ -0,0 +1,11 @@
+-- Migration: Add per-employee working hours and per-day plan allocations
+-- Run this SQL in your Supabase SQL Editor
+
+-- Hours available per weekday, e.g. {"mon": 8, "tue": 8, "wed": 4, "thu": 8, "fri": 0}
+-- Missing days (or NULL) default to 8 hours
+ALTER TABLE employees 
+ADD COLUMN IF NOT EXISTS working_hours JSONB;
+
+-- Hours booked on each day of a plan, e.g. [{"date": "2026-01-05", "hours": 4}]
+ALTER TABLE plans 
+ADD COLUMN IF NOT EXISTS daily_allocations JSONB DEFAULT '[]'::jsonb;
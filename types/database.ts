@@ -1,8 +1,35 @@
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/** Hours available per weekday; missing days default to 8 */
+export type WorkingHours = Partial<Record<Weekday, number>>;
+
+/** Proficiency from 1 (Beginner) to 4 (Expert) */
+export type SkillLevel = 1 | 2 | 3 | 4;
+
+export type EmployeeSkill = {
+  name: string;
+  level: SkillLevel;
+};
+
+export type SkillRequirement = {
+  name: string;
+  min_level: SkillLevel;
+};
+
 export interface Employee {
   id: number;
   name: string;
   designation: 'Developer' | 'QA';
   active: boolean;
+  working_hours?: WorkingHours | null;
+  skills?: EmployeeSkill[] | null;
+  /** Days of the week worked; null uses the holiday calendar's, then Mon–Fri */
+  work_days?: Weekday[] | null;
+  holiday_calendar_id?: number | null;
+  /** First day of employment (YYYY-MM-DD); null if already employed */
+  start_date?: string | null;
+  /** Last day of employment (YYYY-MM-DD); null if not leaving */
+  end_date?: string | null;
   created_at?: string;
 }
 
@@ -14,15 +41,65 @@ export interface EmployeeBasic {
 export type EmployeeInsert = Omit<Employee, 'id' | 'created_at'>;
 export type EmployeeUpdate = Partial<EmployeeInsert> & { id: number };
 
+export interface HolidayCalendar {
+  id: number;
+  name: string;
+  description?: string | null;
+  /** Work week of employees on this calendar; null means Mon–Fri */
+  work_days?: Weekday[] | null;
+  created_at?: string;
+}
+
+export interface Holiday {
+  id: number;
+  calendar_id: number;
+  holiday_date: string;
+  name: string;
+  created_at?: string;
+}
+
+export type LeaveType = 'Vacation' | 'Sick' | 'Personal' | 'Medical' | 'Other';
+
+/** Part of the day a leave covers; 'hours' uses the leave's hours field */
+export type LeavePortion = 'full_day' | 'am' | 'pm' | 'hours';
+
+export type TaskPriority = 'Low' | 'Medium' | 'High' | 'Critical';
+
+/** Effort one role puts into a multi-role task, e.g. 24h Developer */
+export type TaskEffortLine = {
+  designation: 'Developer' | 'QA';
+  effort_hours: number;
+};
+
 export interface Task {
   id: number;
   client: string;
   title: string;
   effort_hours: number;
   designation_required: 'Developer' | 'QA';
+  /** When set, matching uses these skills instead of designation_required */
+  required_skills?: SkillRequirement[] | null;
+  /**
+   * Per-role effort, worked in order (QA after Developer); when set,
+   * effort_hours is their total and designation_required the first role
+   */
+  effort_lines?: TaskEffortLine[] | null;
+  /** Most employees the effort may be split across in parallel; 1 = not splittable */
+  max_parallelism?: number | null;
+  /** Best-case and worst-case effort in hours; effort_hours is the likely one */
+  effort_optimistic?: number | null;
+  effort_pessimistic?: number | null;
   due_date?: string | null;
+  priority?: TaskPriority | null;
   created_at?: string;
 }
 
 export type TaskInsert = Omit<Task, 'id' | 'created_at'>;
 export type TaskUpdate = Partial<TaskInsert> & { id: number };
+
+export interface TaskDependency {
+  id: number;
+  task_id: number;
+  depends_on_task_id: number;
+  created_at?: string;
+}